@@ -0,0 +1,60 @@
+// ============================================
+// Audit API Route - Change History and Revert
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getChanges, mutationContextFromRequest } from '@/lib/auditLog';
+import { revertChange, revertTurn } from '@/lib/revert';
+import { readJsonBody } from '@/lib/requestBody';
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Number(searchParams.get('limit')) || undefined;
+    const changes = await getChanges({
+      entity_type: searchParams.get('entity_type') || undefined,
+      entity_id: searchParams.get('entity_id') || undefined,
+      turn_id: searchParams.get('turn_id') || undefined,
+      source: searchParams.get('source') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      since: searchParams.get('since') || undefined,
+      limit,
+    });
+    return NextResponse.json({ count: changes.length, changes });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to read audit log', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Revert a single change ({ change_id }) or every change from a chat turn ({ turn_id })
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const body = read.body;
+    const context = mutationContextFromRequest(req);
+    if (typeof body.reason === 'string') context.reason = body.reason;
+    const force = body.force === true;
+
+    if (typeof body.change_id === 'string') {
+      const result = await revertChange(body.change_id, context, { force });
+      return NextResponse.json(result, { status: result.success ? 200 : 409 });
+    }
+
+    if (typeof body.turn_id === 'string') {
+      const result = await revertTurn(body.turn_id, context, { force });
+      const failed = result.results.some((r) => !r.success);
+      return NextResponse.json(result, { status: failed ? 409 : 200 });
+    }
+
+    return NextResponse.json({ error: 'Provide "change_id" or "turn_id" to revert.' }, { status: 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Revert failed', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -2,33 +2,79 @@
 // Chat API Route - AI Agent with Tool Calling
 // ============================================
 
+import { randomUUID } from 'crypto';
 import { openai } from '@ai-sdk/openai';
 import { streamText, tool } from 'ai';
+import type { CoreMessage } from 'ai';
 import { z } from 'zod';
 import {
   getPilots,
   getDrones,
   getMissions,
+  getEquipment,
   getPilotById,
   getDroneById,
   getMissionById,
+  updatePilot,
+  updateDrone,
   updatePilotStatus,
   updateDroneStatus,
-  updateMissionStatus,
+  updateEquipmentStatus,
+  applyServiceInterval,
+  createPilot,
+  createDrone,
+  createEquipment,
+  archivePilot,
+  archiveDrone,
+  archiveMission,
+  archiveEquipment,
   getDataSummary,
   forceSync,
+  getSyncStatus,
+  initializeData,
 } from '@/lib/dataStore';
-import { detectAllConflicts, validatePilotAssignment, validateDroneAssignment, findBestPilotForMission, findBestDroneForMission } from '@/lib/conflicts';
+import {
+  assignPilotToMission,
+  assignDroneToMission,
+  assignEquipmentToMission,
+  unassignFromMission,
+  unassignEquipmentFromMission,
+  markResourcesUnavailable,
+  createMissionWithAssignments,
+  repairIntegrity,
+  transitionMission,
+} from '@/lib/assignments';
+import { getChanges } from '@/lib/auditLog';
+import { readJsonBody } from '@/lib/requestBody';
+import { getDataQualityReport } from '@/lib/dataQuality';
+import { getIntegrityReport } from '@/lib/integrity';
+import { revertChange, revertTurn } from '@/lib/revert';
+import type { MutationContext } from '@/lib/types';
+import { formatSchedule, isNightOperation, addDays, localToday } from '@/lib/scheduling';
+import { blocksBetween } from '@/lib/availability';
+import { formatDateBlocks, blocksOverlapping } from '@/lib/dateBlocks';
+import { windowsBetween, findMaintenanceSlot } from '@/lib/maintenance';
+import { recordFlightDetails, getFlightLogs, pilotFlightSummary, droneFlightSummary } from '@/lib/flightLogs';
+import { detectAllConflicts, findBestPilotForMission, findBestDroneForMission } from '@/lib/conflicts';
+import { formatCrew, crewIds, roleOf, openRoles, dronesRequired, dronesMissing } from '@/lib/crew';
+import { planAssignments, applyPlan } from '@/lib/planner';
+import { getMissionTransitions, MISSION_TRANSITIONS } from '@/lib/lifecycle';
+import { formatBreakdown } from '@/lib/scoringPolicy';
+import { capabilityRequirements, describeRequirement } from '@/lib/capabilities';
+import { estimateTravel, describeTravel } from '@/lib/travel';
+import { formatCertifications, certificationExpiries } from '@/lib/certifications';
+import { PilotSchema, DroneSchema, EquipmentSchema, MissionRequestSchema, CrewRoleSchema, AvailabilityBlockSchema, MaintenanceWindowSchema, CertificationSchema, formatZodIssues } from '@/lib/schemas';
 
 export const maxDuration = 60;
 
 const SYSTEM_PROMPT = `You are **SkyOps**, the AI Drone Operations Coordinator for Skylark Drones. You help manage the company's fleet of drones, pilot roster, and mission assignments.
 
 ## Your Responsibilities
-1. **Roster Management** — Query pilot availability by skill, certification, location. Update pilot statuses.
-2. **Assignment Tracking** — Match pilots/drones to projects. Track and handle reassignments.
+1. **Roster Management** — Query pilot availability by skill, certification, location. Update pilot statuses. Onboard new pilots and drones, book new missions, and archive retired records.
+2. **Assignment Tracking** — Staff mission crews (PIC, Observer, Payload Operator) and assign drones, including missions that fly several drones. Track and handle reassignments.
 3. **Drone Inventory** — Query fleet by capability, availability, location. Track maintenance.
-4. **Conflict Detection** — Identify double-bookings, skill/cert mismatches, location issues, and maintenance conflicts.
+4. **Equipment Inventory** — Track batteries, payloads and ground kits: what is available where, which drone models they fit, and which missions they are booked for.
+5. **Conflict Detection** — Identify double-bookings, skill/cert mismatches, drone capability gaps, location issues, and maintenance conflicts.
 
 ## Important Rules
 - **Always check for conflicts** before confirming an assignment.
@@ -37,16 +83,31 @@ const SYSTEM_PROMPT = `You are **SkyOps**, the AI Drone Operations Coordinator f
 - **Prioritize missions** by priority: Urgent > High > Standard.
 - Be proactive: if you notice potential issues, flag them.
 - When a user asks about "urgent reassignment," find all affected missions, propose replacements sorted by priority, and confirm before executing.
+- To staff several missions at once (e.g. "plan this week's assignments"), use planAssignments rather than matching missions one by one. Present the plan as a table with the reasons and any unfilled slots, and apply it only after the user confirms (they may leave missions out).
+- Syncing merges edits made directly in the spreadsheet with local edits. If a sync reports field conflicts, list each one (record, field, local vs. sheet value, which side was kept) so the user can re-apply the losing value if needed.
+- After each sync, assignments are cross-checked: missions vs. each pilot's, drone's and item's current assignment and status. If the integrity report has issues, explain them and offer a repair; always preview it with a dry run and apply only after the user confirms.
+- Rows read from the data source are validated. If the user asks about bad or missing data, use the data quality report and name the sheet row numbers that need fixing.
+- Mission status changes go through transitionMission: Planned -> Active or Cancelled, Active -> Completed, Cancelled or back to Planned; Completed and Cancelled are final. A mission goes Active only with a PIC and a drone (assigning both does this automatically). Completing or cancelling frees its crew, drones and equipment for their next missions.
+- Completing a mission opens its flight log. Ask for the sorties, flight minutes and battery cycles flown and record them; flown hours count toward the drone's service interval and the pilot's currency.
+- Every change is recorded in an audit log. If the user asks what happened or wants a change undone, use the change history and revert tools.
 - Today's date is ${new Date().toISOString().split('T')[0]}.
 
 ## Conflict Rules
-- A pilot cannot be assigned to overlapping date ranges across missions.
-- A drone cannot be assigned to overlapping date ranges.
-- Pilot must have ALL required certifications for a mission.
-- Pilot must have ALL required skills for a mission.
-- Pilot and drone locations must match the mission location.
-- Drones in "Maintenance" status cannot be assigned.
-- Pilots with "On Leave" or "Unavailable" status cannot be assigned.
+- A pilot cannot be assigned to missions whose schedules overlap. Missions without times block whole days; missions with start/end times are daily shifts and only clash when the shifts overlap.
+- A drone cannot be assigned to missions whose schedules overlap.
+- Equipment (batteries, payloads, ground kits) is booked per mission and cannot be booked on missions whose schedules overlap. Each item lists the drone models it fits (empty = any); booked items must fit one of the mission's drones, and items in "Maintenance" cannot be booked. When a drone is assigned, suggest compatible kit at the mission location.
+- A mission with a shift that starts before sunrise or ends after sunset at its location is a night operation; the PIC needs the Night Ops certification even if the mission does not list it.
+- A mission's crew has a pilot-in-command (PIC) and may need more roles (e.g. an Observer); open roles and missing drones mean the mission is not fully staffed. A pilot holds one role per mission.
+- The PIC must have ALL required certifications and ALL required skills for a mission, including Night Ops for night operations. A Payload Operator needs the required skills and certifications except Night Ops; an Observer needs only the certifications except Night Ops.
+- Crew and drone locations must match the mission location; sites in the same metro area (e.g. Gurgaon and Delhi) count as the same place. Mismatches report the distance and travel time, and matches score by how far a candidate is.
+- Consecutive missions in different places must leave time to travel between them (roughly: road trips at ~45 km/h, longer trips by air with ~4 h of overhead). Too little time is an error when both missions have shift times and a warning for whole-day missions.
+- A mission's drones must together cover the capabilities it needs: those it lists as required plus those its skills imply (Thermal work needs a Thermal drone; Mapping and Survey need LiDAR, else RGB). A drone without them cannot fly the mission alone.
+- Each drone has scheduled maintenance windows (service, firmware, inspection, repair). A drone cannot be assigned to a mission whose dates overlap a window; a drone in "Maintenance" today can still take a mission after its window ends.
+- "Maintenance" is derived from the windows. Marking a drone Maintenance by hand opens an open-ended repair window; setting it back to Available closes the repair. When maintenance is due before a mission ends and no service window is planned, warn and offer to schedule one around the drone's missions.
+- Certifications can carry a number, issuer, issue and expiry dates and the drone class they cover. A certification a crew member needs must stay valid until the mission's end date; one that lapses earlier is an error (certification_expired). When asked about renewals, use the expiry report and name the missions at risk.
+- Pilots with "Unavailable" status cannot be assigned.
+- Each pilot has an availability calendar: leave, training and other unavailability blocks plus recurring days off. A pilot cannot be assigned to a mission whose dates overlap one of their blocks; working on a day off is a warning. A pilot who is "On Leave" today can still take a mission after their leave ends.
+- "On Leave" is derived from the calendar. To put someone on leave, add a leave block with the dates; to bring them back early, shorten or remove the block.
 
 ## Urgent Reassignment Protocol
 When a pilot or drone becomes unexpectedly unavailable:
@@ -71,9 +132,26 @@ export async function POST(req: Request) {
     );
   }
 
-  const { messages } = await req.json();
+  const read = await readJsonBody(req);
+  if (!read.ok) {
+    return new Response(JSON.stringify({ error: read.error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  const { messages, actor } = read.body as { messages: CoreMessage[]; actor?: string };
   const model = process.env.OPENAI_MODEL || 'gpt-5-nano';
 
+  // Every data change made while answering this request shares one turn ID,
+  // so the whole turn can be reviewed or reverted later.
+  const turnId = randomUUID();
+  const chatContext = (reason: string): MutationContext => ({
+    source: 'chat',
+    actor: typeof actor === 'string' && actor ? actor : 'chat-user',
+    reason,
+    turn_id: turnId,
+  });
+
   const result = streamText({
     model: openai(model, { structuredOutputs: true }),
     system: SYSTEM_PROMPT,
@@ -102,11 +180,13 @@ export async function POST(req: Request) {
               id: p.pilot_id,
               name: p.name,
               skills: p.skills.join(', '),
-              certifications: p.certifications.join(', '),
+              certifications: formatCertifications(p.certifications),
               location: p.location,
               status: p.status,
               current_assignment: p.current_assignment || 'None',
               available_from: p.available_from,
+              time_off: formatDateBlocks(p.availability || []) || 'None',
+              days_off: (p.days_off || []).join(', ') || 'None',
             })),
           };
         },
@@ -136,6 +216,37 @@ export async function POST(req: Request) {
               location: d.location,
               current_assignment: d.current_assignment || 'None',
               maintenance_due: d.maintenance_due,
+              maintenance_windows: formatDateBlocks(d.maintenance_windows || []) || 'None',
+            })),
+          };
+        },
+      }),
+
+      queryEquipment: tool({
+        description: 'Query the equipment inventory (batteries, payloads, ground kits) with optional filters. Pass null to skip a filter.',
+        parameters: z.object({
+          type: z.enum(['Battery', 'Payload', 'Ground Kit']).nullable().describe('Filter by equipment type. Pass null to skip.'),
+          status: z.string().nullable().describe('Filter by status (Available, Deployed, Maintenance). Pass null to skip.'),
+          location: z.string().nullable().describe('Filter by location (e.g., Bangalore, Mumbai, Delhi). Pass null to skip.'),
+          compatible_with: z.string().nullable().describe('Only items that fit this drone model (e.g., DJI M300). Pass null to skip.'),
+        }),
+        execute: async (params) => {
+          const equipment = await getEquipment({
+            type: params.type || undefined,
+            status: params.status || undefined,
+            location: params.location || undefined,
+            compatible_with: params.compatible_with || undefined,
+          });
+          return {
+            count: equipment.length,
+            equipment: equipment.map((e) => ({
+              id: e.equipment_id,
+              name: e.name,
+              type: e.type,
+              compatible_models: e.compatible_models.join(', ') || 'Any',
+              status: e.status,
+              location: e.location,
+              current_assignment: e.current_assignment || 'None',
             })),
           };
         },
@@ -165,10 +276,15 @@ export async function POST(req: Request) {
               location: m.location,
               required_skills: m.required_skills.join(', '),
               required_certs: m.required_certs.join(', '),
-              dates: `${m.start_date} to ${m.end_date}`,
+              drone_capabilities: capabilityRequirements(m).map(describeRequirement).join(', ') || 'Any',
+              dates: formatSchedule(m),
+              night_operation: isNightOperation(m),
               priority: m.priority,
-              assigned_pilot: m.assigned_pilot || 'Unassigned',
-              assigned_drone: m.assigned_drone || 'Unassigned',
+              crew: formatCrew(m.crew) || 'Unassigned',
+              open_roles: openRoles(m).join(', ') || 'None',
+              drones: m.assigned_drones.join(', ') || 'Unassigned',
+              drones_required: dronesRequired(m),
+              equipment: (m.assigned_equipment || []).join(', ') || 'None',
               status: m.mission_status,
             })),
           };
@@ -177,13 +293,14 @@ export async function POST(req: Request) {
 
       // ---- STATUS UPDATE TOOLS ----
       updatePilotStatus: tool({
-        description: 'Update a pilot\'s status. This syncs back to Google Sheets. Use this for marking pilots Available, On Leave, Unavailable, etc.',
+        description: 'Update a pilot\'s status. This syncs back to Google Sheets. Use this for marking pilots Available, Unavailable, etc. Setting On Leave adds a leave block from today until available_from; prefer addPilotTimeOff when the leave dates are known.',
         parameters: z.object({
           pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
           status: z.enum(['Available', 'Assigned', 'On Leave', 'Unavailable']).describe('New status'),
           current_assignment: z.string().nullable().describe('New assignment (project ID). Pass null to keep unchanged.'),
           available_from: z.string().nullable().describe('Date when pilot will be available (YYYY-MM-DD). Pass null to keep unchanged.'),
           location: z.string().nullable().describe('Update pilot location. Pass null to keep unchanged.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
         }),
         execute: async (params) => {
           const result = await updatePilotStatus(params.pilot_id, {
@@ -191,19 +308,20 @@ export async function POST(req: Request) {
             current_assignment: params.current_assignment ?? undefined,
             available_from: params.available_from ?? undefined,
             location: params.location ?? undefined,
-          });
+          }, chatContext(params.reason || `Status set to ${params.status}`));
           return result;
         },
       }),
 
       updateDroneStatus: tool({
-        description: 'Update a drone\'s status. This syncs back to Google Sheets. Use this for marking drones Available, in Maintenance, or Deployed.',
+        description: 'Update a drone\'s status. This syncs back to Google Sheets. Use this for marking drones Available, in Maintenance, or Deployed. Maintenance opens an open-ended repair window; Available/Deployed closes it. Use scheduleMaintenance for planned service.',
         parameters: z.object({
           drone_id: z.string().describe('The drone ID (e.g., D001)'),
           status: z.enum(['Available', 'Maintenance', 'Deployed']).describe('New status'),
           current_assignment: z.string().nullable().describe('New assignment (project ID). Pass null to keep unchanged.'),
           location: z.string().nullable().describe('Update drone location. Pass null to keep unchanged.'),
           maintenance_due: z.string().nullable().describe('New maintenance due date (YYYY-MM-DD). Pass null to keep unchanged.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
         }),
         execute: async (params) => {
           const result = await updateDroneStatus(params.drone_id, {
@@ -211,130 +329,484 @@ export async function POST(req: Request) {
             current_assignment: params.current_assignment ?? undefined,
             location: params.location ?? undefined,
             maintenance_due: params.maintenance_due ?? undefined,
-          });
+          }, chatContext(params.reason || `Status set to ${params.status}`));
           return result;
         },
       }),
 
-      // ---- ASSIGNMENT TOOLS ----
-      assignPilotToMission: tool({
-        description: 'Assign a pilot to a mission. Automatically checks for conflicts (double-booking, skill/cert mismatch, location). Updates both pilot status and mission record.',
+      updateEquipmentStatus: tool({
+        description: 'Update a battery, payload or ground kit\'s status or location. This syncs back to Google Sheets. Use this for sending kit to or back from Maintenance or moving it between bases.',
+        parameters: z.object({
+          equipment_id: z.string().describe('The equipment ID (e.g., E001)'),
+          status: z.enum(['Available', 'Deployed', 'Maintenance']).describe('New status'),
+          current_assignment: z.string().nullable().describe('New assignment (project ID). Pass null to keep unchanged.'),
+          location: z.string().nullable().describe('Update equipment location. Pass null to keep unchanged.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          return updateEquipmentStatus(params.equipment_id, {
+            status: params.status,
+            current_assignment: params.current_assignment ?? undefined,
+            location: params.location ?? undefined,
+          }, chatContext(params.reason || `Status set to ${params.status}`));
+        },
+      }),
+
+      // ---- AVAILABILITY CALENDAR ----
+      addPilotTimeOff: tool({
+        description: 'Add a leave, training or unavailability block (inclusive dates) to a pilot\'s availability calendar. The pilot cannot be assigned to missions on those dates, and shows as On Leave while a leave block covers today.',
         parameters: z.object({
           pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
-          project_id: z.string().describe('The project/mission ID (e.g., PRJ001)'),
-          force: z.boolean().describe('Force assignment even with warnings (not errors). Pass false normally.'),
+          kind: z.enum(['leave', 'training', 'unavailable']).describe('Type of block'),
+          start_date: z.string().describe('First day (YYYY-MM-DD)'),
+          end_date: z.string().describe('Last day (YYYY-MM-DD), same as start_date for a single day'),
+          note: z.string().nullable().describe('Short note shown in the calendar (e.g., "family wedding"). Pass null for none.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
         }),
         execute: async (params) => {
-          // Validate first
-          const validation = await validatePilotAssignment(params.pilot_id, params.project_id);
+          const pilot = await getPilotById(params.pilot_id);
+          if (!pilot) return { success: false, error: `Pilot ${params.pilot_id} not found` };
 
-          if (!validation.valid && !params.force) {
-            return {
-              success: false,
-              message: 'Assignment blocked due to conflicts',
-              conflicts: validation.conflicts,
-            };
+          const parsed = AvailabilityBlockSchema.safeParse({
+            kind: params.kind,
+            start_date: params.start_date,
+            end_date: params.end_date,
+            note: params.note || undefined,
+          });
+          if (!parsed.success) {
+            return { success: false, error: 'Invalid time off', issues: formatZodIssues(parsed.error) };
           }
 
-          // Perform the assignment
-          const pilotResult = await updatePilotStatus(params.pilot_id, {
-            status: 'Assigned',
-            current_assignment: params.project_id,
-          });
+          const result = await updatePilot(params.pilot_id, {
+            availability: [...(pilot.availability || []), parsed.data],
+          }, chatContext(params.reason || `Added ${params.kind} ${params.start_date} to ${params.end_date}`));
+
+          // Missions already assigned to the pilot on those dates now clash
+          const affected = (await getMissions()).filter(
+            (m) =>
+              crewIds(m).includes(params.pilot_id) &&
+              (m.mission_status === 'Active' || m.mission_status === 'Planned') &&
+              m.start_date <= parsed.data.end_date &&
+              parsed.data.start_date <= m.end_date
+          );
+          return { ...result, affected_missions: affected.map((m) => `${m.project_id} (${formatSchedule(m)})`) };
+        },
+      }),
+
+      removePilotTimeOff: tool({
+        description: 'Remove the blocks in a pilot\'s availability calendar that cover a given date (e.g., leave cancelled or the pilot is back early).',
+        parameters: z.object({
+          pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
+          date: z.string().describe('A date (YYYY-MM-DD) inside the block(s) to remove'),
+          kind: z.enum(['leave', 'training', 'unavailable']).nullable().describe('Only remove blocks of this type. Pass null for any type.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          const pilot = await getPilotById(params.pilot_id);
+          if (!pilot) return { success: false, error: `Pilot ${params.pilot_id} not found` };
+
+          const removed = blocksBetween(pilot, params.date, params.date).filter(
+            (b) => !params.kind || b.kind === params.kind
+          );
+          if (removed.length === 0) {
+            return { success: false, error: `No ${params.kind || 'time off'} on ${params.date} for ${pilot.name}` };
+          }
+
+          const result = await updatePilot(params.pilot_id, {
+            availability: (pilot.availability || []).filter((b) => !removed.includes(b)),
+          }, chatContext(params.reason || `Removed time off covering ${params.date}`));
+          return { ...result, removed: formatDateBlocks(removed) };
+        },
+      }),
+
+      setPilotDaysOff: tool({
+        description: 'Set a pilot\'s recurring weekly days off. Missions on those days are flagged as a warning, not blocked.',
+        parameters: z.object({
+          pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
+          days_off: z.array(z.enum(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'])).describe('Weekdays off; an empty list clears them'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          return updatePilot(params.pilot_id, { days_off: params.days_off }, chatContext(
+            params.reason || `Days off set to ${params.days_off.join(', ') || 'none'}`
+          ));
+        },
+      }),
 
-          const missionResult = await updateMissionStatus(params.project_id, {
-            assigned_pilot: params.pilot_id,
-            mission_status: 'Active',
+      // ---- CERTIFICATIONS ----
+      recordCertification: tool({
+        description: 'Add a certification to a pilot, or renew one: a certificate of the same type and drone class replaces the one on record.',
+        parameters: z.object({
+          pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
+          type: z.string().describe('Certification type (e.g., DGCA, Night Ops)'),
+          number: z.string().nullable().describe('Certificate number (e.g., RPC-0412). Pass null if unknown.'),
+          issuer: z.string().nullable().describe('Issuing authority. Pass null if unknown.'),
+          issued_date: z.string().nullable().describe('Date issued (YYYY-MM-DD). Pass null if unknown.'),
+          expiry_date: z.string().nullable().describe('Last day it is valid (YYYY-MM-DD). Pass null if it does not expire.'),
+          category: z.string().nullable().describe('Drone category/class it covers (e.g., Small). Pass null if not stated.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          const pilot = await getPilotById(params.pilot_id);
+          if (!pilot) return { success: false, error: `Pilot ${params.pilot_id} not found` };
+
+          const parsed = CertificationSchema.safeParse({
+            type: params.type,
+            number: params.number || undefined,
+            issuer: params.issuer || undefined,
+            issued_date: params.issued_date || undefined,
+            expiry_date: params.expiry_date || undefined,
+            category: params.category || undefined,
           });
+          if (!parsed.success) {
+            return { success: false, error: 'Invalid certification', issues: formatZodIssues(parsed.error) };
+          }
+
+          const cert = parsed.data;
+          const replaced = pilot.certifications.filter(
+            (c) =>
+              c.type.toLowerCase() === cert.type.toLowerCase() &&
+              (c.category || '').toLowerCase() === (cert.category || '').toLowerCase()
+          );
+          const result = await updatePilot(params.pilot_id, {
+            certifications: [...pilot.certifications.filter((c) => !replaced.includes(c)), cert],
+          }, chatContext(params.reason || `${replaced.length > 0 ? 'Renewed' : 'Added'} ${cert.type} certification`));
+          return { ...result, replaced: formatCertifications(replaced) || 'None' };
+        },
+      }),
 
+      getCertificationExpiries: tool({
+        description: 'List pilot certifications that have expired or expire soon, with the open missions that need them past their expiry date.',
+        parameters: z.object({
+          within_days: z.number().nullable().describe('How far ahead to look, in days. Pass null for 60.'),
+        }),
+        execute: async (params) => {
+          const withinDays = params.within_days ?? 60;
+          const expiries = certificationExpiries(await getPilots(), await getMissions(), localToday(), withinDays);
           return {
-            success: true,
-            pilot_updated: pilotResult.success,
-            mission_updated: missionResult.success,
-            synced_to_sheets: pilotResult.synced_to_sheets || false,
-            warnings: validation.conflicts.filter((c) => c.severity === 'warning'),
+            within_days: withinDays,
+            count: expiries.length,
+            expiries: expiries.map((e) => ({
+              pilot: `${e.pilot_name} (${e.pilot_id})`,
+              certification: formatCertifications([e.certification]),
+              expiry_date: e.expiry_date,
+              days_left: e.days_left,
+              status: e.status,
+              affected_missions: e.affected_missions.join(', ') || 'None',
+            })),
           };
         },
       }),
 
-      assignDroneToMission: tool({
-        description: 'Assign a drone to a mission. Automatically checks for conflicts (double-booking, maintenance, location). Updates both drone status and mission record.',
+      // ---- MAINTENANCE SCHEDULING ----
+      scheduleMaintenance: tool({
+        description: 'Schedule a maintenance window (inclusive dates) for a drone. Without a start date, the earliest slot clear of the drone\'s missions and other maintenance is used. Refuses windows that overlap the drone\'s missions unless forced.',
         parameters: z.object({
           drone_id: z.string().describe('The drone ID (e.g., D001)'),
-          project_id: z.string().describe('The project/mission ID (e.g., PRJ001)'),
-          force: z.boolean().describe('Force assignment even with warnings (not errors). Pass false normally.'),
+          kind: z.enum(['service', 'firmware', 'inspection', 'repair']).describe('Type of maintenance'),
+          duration_days: z.number().int().min(1).describe('Length of the window in days'),
+          start_date: z.string().nullable().describe('First day (YYYY-MM-DD). Pass null to pick the earliest free slot.'),
+          earliest: z.string().nullable().describe('When picking a slot, search from this date (YYYY-MM-DD). Pass null for today.'),
+          note: z.string().nullable().describe('Short note shown in the schedule (e.g., "rotor swap"). Pass null for none.'),
+          force: z.boolean().describe('Schedule even if the window overlaps missions the drone is assigned to. Pass false unless the user confirmed.'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
         }),
         execute: async (params) => {
-          const validation = await validateDroneAssignment(params.drone_id, params.project_id);
+          const drone = await getDroneById(params.drone_id);
+          if (!drone) return { success: false, error: `Drone ${params.drone_id} not found` };
 
-          if (!validation.valid && !params.force) {
-            return {
-              success: false,
-              message: 'Assignment blocked due to conflicts',
-              conflicts: validation.conflicts,
-            };
+          const missions = await getMissions();
+          let startDate = params.start_date;
+          if (!startDate) {
+            const slot = findMaintenanceSlot(drone, missions, params.duration_days, params.earliest || localToday());
+            if (!slot) return { success: false, error: `No free ${params.duration_days}-day slot in the next year` };
+            startDate = slot.start_date;
           }
 
-          const droneResult = await updateDroneStatus(params.drone_id, {
-            status: 'Deployed',
-            current_assignment: params.project_id,
+          const parsed = MaintenanceWindowSchema.safeParse({
+            kind: params.kind,
+            start_date: startDate,
+            end_date: addDays(startDate, params.duration_days - 1),
+            note: params.note || undefined,
           });
+          if (!parsed.success) {
+            return { success: false, error: 'Invalid maintenance window', issues: formatZodIssues(parsed.error) };
+          }
+          const window = parsed.data;
 
-          const missionResult = await updateMissionStatus(params.project_id, {
-            assigned_drone: params.drone_id,
-          });
+          const clashes = missions.filter(
+            (m) =>
+              m.assigned_drones.includes(params.drone_id) &&
+              (m.mission_status === 'Active' || m.mission_status === 'Planned') &&
+              blocksOverlapping([window], m.start_date, m.end_date).length > 0
+          );
+          if (clashes.length > 0 && !params.force) {
+            return {
+              success: false,
+              error: 'Maintenance window overlaps missions this drone is assigned to',
+              window: formatDateBlocks([window]),
+              clashing_missions: clashes.map((m) => `${m.project_id} (${formatSchedule(m)}, ${m.priority})`),
+            };
+          }
 
+          const result = await updateDrone(params.drone_id, {
+            maintenance_windows: [...(drone.maintenance_windows || []), window],
+          }, chatContext(params.reason || `Scheduled ${params.kind} ${formatDateBlocks([window])}`));
           return {
-            success: true,
-            drone_updated: droneResult.success,
-            mission_updated: missionResult.success,
-            synced_to_sheets: droneResult.synced_to_sheets || false,
-            warnings: validation.conflicts.filter((c) => c.severity === 'warning'),
+            ...result,
+            window: formatDateBlocks([window]),
+            after_maintenance_due: window.start_date > drone.maintenance_due,
+            clashing_missions: clashes.map((m) => m.project_id),
           };
         },
       }),
 
-      unassignFromMission: tool({
-        description: 'Remove a pilot or drone assignment from a mission. Frees up the resource.',
+      cancelMaintenance: tool({
+        description: 'Cancel the maintenance windows of a drone that cover a given date (e.g., service postponed or finished early). Cancelling a window in progress today returns the drone to service.',
         parameters: z.object({
-          project_id: z.string().describe('The project/mission ID'),
-          unassign_pilot: z.boolean().describe('Whether to unassign the pilot. Pass true to unassign, false to keep.'),
-          unassign_drone: z.boolean().describe('Whether to unassign the drone. Pass true to unassign, false to keep.'),
+          drone_id: z.string().describe('The drone ID (e.g., D001)'),
+          date: z.string().describe('A date (YYYY-MM-DD) inside the window(s) to remove'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded in the audit log). Pass null if not given.'),
         }),
         execute: async (params) => {
-          const mission = await getMissionById(params.project_id);
-          if (!mission) return { success: false, error: 'Mission not found' };
+          const drone = await getDroneById(params.drone_id);
+          if (!drone) return { success: false, error: `Drone ${params.drone_id} not found` };
 
-          const results: Record<string, unknown> = {};
+          const removed = windowsBetween(drone, params.date, params.date);
+          if (removed.length === 0) {
+            return { success: false, error: `No maintenance scheduled on ${params.date} for ${drone.drone_id}` };
+          }
+
+          const result = await updateDrone(params.drone_id, {
+            maintenance_windows: (drone.maintenance_windows || []).filter((w) => !removed.includes(w)),
+          }, chatContext(params.reason || `Cancelled maintenance covering ${params.date}`));
+          return { ...result, removed: formatDateBlocks(removed) };
+        },
+      }),
+
+      // ---- CREATE / ARCHIVE TOOLS ----
+      createPilot: tool({
+        description: 'Onboard a new pilot onto the roster. Syncs a new row to the data source.',
+        parameters: z.object({
+          pilot_id: z.string().describe('New unique pilot ID (e.g., P007)'),
+          name: z.string().describe('Pilot name'),
+          skills: z.array(z.string()).describe('Skills (e.g., ["Mapping", "Survey"])'),
+          certifications: z.array(z.string()).describe('Certification names (e.g., ["DGCA", "Night Ops"]); record numbers and expiry dates with recordCertification'),
+          location: z.string().describe('Home base city'),
+          available_from: z.string().describe('Date the pilot is available from (YYYY-MM-DD)'),
+        }),
+        execute: async (params) => {
+          const parsed = PilotSchema.safeParse(params);
+          if (!parsed.success) {
+            return { success: false, message: 'Invalid pilot details', issues: formatZodIssues(parsed.error) };
+          }
+          return createPilot(parsed.data, chatContext('Pilot onboarded'));
+        },
+      }),
 
-          if (params.unassign_pilot && mission.assigned_pilot) {
-            await updatePilotStatus(mission.assigned_pilot, {
-              status: 'Available',
-              current_assignment: '',
-            });
-            results.pilot_freed = mission.assigned_pilot;
+      createDrone: tool({
+        description: 'Register a new drone in the fleet. Syncs a new row to the data source.',
+        parameters: z.object({
+          drone_id: z.string().describe('New unique drone ID (e.g., D007)'),
+          model: z.string().describe('Drone model (e.g., DJI M300)'),
+          capabilities: z.array(z.string()).describe('Capabilities (e.g., ["LiDAR", "RGB"])'),
+          location: z.string().describe('Base city'),
+          maintenance_due: z.string().describe('Next maintenance due date (YYYY-MM-DD)'),
+        }),
+        execute: async (params) => {
+          const parsed = DroneSchema.safeParse(params);
+          if (!parsed.success) {
+            return { success: false, message: 'Invalid drone details', issues: formatZodIssues(parsed.error) };
           }
+          return createDrone(parsed.data, chatContext('Drone registered'));
+        },
+      }),
 
-          if (params.unassign_drone && mission.assigned_drone) {
-            await updateDroneStatus(mission.assigned_drone, {
-              status: 'Available',
-              current_assignment: '',
-            });
-            results.drone_freed = mission.assigned_drone;
+      createEquipment: tool({
+        description: 'Add a battery set, payload or ground kit to the equipment inventory. Syncs a new row to the data source.',
+        parameters: z.object({
+          equipment_id: z.string().describe('New unique equipment ID (e.g., E009)'),
+          name: z.string().describe('Item name (e.g., Zenmuse L1 LiDAR, TB60 battery set)'),
+          type: z.enum(['Battery', 'Payload', 'Ground Kit']).describe('Equipment type'),
+          compatible_models: z.array(z.string()).describe('Drone models it fits (e.g., ["DJI M300"]); empty for any model'),
+          location: z.string().describe('Base city'),
+        }),
+        execute: async (params) => {
+          const parsed = EquipmentSchema.safeParse(params);
+          if (!parsed.success) {
+            return { success: false, message: 'Invalid equipment details', issues: formatZodIssues(parsed.error) };
           }
+          return createEquipment(parsed.data, chatContext('Equipment added to inventory'));
+        },
+      }),
 
-          await updateMissionStatus(params.project_id, {
-            assigned_pilot: params.unassign_pilot ? '' : undefined,
-            assigned_drone: params.unassign_drone ? '' : undefined,
+      createMission: tool({
+        description: 'Book a new client mission. Optionally staffs the crew and assigns drones, running the same conflict checks as the assignment tools; conflicting assignments are left off unless forced.',
+        parameters: z.object({
+          project_id: z.string().describe('New unique project ID (e.g., PRJ006)'),
+          client: z.string().describe('Client name'),
+          location: z.string().describe('Mission city'),
+          required_skills: z.array(z.string()).describe('Required pilot skills (e.g., ["Inspection"])'),
+          required_certs: z.array(z.string()).describe('Required certifications (e.g., ["DGCA"])'),
+          required_capabilities: z.array(z.string()).describe('Drone capabilities the mission needs beyond those its skills imply (e.g., ["Thermal"]). Pass [] for none.'),
+          start_date: z.string().describe('Start date (YYYY-MM-DD)'),
+          end_date: z.string().describe('End date (YYYY-MM-DD)'),
+          start_time: z.string().nullable().describe('Daily shift start (HH:MM, 24-hour). Pass null for whole-day missions.'),
+          end_time: z.string().nullable().describe('Daily shift end (HH:MM, 24-hour); earlier than start_time means past midnight. Pass null for whole-day missions.'),
+          time_zone: z.string().nullable().describe('IANA time zone (e.g., Asia/Kolkata). Pass null to use the location\'s zone.'),
+          priority: z.enum(['Urgent', 'High', 'Standard']).describe('Mission priority'),
+          required_roles: z.array(CrewRoleSchema).nullable().describe('Crew positions to fill (e.g., ["PIC", "Observer"]). Pass null for a PIC only.'),
+          drones_required: z.number().nullable().describe('How many drones the mission flies. Pass null for one.'),
+          crew: z.array(z.object({
+            pilot_id: z.string(),
+            role: CrewRoleSchema,
+          })).describe('Pilots to assign with their roles. Pass [] to leave unstaffed.'),
+          drone_ids: z.array(z.string()).describe('Drones to assign. Pass [] to leave unassigned.'),
+          force: z.boolean().describe('Assign even if conflicts are found. Pass false normally.'),
+        }),
+        execute: async (params) => {
+          const parsed = MissionRequestSchema.safeParse({
+            project_id: params.project_id,
+            client: params.client,
+            location: params.location,
+            required_skills: params.required_skills,
+            required_certs: params.required_certs,
+            required_capabilities: params.required_capabilities,
+            start_date: params.start_date,
+            end_date: params.end_date,
+            start_time: params.start_time || undefined,
+            end_time: params.end_time || undefined,
+            time_zone: params.time_zone || undefined,
+            priority: params.priority,
+            required_roles: params.required_roles || undefined,
+            drones_required: params.drones_required || undefined,
           });
+          if (!parsed.success) {
+            return { success: false, message: 'Invalid mission details', issues: formatZodIssues(parsed.error) };
+          }
+
+          // Crew and drones are checked against the mission as booked so far
+          // and written together with it
+          return createMissionWithAssignments(
+            { ...parsed.data, crew: [], assigned_drones: [], assigned_equipment: [] },
+            { crew: params.crew, drones: params.drone_ids },
+            chatContext('Mission booked'),
+            { force: params.force }
+          );
+        },
+      }),
 
-          return { success: true, ...results };
+      archiveRecord: tool({
+        description: 'Archive a retired pilot, decommissioned drone or equipment item, or finished mission. The row is kept for history but hidden from queries and matching. Records on open missions cannot be archived.',
+        parameters: z.object({
+          entity_type: z.enum(['pilot', 'drone', 'mission', 'equipment']).describe('What kind of record to archive'),
+          id: z.string().describe('The pilot, drone, project, or equipment ID'),
+          reason: z.string().nullable().describe('Why the record is being archived. Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          const context = chatContext(params.reason || 'Archived');
+          if (params.entity_type === 'pilot') return archivePilot(params.id, context);
+          if (params.entity_type === 'drone') return archiveDrone(params.id, context);
+          if (params.entity_type === 'equipment') return archiveEquipment(params.id, context);
+          return archiveMission(params.id, context);
+        },
+      }),
+
+      // ---- ASSIGNMENT TOOLS ----
+      assignPilotToMission: tool({
+        description: 'Put a pilot on a mission\'s crew in a role. A new PIC replaces the current one; Observers and Payload Operators join alongside. Automatically checks for conflicts against the role\'s requirements (double-booking, skill/cert mismatch, location). Updates both pilot status and mission record.',
+        parameters: z.object({
+          pilot_id: z.string().describe('The pilot ID (e.g., P001)'),
+          project_id: z.string().describe('The project/mission ID (e.g., PRJ001)'),
+          role: CrewRoleSchema.describe('Crew role. Use PIC unless the user asks for another role or the mission has an open role.'),
+          force: z.boolean().describe('Force assignment even with warnings (not errors). Pass false normally.'),
+        }),
+        execute: async (params) => {
+          const result = await assignPilotToMission(
+            params.pilot_id,
+            params.project_id,
+            chatContext(`Pilot ${params.pilot_id} assigned to ${params.project_id} as ${params.role}`),
+            { force: params.force, role: params.role }
+          );
+          return result;
+        },
+      }),
+
+      assignDroneToMission: tool({
+        description: 'Assign a drone to a mission. Adds it while the mission still needs drones; once it has all it needs, name the drone to replace (a single-drone mission replaces its drone automatically). Automatically checks for conflicts (double-booking, maintenance, location, capabilities the mission needs, fit with booked equipment). Updates both drone status and mission record.',
+        parameters: z.object({
+          drone_id: z.string().describe('The drone ID (e.g., D001)'),
+          project_id: z.string().describe('The project/mission ID (e.g., PRJ001)'),
+          replace_drone_id: z.string().nullable().describe('Assigned drone to swap out. Pass null to add.'),
+          force: z.boolean().describe('Force assignment even with warnings (not errors). Pass false normally.'),
+        }),
+        execute: async (params) => {
+          const result = await assignDroneToMission(
+            params.drone_id,
+            params.project_id,
+            chatContext(`Drone ${params.drone_id} assigned to ${params.project_id}`),
+            { force: params.force, replace: params.replace_drone_id || undefined }
+          );
+          return result;
+        },
+      }),
+
+      assignEquipmentToMission: tool({
+        description: 'Book a battery set, payload or ground kit for a mission. Automatically checks for conflicts (double-booking, fit with the mission\'s drones, maintenance, location). A mission can take several items.',
+        parameters: z.object({
+          equipment_id: z.string().describe('The equipment ID (e.g., E001)'),
+          project_id: z.string().describe('The project/mission ID (e.g., PRJ001)'),
+          force: z.boolean().describe('Force assignment even with warnings (not errors). Pass false normally.'),
+        }),
+        execute: async (params) => {
+          return assignEquipmentToMission(
+            params.equipment_id,
+            params.project_id,
+            chatContext(`Equipment ${params.equipment_id} assigned to ${params.project_id}`),
+            { force: params.force }
+          );
+        },
+      }),
+
+      unassignFromMission: tool({
+        description: 'Remove crew members and/or drones from a mission. Frees up the resources.',
+        parameters: z.object({
+          project_id: z.string().describe('The project/mission ID'),
+          pilot_ids: z.array(z.string()).describe('Pilots to take off the crew, or ["all"] for the whole crew. Pass [] to keep the crew.'),
+          drone_ids: z.array(z.string()).describe('Drones to unassign, or ["all"] for every drone. Pass [] to keep the drones.'),
+        }),
+        execute: async (params) => {
+          const mission = await getMissionById(params.project_id);
+          if (!mission) return { success: false, error: 'Mission not found' };
+          return unassignFromMission(
+            params.project_id,
+            {
+              pilots: params.pilot_ids.includes('all') ? crewIds(mission) : params.pilot_ids,
+              drones: params.drone_ids.includes('all') ? mission.assigned_drones : params.drone_ids,
+            },
+            chatContext(`Unassigned from ${params.project_id}`)
+          );
+        },
+      }),
+
+      unassignEquipmentFromMission: tool({
+        description: 'Remove equipment from a mission\'s kit list. Frees up the items.',
+        parameters: z.object({
+          project_id: z.string().describe('The project/mission ID'),
+          equipment_ids: z.array(z.string()).describe('Equipment IDs to remove (e.g., ["E001", "E003"])'),
+        }),
+        execute: async (params) => {
+          return unassignEquipmentFromMission(
+            params.project_id,
+            params.equipment_ids,
+            chatContext(`Equipment removed from ${params.project_id}`)
+          );
         },
       }),
 
       // ---- CONFLICT DETECTION ----
       detectConflicts: tool({
-        description: 'Run a comprehensive conflict detection scan across all active assignments. Checks for double-bookings, skill/cert mismatches, location issues, and maintenance problems.',
+        description: 'Run a comprehensive conflict detection scan across all active assignments. Checks for double-bookings (pilots, drones and equipment), skill/cert mismatches, equipment that does not fit its drone, drones lacking the capabilities a mission needs, location issues, too little travel time between consecutive missions, and maintenance problems.',
         parameters: z.object({}),
         execute: async () => {
           const conflicts = await detectAllConflicts();
@@ -346,6 +818,7 @@ export async function POST(req: Request) {
             warnings: warnings.length,
             conflict_details: conflicts.map((c) => ({
               type: c.type,
+              rule: c.rule,
               severity: c.severity,
               message: c.message,
               affected: c.entities.join(', '),
@@ -356,22 +829,27 @@ export async function POST(req: Request) {
 
       // ---- MATCHING TOOLS ----
       findBestMatch: tool({
-        description: 'Find the best-matching pilot and/or drone for a specific mission. Returns ranked suggestions with compatibility scores.',
+        description: 'Find the best-matching pilot and/or drone for a specific mission. Pilots are ranked for one crew role, against that role\'s requirements. Returns ranked suggestions with scores, a per-factor score breakdown from the scoring policy, and whether a hard constraint rules the candidate out.',
         parameters: z.object({
           project_id: z.string().describe('The project/mission ID to find matches for'),
           match_type: z.enum(['pilot', 'drone', 'both']).describe('What to match: pilot, drone, or both'),
+          role: CrewRoleSchema.nullable().describe('Crew role to match pilots for. Pass null for the PIC.'),
         }),
         execute: async (params) => {
           const results: Record<string, unknown> = {};
 
           if (params.match_type === 'pilot' || params.match_type === 'both') {
-            const pilotMatches = await findBestPilotForMission(params.project_id);
+            const pilotMatches = await findBestPilotForMission(params.project_id, params.role || 'PIC');
+            results.role = params.role || 'PIC';
+            results.scoring_policy = pilotMatches.policy;
             results.pilot_matches = pilotMatches.matches.slice(0, 5).map((m) => ({
               id: m.pilot.pilot_id,
               name: m.pilot.name,
               score: m.score,
+              eligible: m.eligible,
+              breakdown: formatBreakdown(m.breakdown),
               skills: m.pilot.skills.join(', '),
-              certifications: m.pilot.certifications.join(', '),
+              certifications: formatCertifications(m.pilot.certifications),
               location: m.pilot.location,
               status: m.pilot.status,
               issues: m.issues.length > 0 ? m.issues.join('; ') : 'None',
@@ -380,10 +858,13 @@ export async function POST(req: Request) {
 
           if (params.match_type === 'drone' || params.match_type === 'both') {
             const droneMatches = await findBestDroneForMission(params.project_id);
+            results.scoring_policy = droneMatches.policy;
             results.drone_matches = droneMatches.matches.slice(0, 5).map((m) => ({
               id: m.drone.drone_id,
               model: m.drone.model,
               score: m.score,
+              eligible: m.eligible,
+              breakdown: formatBreakdown(m.breakdown),
               capabilities: m.drone.capabilities.join(', '),
               location: m.drone.location,
               status: m.drone.status,
@@ -395,6 +876,62 @@ export async function POST(req: Request) {
         },
       }),
 
+      getTravelTime: tool({
+        description: 'Estimate the distance and travel time between two locations (cities from the built-in gazetteer).',
+        parameters: z.object({
+          from: z.string().describe('Starting location (e.g., Bangalore)'),
+          to: z.string().describe('Destination (e.g., Mysore)'),
+        }),
+        execute: async (params) => {
+          const estimate = estimateTravel(params.from, params.to);
+          if (!estimate) {
+            return { success: false, message: `No coordinates for ${params.from} or ${params.to}; distance unknown` };
+          }
+          return { success: true, ...estimate, summary: describeTravel(estimate) };
+        },
+      }),
+
+      planAssignments: tool({
+        description: 'Plan pilot and drone assignments for ALL open Planned missions at once, solved jointly so higher-priority missions are staffed first and no resource is double-booked. Returns a proposed schedule with explanations and the slots that cannot be filled. Nothing is changed until the plan is applied.',
+        parameters: z.object({}),
+        execute: async () => {
+          const plan = await planAssignments();
+          return {
+            plan_id: plan.plan_id,
+            missions_considered: plan.missions,
+            assignments: plan.assignments.map((a) => ({
+              mission: a.project_id,
+              priority: a.priority,
+              slot: a.kind === 'pilot' ? a.role : 'Drone',
+              assign: `${a.resource_name} (${a.resource_id})`,
+              score: a.score,
+              why: a.explanation.join('; '),
+            })),
+            unfilled: plan.unfilled.map((u) => ({
+              mission: u.project_id,
+              priority: u.priority,
+              slot: u.kind === 'pilot' ? u.role : 'Drone',
+              reason: u.reason,
+            })),
+            optimal: plan.search.exhaustive,
+            scoring_policy: plan.policy_version,
+          };
+        },
+      }),
+
+      applyAssignmentPlan: tool({
+        description: 'Apply the latest assignment plan from planAssignments, after the user has confirmed it. Each assignment is re-checked for conflicts as it is made.',
+        parameters: z.object({
+          plan_id: z.string().describe('The plan_id returned by planAssignments'),
+          skip_missions: z.array(z.string()).describe('Project IDs the user wants left out of the plan. Pass [] to apply everything.'),
+        }),
+        execute: async (params) => {
+          return applyPlan(params.plan_id, chatContext(`Applied assignment plan ${params.plan_id}`), {
+            skip_missions: params.skip_missions,
+          });
+        },
+      }),
+
       // ---- URGENT REASSIGNMENT ----
       handleUrgentReassignment: tool({
         description: 'Handle an urgent reassignment when a pilot or drone becomes suddenly unavailable. Finds all affected missions and proposes replacement options.',
@@ -411,25 +948,17 @@ export async function POST(req: Request) {
 
           // Mark as unavailable if requested
           if (params.auto_mark_unavailable) {
-            if (params.pilot_id) {
-              await updatePilotStatus(params.pilot_id, {
-                status: 'Unavailable',
-                current_assignment: '',
-              });
-            }
-            if (params.drone_id) {
-              await updateDroneStatus(params.drone_id, {
-                status: 'Maintenance',
-                current_assignment: '',
-              });
-            }
+            await markResourcesUnavailable(
+              { pilotId: params.pilot_id || undefined, droneId: params.drone_id || undefined },
+              chatContext(`Urgent reassignment: ${params.reason}`)
+            );
           }
 
           // Find affected missions
           if (params.pilot_id) {
             const affected = allMissions.filter(
               (m) =>
-                m.assigned_pilot === params.pilot_id &&
+                crewIds(m).includes(params.pilot_id!) &&
                 (m.mission_status === 'Active' || m.mission_status === 'Planned')
             );
 
@@ -442,19 +971,21 @@ export async function POST(req: Request) {
                 project_id: mission.project_id,
                 client: mission.client,
                 priority: mission.priority,
-                dates: `${mission.start_date} to ${mission.end_date}`,
+                dates: formatSchedule(mission),
                 location: mission.location,
               });
 
-              // Find replacement pilots
-              const matches = await findBestPilotForMission(mission.project_id);
+              // Find replacement pilots for the role they held
+              const role = roleOf(mission, params.pilot_id) || 'PIC';
+              const matches = await findBestPilotForMission(mission.project_id, role);
               const viable = matches.matches.filter(
-                (m) => m.score > 0 && m.pilot.pilot_id !== params.pilot_id
+                (m) => m.eligible && m.score > 0 && m.pilot.pilot_id !== params.pilot_id
               );
 
               reassignmentOptions.push({
                 mission: mission.project_id,
                 priority: mission.priority,
+                role,
                 replacements: viable.slice(0, 3).map((m) => ({
                   id: m.pilot.pilot_id,
                   name: m.pilot.name,
@@ -469,7 +1000,7 @@ export async function POST(req: Request) {
           if (params.drone_id) {
             const affected = allMissions.filter(
               (m) =>
-                m.assigned_drone === params.drone_id &&
+                m.assigned_drones.includes(params.drone_id!) &&
                 (m.mission_status === 'Active' || m.mission_status === 'Planned')
             );
 
@@ -482,14 +1013,14 @@ export async function POST(req: Request) {
                   project_id: mission.project_id,
                   client: mission.client,
                   priority: mission.priority,
-                  dates: `${mission.start_date} to ${mission.end_date}`,
+                  dates: formatSchedule(mission),
                   location: mission.location,
                 });
               }
 
               const matches = await findBestDroneForMission(mission.project_id);
               const viable = matches.matches.filter(
-                (m) => m.score > 0 && m.drone.drone_id !== params.drone_id
+                (m) => m.eligible && m.score > 0 && m.drone.drone_id !== params.drone_id
               );
 
               reassignmentOptions.push({
@@ -521,6 +1052,140 @@ export async function POST(req: Request) {
         },
       }),
 
+      // ---- MISSION LIFECYCLE ----
+      transitionMission: tool({
+        description: 'Move a mission to another status. Planned -> Active or Cancelled; Active -> Completed, Cancelled or back to Planned; Completed and Cancelled are final. Going Active needs a PIC and a drone; completing needs the mission to have started. Completing or cancelling frees its crew, drones and equipment.',
+        parameters: z.object({
+          project_id: z.string().describe('The project ID (e.g., PRJ001)'),
+          to: z.enum(['Planned', 'Active', 'Completed', 'Cancelled']).describe('The new status'),
+          reason: z.string().nullable().describe('Why the change is being made (recorded with the transition). Pass null if not given.'),
+        }),
+        execute: async (params) => {
+          const result = await transitionMission(params.project_id, params.to, chatContext(
+            params.reason || `Mission moved to ${params.to}`
+          ));
+          if (!result.success) {
+            const mission = await getMissionById(params.project_id);
+            return { ...result, allowed: mission ? MISSION_TRANSITIONS[mission.mission_status].join(', ') || 'None (final)' : undefined };
+          }
+          return {
+            ...result,
+            history: (await getMissionTransitions(params.project_id)).map((t) => `${t.timestamp} ${t.from} -> ${t.to} (${t.actor}${t.reason ? `: ${t.reason}` : ''})`),
+          };
+        },
+      }),
+
+      // ---- FLIGHT LOGS ----
+      recordFlightLog: tool({
+        description: 'Record what was flown on a mission (sorties, flight minutes, battery cycles). The mission must be Completed; pass mark_completed to complete it first. Flown hours may bring each drone\'s maintenance due date forward.',
+        parameters: z.object({
+          project_id: z.string().describe('The project ID (e.g., PRJ001)'),
+          sorties: z.number().int().min(0).describe('Number of sorties (flights) flown'),
+          flight_minutes: z.number().min(0).describe('Total flight time in minutes'),
+          battery_cycles: z.number().int().min(0).describe('Battery charge cycles used'),
+          flight_date: z.string().nullable().describe('Date flown (YYYY-MM-DD). Pass null to keep the default (mission end or completion date).'),
+          notes: z.string().nullable().describe('Notes (incidents, weather, payload issues). Pass null for none.'),
+          mark_completed: z.boolean().describe('Set the mission to Completed first if it is not already'),
+        }),
+        execute: async (params) => {
+          const mission = await getMissionById(params.project_id);
+          if (!mission) return { success: false, error: `Mission ${params.project_id} not found` };
+
+          if (mission.mission_status !== 'Completed') {
+            if (!params.mark_completed) {
+              return { success: false, error: `Mission ${params.project_id} is ${mission.mission_status}, not Completed` };
+            }
+            const completed = await transitionMission(params.project_id, 'Completed', chatContext('Mission completed'));
+            if (!completed.success) return completed;
+          }
+
+          const result = await recordFlightDetails(params.project_id, {
+            sorties: params.sorties,
+            flight_minutes: params.flight_minutes,
+            battery_cycles: params.battery_cycles,
+            flight_date: params.flight_date || undefined,
+            notes: params.notes || undefined,
+          });
+          if (!result.success || !result.log) return result;
+
+          const droneService = [];
+          for (const droneId of result.log.drone_ids) {
+            const summary = await applyServiceInterval(droneId, chatContext(`Flight log for ${params.project_id}`));
+            if (summary) droneService.push({ drone_id: droneId, ...summary.service });
+          }
+          return { ...result, drone_service: droneService };
+        },
+      }),
+
+      getFlightHours: tool({
+        description: 'Get flown-hour totals and recent flight logs for a pilot (with currency status) or a drone (with hours until the next service). Pass null for the one not asked about.',
+        parameters: z.object({
+          pilot_id: z.string().nullable().describe('The pilot ID. Pass null if asking about a drone.'),
+          drone_id: z.string().nullable().describe('The drone ID. Pass null if asking about a pilot.'),
+        }),
+        execute: async (params) => {
+          const today = localToday();
+          const result: Record<string, unknown> = {};
+          if (params.pilot_id) {
+            const pilot = await getPilotById(params.pilot_id);
+            if (!pilot) return { error: `Pilot ${params.pilot_id} not found` };
+            result.pilot = { id: pilot.pilot_id, name: pilot.name, ...(await pilotFlightSummary(pilot.pilot_id, today)) };
+          }
+          if (params.drone_id) {
+            const drone = await getDroneById(params.drone_id);
+            if (!drone) return { error: `Drone ${params.drone_id} not found` };
+            result.drone = { id: drone.drone_id, model: drone.model, maintenance_due: drone.maintenance_due, ...(await droneFlightSummary(drone, today)) };
+          }
+          const logs = await getFlightLogs({ pilot_id: params.pilot_id || undefined, drone_id: params.drone_id || undefined });
+          result.recent_logs = logs.slice(0, 10).map((l) => ({
+            mission: l.project_id,
+            date: l.flight_date,
+            pilot: l.pilot_id || 'None',
+            drones: l.drone_ids.join(', ') || 'None',
+            sorties: l.sorties,
+            minutes: l.flight_minutes,
+            battery_cycles: l.battery_cycles,
+            complete: l.complete,
+          }));
+          return result;
+        },
+      }),
+
+      // ---- AUDIT TRAIL ----
+      getChangeHistory: tool({
+        description: 'Look up the audit log of data changes (who changed what, when, why, and the before/after values). Newest first. Pass null to skip a filter.',
+        parameters: z.object({
+          entity_type: z.enum(['pilot', 'drone', 'mission', 'equipment']).nullable().describe('Only changes to this kind of record. Pass null for all.'),
+          entity_id: z.string().nullable().describe('Only changes to this pilot/drone/project/equipment ID. Pass null for all.'),
+          turn_id: z.string().nullable().describe('Only changes made during this chat turn. Pass null for all.'),
+          limit: z.number().nullable().describe('Maximum number of entries (default 20). Pass null for the default.'),
+        }),
+        execute: async (params) => {
+          const changes = await getChanges({
+            entity_type: params.entity_type || undefined,
+            entity_id: params.entity_id || undefined,
+            turn_id: params.turn_id || undefined,
+            limit: params.limit || 20,
+          });
+          return { count: changes.length, current_turn_id: turnId, changes };
+        },
+      }),
+
+      revertChanges: tool({
+        description: 'Undo a logged change (by change_id) or every change made in a chat turn (by turn_id). Refuses if the fields were changed again later, unless forced. Confirm with the user before calling.',
+        parameters: z.object({
+          change_id: z.string().nullable().describe('The change to revert. Pass null when reverting a turn.'),
+          turn_id: z.string().nullable().describe('Revert every change from this chat turn. Pass null when reverting a single change.'),
+          force: z.boolean().describe('Revert even if the fields changed again afterwards. Pass false normally.'),
+        }),
+        execute: async (params) => {
+          const context = chatContext('Reverted at user request');
+          if (params.change_id) return revertChange(params.change_id, context, { force: params.force });
+          if (params.turn_id) return revertTurn(params.turn_id, context, { force: params.force });
+          return { success: false, error: 'Provide change_id or turn_id' };
+        },
+      }),
+
       // ---- DATA OVERVIEW ----
       getOverview: tool({
         description: 'Get a high-level overview/summary of the current operations data including counts of pilots, drones, missions, and sync status.',
@@ -531,7 +1196,7 @@ export async function POST(req: Request) {
           const urgentMissions = allMissions.filter((m) => m.priority === 'Urgent' && m.mission_status !== 'Completed' && m.mission_status !== 'Cancelled');
           const unassignedMissions = allMissions.filter(
             (m) =>
-              (!m.assigned_pilot || !m.assigned_drone) &&
+              (openRoles(m).length > 0 || dronesMissing(m) > 0) &&
               m.mission_status !== 'Completed' &&
               m.mission_status !== 'Cancelled'
           );
@@ -542,20 +1207,98 @@ export async function POST(req: Request) {
             unassignedMissions: unassignedMissions.length,
             unassigned_details: unassignedMissions.map((m) => ({
               id: m.project_id,
-              needs_pilot: !m.assigned_pilot,
-              needs_drone: !m.assigned_drone,
+              open_roles: openRoles(m),
+              drones_needed: dronesMissing(m),
               priority: m.priority,
             })),
           };
         },
       }),
 
+      getDataQualityReport: tool({
+        description: 'Get the data quality report from the last sync: rows whose values were auto-corrected (e.g. "urgent " -> "Urgent") and rows held back (quarantined) because of invalid enums, dates, duplicate IDs or missing required fields.',
+        parameters: z.object({
+          entity_type: z.enum(['pilot', 'drone', 'mission', 'equipment']).nullable().describe('Only show issues for this entity type'),
+        }),
+        execute: async (params) => {
+          const report = await getDataQualityReport();
+          if (!report) {
+            return { message: 'No data quality report yet; it is produced when data is pulled from the data source.' };
+          }
+          const matches = <T extends { entity_type: string }>(item: T) =>
+            !params.entity_type || item.entity_type === params.entity_type;
+          return {
+            checked_at: report.checked_at,
+            source: report.source,
+            mode: report.mode,
+            records_checked: report.records_checked,
+            coerced_records: report.coerced,
+            quarantined: report.quarantined.filter(matches).map((q) => ({
+              entity_type: q.entity_type,
+              entity_id: q.entity_id,
+              row: q.row,
+            })),
+            issues: report.issues.filter(matches),
+          };
+        },
+      }),
+
+      checkIntegrity: tool({
+        description: 'Get the referential integrity report from the last sync: missions listing pilots, drones or equipment that do not exist, resources whose current assignment disagrees with the missions, Assigned pilots with no mission and Deployed drones or equipment with nothing to do. Each issue includes the fix a repair would make.',
+        parameters: z.object({}),
+        execute: async () => {
+          await initializeData();
+          const report = await getIntegrityReport();
+          if (!report) {
+            return { message: 'No integrity report yet; it is produced when data is pulled from the data source.' };
+          }
+          return {
+            checked_at: report.checked_at,
+            source: report.source,
+            issue_count: report.issues.length,
+            issues: report.issues.map((i) => ({
+              kind: i.kind,
+              record: `${i.entity_type} ${i.entity_id}`,
+              message: i.message,
+              fix: i.fix ? i.fix.updates : 'none; needs a decision (see message)',
+            })),
+          };
+        },
+      }),
+
+      repairIntegrity: tool({
+        description: 'Repair integrity issues, treating the missions as the source of truth: drop references to missing records, point current assignments at the missions that list the resource, and fix Assigned/Deployed/Available statuses. Run with dry_run first and show the changes before applying.',
+        parameters: z.object({
+          dry_run: z.boolean().describe('Preview the changes without making them'),
+        }),
+        execute: async (params) => {
+          const result = await repairIntegrity(chatContext('Referential integrity repair'), { dry_run: params.dry_run });
+          return {
+            ...result,
+            issues: result.issues.map((i) => i.message),
+            changes: result.changes.map((c) => ({ record: `${c.entity} ${c.id}`, updates: c.updates })),
+          };
+        },
+      }),
+
       syncWithSheets: tool({
-        description: 'Force a full resync with Google Sheets. Reads the latest data from Sheets.',
+        description: 'Sync with the configured data source (Google Sheets or CSV files). Merges edits made in the source with local edits field by field, pushes local edits that have not reached the source yet, and reports fields changed on both sides.',
         parameters: z.object({}),
         execute: async () => {
           const result = await forceSync();
-          return result;
+          const status = await getSyncStatus();
+          const quality = await getDataQualityReport();
+          return {
+            ...result,
+            data_quality: quality && {
+              coerced_records: quality.coerced,
+              quarantined_rows: quality.quarantined.length,
+            },
+            pending_local_changes: status.dirty,
+            conflict_policy: status.conflict_policy,
+            queued_writes: status.outbox.pending.length,
+            failed_writes: status.outbox.failed,
+          };
         },
       }),
     },
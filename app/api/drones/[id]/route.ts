@@ -0,0 +1,72 @@
+// ============================================
+// Drone API Route - Get, Update and Archive by ID
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getDroneById, updateDrone, archiveDrone } from '@/lib/dataStore';
+import { DronePatchSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const drone = await getDroneById(id);
+    if (!drone) {
+      return NextResponse.json({ error: `Drone ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(drone);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to get drone', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = DronePatchSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid drone update', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getDroneById(id))) {
+      return NextResponse.json({ error: `Drone ${id} not found` }, { status: 404 });
+    }
+
+    const result = await updateDrone(id, parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update drone', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Records are archived rather than removed so their history is kept
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getDroneById(id))) {
+      return NextResponse.json({ error: `Drone ${id} not found` }, { status: 404 });
+    }
+
+    const result = await archiveDrone(id, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to archive drone', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// ============================================
+// Drones API Route - List and Create
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getDrones, getDroneById, createDrone } from '@/lib/dataStore';
+import { DroneSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const drones = await getDrones({
+      capability: searchParams.get('capability') || undefined,
+      status: searchParams.get('status') || undefined,
+      location: searchParams.get('location') || undefined,
+      include_archived: searchParams.get('include_archived') === 'true',
+    });
+    return NextResponse.json({ count: drones.length, drones });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to list drones', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = DroneSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid drone', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (await getDroneById(parsed.data.drone_id)) {
+      return NextResponse.json(
+        { error: `Drone ${parsed.data.drone_id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await createDrone(parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 201 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to create drone', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
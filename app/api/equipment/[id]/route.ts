@@ -0,0 +1,72 @@
+// ============================================
+// Equipment API Route - Get, Update and Archive by ID
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getEquipmentById, updateEquipment, archiveEquipment } from '@/lib/dataStore';
+import { EquipmentPatchSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const item = await getEquipmentById(id);
+    if (!item) {
+      return NextResponse.json({ error: `Equipment ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(item);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to get equipment', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = EquipmentPatchSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid equipment update', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getEquipmentById(id))) {
+      return NextResponse.json({ error: `Equipment ${id} not found` }, { status: 404 });
+    }
+
+    const result = await updateEquipment(id, parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update equipment', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Records are archived rather than removed so their history is kept
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getEquipmentById(id))) {
+      return NextResponse.json({ error: `Equipment ${id} not found` }, { status: 404 });
+    }
+
+    const result = await archiveEquipment(id, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to archive equipment', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
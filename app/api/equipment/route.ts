@@ -0,0 +1,57 @@
+// ============================================
+// Equipment API Route - List and Create
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getEquipment, getEquipmentById, createEquipment } from '@/lib/dataStore';
+import { EquipmentSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const equipment = await getEquipment({
+      type: searchParams.get('type') || undefined,
+      status: searchParams.get('status') || undefined,
+      location: searchParams.get('location') || undefined,
+      compatible_with: searchParams.get('compatible_with') || undefined,
+      include_archived: searchParams.get('include_archived') === 'true',
+    });
+    return NextResponse.json({ count: equipment.length, equipment });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to list equipment', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = EquipmentSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid equipment', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (await getEquipmentById(parsed.data.equipment_id)) {
+      return NextResponse.json(
+        { error: `Equipment ${parsed.data.equipment_id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await createEquipment(parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 201 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to create equipment', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// ============================================
+// Flight Logs API Route - Logs and Flown-Hour Totals
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getFlightLogs, totalsOf, pilotFlightSummary, droneFlightSummary } from '@/lib/flightLogs';
+import { getPilotById, getDroneById } from '@/lib/dataStore';
+import { localToday } from '@/lib/scheduling';
+
+// Filter by project_id, pilot_id, drone_id, since or incomplete=true. With a
+// pilot_id or drone_id the response also carries currency / service status.
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const pilotId = searchParams.get('pilot_id') || undefined;
+    const droneId = searchParams.get('drone_id') || undefined;
+    const logs = await getFlightLogs({
+      project_id: searchParams.get('project_id') || undefined,
+      pilot_id: pilotId,
+      drone_id: droneId,
+      since: searchParams.get('since') || undefined,
+      incomplete: searchParams.get('incomplete') === 'true',
+    });
+
+    const today = localToday();
+    const pilot = pilotId ? await getPilotById(pilotId) : undefined;
+    const drone = droneId ? await getDroneById(droneId) : undefined;
+
+    return NextResponse.json({
+      count: logs.length,
+      totals: totalsOf(logs),
+      pilot: pilot ? await pilotFlightSummary(pilot.pilot_id, today) : undefined,
+      drone: drone ? await droneFlightSummary(drone, today) : undefined,
+      logs,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to read flight logs', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// ============================================
+// Integrity API Route - Assignment Cross-Reference Checks
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getIntegrityReport } from '@/lib/integrity';
+import { repairIntegrity } from '@/lib/assignments';
+import { initializeData } from '@/lib/dataStore';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { readJsonBody } from '@/lib/requestBody';
+
+// The report from the last pull (or repair)
+export async function GET() {
+  try {
+    await initializeData();
+    const report = await getIntegrityReport();
+    return NextResponse.json({ report });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to read integrity report', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Repair. Previews the changes by default; { dry_run: false } makes them.
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const body = read.body;
+    const result = await repairIntegrity(mutationContextFromRequest(req), { dry_run: body.dry_run !== false });
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Integrity repair failed', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// ============================================
+// Mission Flight Log API Route - Record What Flew
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getMissionById, getPilotById, getDroneById, applyServiceInterval } from '@/lib/dataStore';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getFlightLogs, recordFlightDetails } from '@/lib/flightLogs';
+import { FlightDetailsSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const [log] = await getFlightLogs({ project_id: id });
+    if (!log) {
+      return NextResponse.json({ error: `No flight log for ${id}` }, { status: 404 });
+    }
+    return NextResponse.json(log);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to get flight log', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Record sorties, flight minutes and battery cycles for a completed mission.
+// Flown hours may bring each drone's maintenance_due forward.
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = FlightDetailsSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid flight details', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const mission = await getMissionById(id);
+    if (!mission) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+    if (mission.mission_status !== 'Completed') {
+      return NextResponse.json(
+        { error: `Mission ${id} is ${mission.mission_status}, not Completed` },
+        { status: 409 }
+      );
+    }
+    if (parsed.data.pilot_id && !(await getPilotById(parsed.data.pilot_id))) {
+      return NextResponse.json({ error: `Pilot ${parsed.data.pilot_id} not found` }, { status: 400 });
+    }
+    for (const droneId of parsed.data.drone_ids || []) {
+      if (!(await getDroneById(droneId))) {
+        return NextResponse.json({ error: `Drone ${droneId} not found` }, { status: 400 });
+      }
+    }
+
+    const result = await recordFlightDetails(id, parsed.data);
+    if (!result.success || !result.log) {
+      return NextResponse.json(result, { status: 409 });
+    }
+
+    const droneService = [];
+    for (const droneId of result.log.drone_ids) {
+      const summary = await applyServiceInterval(droneId, mutationContextFromRequest(req));
+      if (summary) droneService.push({ drone_id: droneId, ...summary.service });
+    }
+    return NextResponse.json({ ...result, drone_service: droneService });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to record flight log', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
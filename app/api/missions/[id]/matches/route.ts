@@ -0,0 +1,60 @@
+// ============================================
+// Mission Matches API Route - Ranked Pilots and Drones
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getMissionById } from '@/lib/dataStore';
+import { findBestPilotForMission, findBestDroneForMission } from '@/lib/conflicts';
+import { CrewRoleSchema } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// ?type=pilot|drone|both (default both), ?role=PIC|Observer|Payload Operator.
+// Every match carries its per-factor score breakdown and the scoring policy
+// version it was ranked under.
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getMissionById(id))) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const type = searchParams.get('type') || 'both';
+    const role = CrewRoleSchema.safeParse(searchParams.get('role') || 'PIC');
+    if (!role.success) {
+      return NextResponse.json({ error: 'Invalid role. Use PIC, Observer or Payload Operator.' }, { status: 400 });
+    }
+
+    const result: Record<string, unknown> = {};
+    if (type === 'pilot' || type === 'both') {
+      const pilots = await findBestPilotForMission(id, role.data);
+      result.policy = pilots.policy;
+      result.role = role.data;
+      result.pilots = pilots.matches.map((m) => ({
+        pilot_id: m.pilot.pilot_id,
+        name: m.pilot.name,
+        score: m.score,
+        eligible: m.eligible,
+        breakdown: m.breakdown,
+      }));
+    }
+    if (type === 'drone' || type === 'both') {
+      const drones = await findBestDroneForMission(id);
+      result.policy = drones.policy;
+      result.drones = drones.matches.map((m) => ({
+        drone_id: m.drone.drone_id,
+        model: m.drone.model,
+        score: m.score,
+        eligible: m.eligible,
+        breakdown: m.breakdown,
+      }));
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to rank matches', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
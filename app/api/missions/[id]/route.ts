@@ -0,0 +1,119 @@
+// ============================================
+// Mission API Route - Get, Update and Archive by ID
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getMissionById, runTransaction, archiveMission } from '@/lib/dataStore';
+import { validateSchedule } from '@/lib/conflicts';
+import { SCHEDULE_FIELDS } from '@/lib/scheduling';
+import { MissionPatchSchema, MissionCreateSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+import type { Mission } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const mission = await getMissionById(id);
+    if (!mission) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(mission);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to get mission', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = MissionPatchSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid mission update', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getMissionById(id);
+    if (!existing) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+    if (parsed.data.mission_status && parsed.data.mission_status !== existing.mission_status) {
+      return NextResponse.json(
+        { error: `Change mission status with POST /api/missions/${id}/transition` },
+        { status: 400 }
+      );
+    }
+
+    // null clears a field: the mission goes back to whole days, or to its
+    // location's time zone. It is stored as an empty cell.
+    const { start_time, end_time, time_zone, ...rest } = parsed.data;
+    const updates: Partial<Mission> = { ...rest };
+    if (start_time !== undefined) updates.start_time = start_time ?? '';
+    if (end_time !== undefined) updates.end_time = end_time ?? '';
+    if (time_zone !== undefined) updates.time_zone = time_zone ?? '';
+
+    // Re-check cross-field rules (date order, paired times) against the merged record
+    const proposed = { ...existing, ...updates };
+    const merged = MissionCreateSchema.safeParse({
+      ...proposed,
+      start_time: proposed.start_time || undefined,
+      end_time: proposed.end_time || undefined,
+      time_zone: proposed.time_zone || undefined,
+    });
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: 'Invalid mission update', issues: formatZodIssues(merged.error) },
+        { status: 400 }
+      );
+    }
+
+    // Moving a mission re-checks everyone on it, under the write lock
+    const rescheduled = SCHEDULE_FIELDS.some((field) => field in updates);
+    const result = await runTransaction([{ entity: 'mission', id, updates }], mutationContextFromRequest(req), {
+      validate: rescheduled
+        ? async () => {
+            const current = await getMissionById(id);
+            return current ? validateSchedule({ ...current, ...updates }) : { valid: false, conflicts: [] };
+          }
+        : undefined,
+    });
+    if (!result.success) {
+      return result.conflicts
+        ? NextResponse.json({ error: 'Schedule change blocked due to conflicts', conflicts: result.conflicts }, { status: 409 })
+        : NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, mission: await getMissionById(id), synced_to_sheets: result.synced_to_sheets });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update mission', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Records are archived rather than removed so their history is kept
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getMissionById(id))) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+
+    const result = await archiveMission(id, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to archive mission', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
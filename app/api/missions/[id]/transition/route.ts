@@ -0,0 +1,59 @@
+// ============================================
+// Mission Transition API Route - Lifecycle History and Status Changes
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getMissionById } from '@/lib/dataStore';
+import { transitionMission } from '@/lib/assignments';
+import { getMissionTransitions, MISSION_TRANSITIONS } from '@/lib/lifecycle';
+import { MissionStatusSchema } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Current status, the statuses it can move to, and past transitions
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const mission = await getMissionById(id);
+    if (!mission) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({
+      status: mission.mission_status,
+      allowed: MISSION_TRANSITIONS[mission.mission_status],
+      transitions: await getMissionTransitions(id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to read mission transitions', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { "to": "Completed" }. Refused transitions return 409 with the blockers.
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const body = read.body;
+    const to = MissionStatusSchema.safeParse(body.to);
+    if (!to.success) {
+      return NextResponse.json({ error: `Invalid status; expected one of ${MissionStatusSchema.options.join(', ')}` }, { status: 400 });
+    }
+    if (!(await getMissionById(id))) {
+      return NextResponse.json({ error: `Mission ${id} not found` }, { status: 404 });
+    }
+
+    const result = await transitionMission(id, to.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to change mission status', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
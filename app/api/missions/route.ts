@@ -0,0 +1,62 @@
+// ============================================
+// Missions API Route - List and Create
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getMissions, getMissionById, createMission } from '@/lib/dataStore';
+import { MissionRequestSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const missions = await getMissions({
+      priority: searchParams.get('priority') || undefined,
+      location: searchParams.get('location') || undefined,
+      status: searchParams.get('status') || undefined,
+      skill: searchParams.get('skill') || undefined,
+      include_archived: searchParams.get('include_archived') === 'true',
+    });
+    return NextResponse.json({ count: missions.length, missions });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to list missions', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Crew, drones and equipment are booked afterwards through the assignment
+// routes, which check them
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = MissionRequestSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid mission', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (await getMissionById(parsed.data.project_id)) {
+      return NextResponse.json(
+        { error: `Mission ${parsed.data.project_id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await createMission(
+      { ...parsed.data, crew: [], assigned_drones: [], assigned_equipment: [] },
+      mutationContextFromRequest(req)
+    );
+    return NextResponse.json(result, { status: result.success ? 201 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to create mission', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
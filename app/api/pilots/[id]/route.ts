@@ -0,0 +1,72 @@
+// ============================================
+// Pilot API Route - Get, Update and Archive by ID
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getPilotById, updatePilot, archivePilot } from '@/lib/dataStore';
+import { PilotPatchSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const pilot = await getPilotById(id);
+    if (!pilot) {
+      return NextResponse.json({ error: `Pilot ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json(pilot);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to get pilot', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = PilotPatchSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid pilot update', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getPilotById(id))) {
+      return NextResponse.json({ error: `Pilot ${id} not found` }, { status: 404 });
+    }
+
+    const result = await updatePilot(id, parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update pilot', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Records are archived rather than removed so their history is kept
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!(await getPilotById(id))) {
+      return NextResponse.json({ error: `Pilot ${id} not found` }, { status: 404 });
+    }
+
+    const result = await archivePilot(id, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to archive pilot', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// ============================================
+// Certification Expiry API Route - Lapsed and Expiring Certificates
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { getPilots, getMissions } from '@/lib/dataStore';
+import { certificationExpiries } from '@/lib/certifications';
+import { localToday } from '@/lib/scheduling';
+
+// Certificates expired or expiring within `days` (default 60), with the open
+// missions that need them past their expiry date
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const days = Number(searchParams.get('days') || 60);
+    if (!Number.isFinite(days) || days < 0) {
+      return NextResponse.json({ error: 'days must be a non-negative number' }, { status: 400 });
+    }
+
+    const expiries = certificationExpiries(await getPilots(), await getMissions(), localToday(), days);
+    return NextResponse.json({ within_days: days, count: expiries.length, expiries });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to build certification expiry report', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// ============================================
+// Pilots API Route - List and Create
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { getPilots, getPilotById, createPilot } from '@/lib/dataStore';
+import { PilotSchema, formatZodIssues } from '@/lib/schemas';
+import { readJsonBody } from '@/lib/requestBody';
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const pilots = await getPilots({
+      skill: searchParams.get('skill') || undefined,
+      certification: searchParams.get('certification') || undefined,
+      location: searchParams.get('location') || undefined,
+      status: searchParams.get('status') || undefined,
+      include_archived: searchParams.get('include_archived') === 'true',
+    });
+    return NextResponse.json({ count: pilots.length, pilots });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to list pilots', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const parsed = PilotSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid pilot', issues: formatZodIssues(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    if (await getPilotById(parsed.data.pilot_id)) {
+      return NextResponse.json(
+        { error: `Pilot ${parsed.data.pilot_id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const result = await createPilot(parsed.data, mutationContextFromRequest(req));
+    return NextResponse.json(result, { status: result.success ? 201 : 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to create pilot', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
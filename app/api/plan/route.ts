@@ -0,0 +1,54 @@
+// ============================================
+// Plan API Route - Joint Assignment Planning
+// ============================================
+
+import { NextResponse } from 'next/server';
+import { planAssignments, getLatestPlan, applyPlan } from '@/lib/planner';
+import { mutationContextFromRequest } from '@/lib/auditLog';
+import { readJsonBody } from '@/lib/requestBody';
+
+// The latest proposed plan, if any
+export async function GET() {
+  try {
+    const plan = await getLatestPlan();
+    return NextResponse.json({ plan });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to read assignment plan', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Propose a plan ({ action: "plan" }) or apply one ({ action: "apply", plan_id, skip_missions? })
+export async function POST(req: Request) {
+  try {
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const body = read.body;
+    const action = body.action || 'plan';
+
+    if (action === 'plan') {
+      const plan = await planAssignments();
+      return NextResponse.json(plan);
+    }
+
+    if (action === 'apply') {
+      if (typeof body.plan_id !== 'string') {
+        return NextResponse.json({ error: 'Provide the "plan_id" to apply.' }, { status: 400 });
+      }
+      const context = mutationContextFromRequest(req);
+      if (!context.reason) context.reason = `Applied assignment plan ${body.plan_id}`;
+      const skip = Array.isArray(body.skip_missions) ? body.skip_missions.filter((id: unknown) => typeof id === 'string') : [];
+      const result = await applyPlan(body.plan_id, context, { skip_missions: skip });
+      return NextResponse.json(result, { status: result.results ? 200 : 409 });
+    }
+
+    return NextResponse.json({ error: 'Invalid action. Use "plan" or "apply".' }, { status: 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Assignment planning failed', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,23 @@
 // ============================================
 
 import { NextResponse } from 'next/server';
-import { forceSync, getDataSummary, syncAllToSheets } from '@/lib/dataStore';
+import {
+  forceSync,
+  getDataSummary,
+  getSyncStatus,
+  syncAllToSheets,
+  clearSyncConflicts,
+  retryQueuedWrites,
+} from '@/lib/dataStore';
+import { getDataQualityReport } from '@/lib/dataQuality';
+import { readJsonBody } from '@/lib/requestBody';
 
 export async function GET() {
   try {
     const summary = await getDataSummary();
-    return NextResponse.json(summary);
+    const sync = await getSyncStatus();
+    const dataQuality = await getDataQualityReport();
+    return NextResponse.json({ ...summary, sync, data_quality: dataQuality });
   } catch (error) {
     return NextResponse.json(
       { error: 'Failed to get sync status', details: String(error) },
@@ -19,7 +30,9 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
+    const read = await readJsonBody(req);
+    if (!read.ok) return NextResponse.json({ error: read.error }, { status: 400 });
+    const body = read.body;
     const action = body.action || 'pull';
 
     if (action === 'pull') {
@@ -32,7 +45,20 @@ export async function POST(req: Request) {
       return NextResponse.json(result);
     }
 
-    return NextResponse.json({ error: 'Invalid action. Use "pull" or "push".' }, { status: 400 });
+    if (action === 'retry') {
+      const result = await retryQueuedWrites();
+      return NextResponse.json(result);
+    }
+
+    if (action === 'clear_conflicts') {
+      const result = await clearSyncConflicts();
+      return NextResponse.json(result);
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid action. Use "pull", "push", "retry" or "clear_conflicts".' },
+      { status: 400 }
+    );
   } catch (error) {
     return NextResponse.json(
       { error: 'Sync failed', details: String(error) },
@@ -14,6 +14,7 @@ import {
 
 interface SyncStatus {
   sheetsConfigured: boolean;
+  dataSource: 'google_sheets' | 'csv' | null;
   totalPilots: number;
   availablePilots: number;
   totalDrones: number;
@@ -141,8 +142,14 @@ export default function Home() {
                 <p className="text-sm font-semibold text-gray-800">{syncStatus.activeMissions} active of {syncStatus.totalMissions}</p>
               </div>
               <div className="p-3 bg-gray-50 rounded-lg">
-                <p className="text-xs text-gray-500 font-medium">Google Sheets</p>
-                <p className="text-sm font-semibold text-gray-800">{syncStatus.sheetsConfigured ? 'Connected' : 'Not configured'}</p>
+                <p className="text-xs text-gray-500 font-medium">Data Source</p>
+                <p className="text-sm font-semibold text-gray-800">
+                  {syncStatus.dataSource === 'google_sheets'
+                    ? 'Google Sheets'
+                    : syncStatus.dataSource === 'csv'
+                      ? 'CSV files'
+                      : 'Not configured'}
+                </p>
               </div>
 
               {syncStatus.lastSync && (
@@ -0,0 +1,179 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  createMissionWithAssignments,
+  assignPilotToMission,
+  assignDroneToMission,
+  repairIntegrity,
+  transitionMission,
+  unassignFromMission,
+} from './assignments';
+import { createMission, getMissionById, getPilotById, getDroneById } from './dataStore';
+import { getMissionTransitions } from './lifecycle';
+import type { Mission, MutationContext } from './types';
+
+const context: MutationContext = { source: 'api', actor: 'test' };
+
+function mission(id: string, overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Bangalore',
+    required_skills: ['Mapping'], required_certs: ['DGCA'],
+    start_date: '2027-05-03', end_date: '2027-05-04', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+beforeAll(() => {
+  process.env.DATA_SOURCE = 'none';
+});
+
+describe('createMissionWithAssignments', () => {
+  it('books the mission with its crew and drone in one write and activates it', async () => {
+    const result = await createMissionWithAssignments(
+      mission('PRJ901'),
+      { crew: [{ pilot_id: 'P001', role: 'PIC' }], drones: ['D001'] },
+      context
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.activated).toBe(true);
+    expect(await getMissionById('PRJ901')).toMatchObject({
+      mission_status: 'Active',
+      crew: [{ pilot_id: 'P001', role: 'PIC' }],
+      assigned_drones: ['D001'],
+    });
+    expect(await getPilotById('P001')).toMatchObject({ status: 'Assigned', current_assignment: 'PRJ901' });
+    expect(await getDroneById('D001')).toMatchObject({ status: 'Deployed', current_assignment: 'PRJ901' });
+    expect((await getMissionTransitions('PRJ901')).map((t) => t.to)).toEqual(['Active']);
+  });
+
+  it('leaves off a pilot who is double-booked and books the rest', async () => {
+    const result = await createMissionWithAssignments(
+      mission('PRJ902'),
+      { crew: [{ pilot_id: 'P001', role: 'PIC' }, { pilot_id: 'P005', role: 'Observer' }], drones: [] },
+      context
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.crew_assignments.map((o) => [o.id, o.success])).toEqual([['P001', false], ['P005', true]]);
+    expect((await getMissionById('PRJ902'))?.crew).toEqual([{ pilot_id: 'P005', role: 'Observer' }]);
+    expect((await getPilotById('P001'))?.current_assignment).toBe('PRJ901');
+  });
+
+  it('never books a pilot that does not exist, even when forced', async () => {
+    const result = await createMissionWithAssignments(
+      mission('PRJ903'),
+      { crew: [{ pilot_id: 'P999', role: 'PIC' }], drones: [] },
+      context,
+      { force: true }
+    );
+
+    expect(result.crew_assignments[0]).toMatchObject({ id: 'P999', success: false });
+    expect((await getMissionById('PRJ903'))?.crew).toEqual([]);
+  });
+});
+
+describe('activation on assignment', () => {
+  it('goes Active when the PIC joins a mission that has its drone, not before', async () => {
+    await createMission(mission('PRJ911', { start_date: '2027-06-01', end_date: '2027-06-02' }), context);
+    await assignDroneToMission('D005', 'PRJ911', context, { force: true });
+
+    const observer = await assignPilotToMission('P003', 'PRJ911', context, { role: 'Observer', force: true });
+    expect(observer.activated).toBeUndefined();
+    expect((await getMissionById('PRJ911'))?.mission_status).toBe('Planned');
+
+    const pic = await assignPilotToMission('P005', 'PRJ911', context, { force: true });
+    expect(pic.activated).toBe(true);
+    expect((await getMissionById('PRJ911'))?.mission_status).toBe('Active');
+  });
+
+  it('leaves a mission put back on hold Planned when more crew joins', async () => {
+    expect((await transitionMission('PRJ911', 'Planned', context)).success).toBe(true);
+
+    const result = await assignPilotToMission('P001', 'PRJ911', context, { role: 'Observer', force: true });
+
+    expect(result.success).toBe(true);
+    expect(result.activated).toBeUndefined();
+    expect((await getMissionById('PRJ911'))?.mission_status).toBe('Planned');
+  });
+});
+
+describe('repairIntegrity', () => {
+  it('previews unless told otherwise, then repairs', async () => {
+    await createMission(mission('PRJ961', { crew: [{ pilot_id: 'P006', role: 'PIC' }] }), context);
+    const fix = { entity: 'pilot', id: 'P006', updates: { status: 'Assigned', current_assignment: 'PRJ961' } };
+
+    const preview = await repairIntegrity(context);
+    expect(preview).toMatchObject({ success: true, dry_run: true });
+    expect(preview.changes).toContainEqual(fix);
+    expect(await getPilotById('P006')).toMatchObject({ status: 'Available', current_assignment: '' });
+
+    const repaired = await repairIntegrity(context, { dry_run: false });
+    expect(repaired).toMatchObject({ success: true, dry_run: false });
+    expect(await getPilotById('P006')).toMatchObject({ status: 'Assigned', current_assignment: 'PRJ961' });
+    expect((await repairIntegrity(context)).changes).toEqual([]);
+  });
+});
+
+describe('unassignFromMission', () => {
+  it('puts an Active mission back to Planned when its last drone comes off', async () => {
+    await createMissionWithAssignments(
+      mission('PRJ962', { start_date: '2027-07-03', end_date: '2027-07-04' }),
+      { crew: [{ pilot_id: 'P003', role: 'PIC' }], drones: ['D004'] },
+      context
+    );
+
+    const result = await unassignFromMission('PRJ962', { drones: ['D004'] }, context);
+
+    expect(result).toMatchObject({ success: true, deactivated: true });
+    expect((await getMissionById('PRJ962'))?.mission_status).toBe('Planned');
+    expect((await getMissionTransitions('PRJ962')).map((t) => t.to)).toEqual(['Active', 'Planned']);
+  });
+
+  it('leaves closed missions alone', async () => {
+    await transitionMission('PRJ962', 'Cancelled', context);
+    const result = await unassignFromMission('PRJ962', { pilots: ['P003'] }, context);
+    expect(result.success).toBe(false);
+    expect((await getMissionById('PRJ962'))?.crew).toEqual([{ pilot_id: 'P003', role: 'PIC' }]);
+  });
+});
+
+describe('concurrent assignments', () => {
+  it('refuses the later of two crew changes planned from the same read', async () => {
+    await createMission(mission('PRJ963', { start_date: '2027-08-03', end_date: '2027-08-04' }), context);
+
+    const results = await Promise.all([
+      assignPilotToMission('P001', 'PRJ963', context, { force: true }),
+      assignPilotToMission('P006', 'PRJ963', context, { role: 'Observer', force: true }),
+    ]);
+
+    expect(results.map((r) => r.success).sort()).toEqual([false, true]);
+    expect(results.find((r) => !r.success)?.error).toMatch(/changed while/);
+    const crew = (await getMissionById('PRJ963'))?.crew.map((c) => c.pilot_id) || [];
+    expect(crew).toHaveLength(1);
+    for (const id of ['P001', 'P006']) {
+      const onCrew = crew.includes(id);
+      expect((await getPilotById(id))?.current_assignment === 'PRJ963').toBe(onCrew);
+    }
+  });
+
+  it('refuses a drone change racing an unassignment', async () => {
+    await createMissionWithAssignments(
+      mission('PRJ964', { start_date: '2027-08-10', end_date: '2027-08-11' }),
+      { crew: [], drones: ['D002'] },
+      context,
+      { force: true }
+    );
+
+    const [added, removed] = await Promise.all([
+      assignDroneToMission('D003', 'PRJ964', context, { force: true }),
+      unassignFromMission('PRJ964', { drones: ['D002'] }, context),
+    ]);
+
+    expect([added.success, removed.success].sort()).toEqual([false, true]);
+    const drones = (await getMissionById('PRJ964'))?.assigned_drones || [];
+    for (const id of ['D002', 'D003']) {
+      expect((await getDroneById(id))?.current_assignment === 'PRJ964').toBe(drones.includes(id));
+    }
+  });
+});
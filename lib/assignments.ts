@@ -0,0 +1,609 @@
+// ============================================
+// Assignments - Atomic Assign / Unassign Operations
+// ============================================
+// Every operation here touches several records (pilot, drone or equipment,
+// mission, and any resource being replaced) and commits them in one
+// transaction. Mission status transitions are here for the same reason: closing
+// a mission releases its crew, drones and equipment with it.
+
+import type {
+  Conflict,
+  CrewAssignment,
+  CrewRole,
+  EntityChange,
+  IntegrityIssue,
+  Mission,
+  MissionStatus,
+  MissionTransition,
+  MutationContext,
+} from './types';
+import {
+  getPilots,
+  getDrones,
+  getMissions,
+  getEquipment,
+  getMissionById,
+  getPilotById,
+  getDroneById,
+  getEquipmentById,
+  runTransaction,
+  createMission,
+} from './dataStore';
+import { checkIntegrity, plannedRepairs, saveIntegrityReport } from './integrity';
+import { validatePilotAssignment, validateDroneAssignment, validateEquipmentAssignment, validateBooking } from './conflicts';
+import { crewIds, picOf, dronesRequired } from './crew';
+import {
+  isClosed,
+  activationAfter,
+  deactivationAfter,
+  transitionBlockers,
+  releaseChanges,
+  recordTransition,
+} from './lifecycle';
+import { localToday } from './scheduling';
+
+export interface AssignmentResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  conflicts?: Conflict[];
+  warnings?: Conflict[];
+  replaced?: string;
+  activated?: boolean; // a Planned mission went Active with this assignment
+  synced_to_sheets?: boolean;
+}
+
+// The changes below are built from the mission as read before the write
+// lock. A transaction is refused if its crew, drones, kit or status changed
+// in between, so a concurrent edit is never overwritten. The state is
+// captured as a string because the store hands out its live records.
+function bookingState(mission: Mission): string {
+  return JSON.stringify([mission.mission_status, mission.crew, mission.assigned_drones, mission.assigned_equipment || []]);
+}
+
+async function missionChanged(projectId: string, readState: string): Promise<boolean> {
+  const current = await getMissionById(projectId);
+  return !current || bookingState(current) !== readState;
+}
+
+function changedMeanwhile(projectId: string): string {
+  return `${projectId} changed while this was being applied; nothing was changed, please retry`;
+}
+
+// ---- ASSIGN ----
+
+// Put a pilot on the crew in a role. A new PIC takes over from the previous
+// one; other roles join alongside. A pilot already on the crew changes role.
+// A Planned mission goes Active once it has a PIC and a drone, unless it
+// already had both (see activationAfter).
+export async function assignPilotToMission(
+  pilotId: string,
+  projectId: string,
+  context: MutationContext,
+  options: { force?: boolean; role?: CrewRole } = {}
+): Promise<AssignmentResult> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: `Mission ${projectId} not found` };
+  if (isClosed(mission)) return { success: false, error: `Mission ${projectId} is ${mission.mission_status}` };
+  const readState = bookingState(mission);
+
+  const role = options.role || 'PIC';
+  const previous = role === 'PIC' && picOf(mission) !== pilotId ? picOf(mission) : '';
+  const crew = mission.crew.filter((c) => c.pilot_id !== pilotId && c.pilot_id !== previous);
+
+  const nextCrew = [...crew, { pilot_id: pilotId, role }];
+  const activation = activationAfter({ ...mission, crew: nextCrew }, mission);
+  const changes: EntityChange[] = [
+    { entity: 'pilot', id: pilotId, updates: { status: 'Assigned', current_assignment: projectId } },
+    { entity: 'mission', id: projectId, updates: { crew: nextCrew, ...activation } },
+  ];
+
+  // Free the PIC being replaced, if they still point at this mission
+  const previousPilot = previous ? await getPilotById(previous) : null;
+  if (previousPilot && previousPilot.current_assignment === projectId) {
+    changes.push({ entity: 'pilot', id: previous, updates: { status: 'Available', current_assignment: '' } });
+  }
+
+  let conflicts: Conflict[] = [];
+  let stale = false;
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      stale = await missionChanged(projectId, readState);
+      if (stale) return { valid: false, conflicts: [] };
+      const validation = await validatePilotAssignment(pilotId, projectId, role);
+      conflicts = validation.conflicts;
+      return options.force ? { valid: true, conflicts } : validation;
+    },
+  });
+
+  if (!result.success) {
+    if (stale) return { success: false, message: 'Assignment not applied', error: changedMeanwhile(projectId) };
+    return {
+      success: false,
+      message: result.conflicts ? 'Assignment blocked due to conflicts' : 'Assignment failed and was rolled back',
+      error: result.error,
+      conflicts: result.conflicts,
+    };
+  }
+
+  if (activation.mission_status) await recordTransition(projectId, 'Planned', 'Active', context);
+  return {
+    success: true,
+    warnings: conflicts.filter((c) => c.severity === 'warning'),
+    replaced: previous || undefined,
+    activated: activation.mission_status ? true : undefined,
+    synced_to_sheets: result.synced_to_sheets,
+  };
+}
+
+// Add a drone to the mission. Once it has all the drones it needs, a new one
+// must `replace` an assigned drone (implied when only one is needed).
+// A Planned mission goes Active once it has a PIC and a drone.
+export async function assignDroneToMission(
+  droneId: string,
+  projectId: string,
+  context: MutationContext,
+  options: { force?: boolean; replace?: string } = {}
+): Promise<AssignmentResult> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: `Mission ${projectId} not found` };
+  if (isClosed(mission)) return { success: false, error: `Mission ${projectId} is ${mission.mission_status}` };
+  const readState = bookingState(mission);
+
+  const assigned = mission.assigned_drones;
+  if (assigned.includes(droneId)) {
+    return { success: false, error: `Drone ${droneId} is already assigned to ${projectId}` };
+  }
+  if (options.replace && !assigned.includes(options.replace)) {
+    return { success: false, error: `Drone ${options.replace} is not assigned to ${projectId}` };
+  }
+
+  const needed = dronesRequired(mission);
+  let previous = options.replace || '';
+  if (!previous && assigned.length >= needed) {
+    if (needed > 1) {
+      return {
+        success: false,
+        error: `${projectId} already has the ${needed} drones it needs (${assigned.join(', ')}); name the drone to replace`,
+      };
+    }
+    previous = assigned[0];
+  }
+
+  const nextDrones = [...assigned.filter((id) => id !== previous), droneId];
+  const activation = activationAfter({ ...mission, assigned_drones: nextDrones }, mission);
+  const changes: EntityChange[] = [
+    { entity: 'drone', id: droneId, updates: { status: 'Deployed', current_assignment: projectId } },
+    { entity: 'mission', id: projectId, updates: { assigned_drones: nextDrones, ...activation } },
+  ];
+
+  const previousDrone = previous ? await getDroneById(previous) : null;
+  if (previousDrone && previousDrone.current_assignment === projectId) {
+    changes.push({ entity: 'drone', id: previous, updates: { status: 'Available', current_assignment: '' } });
+  }
+
+  let conflicts: Conflict[] = [];
+  let stale = false;
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      stale = await missionChanged(projectId, readState);
+      if (stale) return { valid: false, conflicts: [] };
+      const validation = await validateDroneAssignment(droneId, projectId, previous || undefined);
+      conflicts = validation.conflicts;
+      return options.force ? { valid: true, conflicts } : validation;
+    },
+  });
+
+  if (!result.success) {
+    if (stale) return { success: false, message: 'Assignment not applied', error: changedMeanwhile(projectId) };
+    return {
+      success: false,
+      message: result.conflicts ? 'Assignment blocked due to conflicts' : 'Assignment failed and was rolled back',
+      error: result.error,
+      conflicts: result.conflicts,
+    };
+  }
+
+  if (activation.mission_status) await recordTransition(projectId, 'Planned', 'Active', context);
+  return {
+    success: true,
+    warnings: conflicts.filter((c) => c.severity === 'warning'),
+    replaced: previous || undefined,
+    activated: activation.mission_status ? true : undefined,
+    synced_to_sheets: result.synced_to_sheets,
+  };
+}
+
+// Equipment is added to the mission's kit list; a mission can take several
+// items (payload, batteries, ground kit)
+export async function assignEquipmentToMission(
+  equipmentId: string,
+  projectId: string,
+  context: MutationContext,
+  options: { force?: boolean } = {}
+): Promise<AssignmentResult> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: `Mission ${projectId} not found` };
+  if (isClosed(mission)) return { success: false, error: `Mission ${projectId} is ${mission.mission_status}` };
+  const readState = bookingState(mission);
+
+  const booked = mission.assigned_equipment || [];
+  if (booked.includes(equipmentId)) {
+    return { success: false, error: `Equipment ${equipmentId} is already booked for ${projectId}` };
+  }
+
+  const changes: EntityChange[] = [
+    { entity: 'equipment', id: equipmentId, updates: { status: 'Deployed', current_assignment: projectId } },
+    { entity: 'mission', id: projectId, updates: { assigned_equipment: [...booked, equipmentId] } },
+  ];
+
+  let conflicts: Conflict[] = [];
+  let stale = false;
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      stale = await missionChanged(projectId, readState);
+      if (stale) return { valid: false, conflicts: [] };
+      const validation = await validateEquipmentAssignment(equipmentId, projectId);
+      conflicts = validation.conflicts;
+      return options.force ? { valid: true, conflicts } : validation;
+    },
+  });
+
+  if (!result.success) {
+    if (stale) return { success: false, message: 'Assignment not applied', error: changedMeanwhile(projectId) };
+    return {
+      success: false,
+      message: result.conflicts ? 'Assignment blocked due to conflicts' : 'Assignment failed and was rolled back',
+      error: result.error,
+      conflicts: result.conflicts,
+    };
+  }
+
+  return {
+    success: true,
+    warnings: conflicts.filter((c) => c.severity === 'warning'),
+    synced_to_sheets: result.synced_to_sheets,
+  };
+}
+
+// ---- BOOK WITH CREW ----
+
+export interface BookingOutcome {
+  id: string;
+  role?: CrewRole;
+  success: boolean;
+  error?: string;
+  conflicts?: Conflict[];
+  warnings?: Conflict[];
+}
+
+// Check the requested pilots and drones one at a time, each alongside those
+// accepted before it. Conflicting ones are left off unless forced; records
+// that don't exist never go on.
+async function selectBooking(
+  mission: Mission,
+  requested: { crew: CrewAssignment[]; drones: string[] },
+  force: boolean
+): Promise<{ proposed: Mission; crew: BookingOutcome[]; drones: BookingOutcome[] }> {
+  let proposed: Mission = { ...mission, crew: [], assigned_drones: [] };
+  const accept = async (candidate: Mission, id: string): Promise<BookingOutcome> => {
+    const validation = await validateBooking(candidate, id);
+    const missing = validation.conflicts.some((c) => c.type === 'record_not_found');
+    if (missing || (!validation.valid && !force)) {
+      return { id, success: false, error: 'Assignment blocked due to conflicts', conflicts: validation.conflicts };
+    }
+    proposed = candidate;
+    return { id, success: true, warnings: validation.conflicts.filter((c) => c.severity === 'warning') };
+  };
+
+  const crew: BookingOutcome[] = [];
+  for (const member of requested.crew) {
+    if (crewIds(proposed).includes(member.pilot_id)) {
+      crew.push({ id: member.pilot_id, role: member.role, success: false, error: `${member.pilot_id} is already on the crew` });
+    } else if (member.role === 'PIC' && picOf(proposed)) {
+      crew.push({ id: member.pilot_id, role: member.role, success: false, error: `${picOf(proposed)} is already the PIC` });
+    } else {
+      crew.push({ role: member.role, ...(await accept({ ...proposed, crew: [...proposed.crew, member] }, member.pilot_id)) });
+    }
+  }
+
+  const drones: BookingOutcome[] = [];
+  for (const droneId of requested.drones) {
+    if (proposed.assigned_drones.includes(droneId)) {
+      drones.push({ id: droneId, success: false, error: `${droneId} is already assigned` });
+    } else if (proposed.assigned_drones.length >= dronesRequired(mission)) {
+      drones.push({ id: droneId, success: false, error: `${mission.project_id} only needs ${dronesRequired(mission)} drone(s)` });
+    } else {
+      drones.push(await accept({ ...proposed, assigned_drones: [...proposed.assigned_drones, droneId] }, droneId));
+    }
+  }
+  return { proposed, crew, drones };
+}
+
+// Create a mission together with its crew and drones in one write. The
+// selection is checked again under the write lock; if anything changed in
+// between, nothing is booked.
+export async function createMissionWithAssignments(
+  mission: Mission,
+  requested: { crew: CrewAssignment[]; drones: string[] },
+  context: MutationContext,
+  options: { force?: boolean } = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+  conflicts?: Conflict[];
+  mission?: Mission;
+  crew_assignments: BookingOutcome[];
+  drone_assignments: BookingOutcome[];
+  activated?: boolean;
+  synced_to_sheets?: boolean;
+}> {
+  const force = Boolean(options.force);
+  const selection = await selectBooking(mission, requested, force);
+  const accepted = (outcomes: BookingOutcome[]) => outcomes.filter((o) => o.success).map((o) => o.id).join(',');
+
+  const activation = activationAfter(selection.proposed);
+  const record: Mission = { ...selection.proposed, ...activation };
+  const assignments: EntityChange[] = [
+    ...crewIds(record).map((id): EntityChange => ({ entity: 'pilot', id, updates: { status: 'Assigned', current_assignment: record.project_id } })),
+    ...record.assigned_drones.map((id): EntityChange => ({ entity: 'drone', id, updates: { status: 'Deployed', current_assignment: record.project_id } })),
+  ];
+
+  const created = await createMission(record, context, {
+    assignments,
+    validate: async () => {
+      const current = await selectBooking(mission, requested, force);
+      const unchanged = accepted(current.crew) === accepted(selection.crew) && accepted(current.drones) === accepted(selection.drones);
+      return { valid: unchanged, conflicts: unchanged ? [] : [...current.crew, ...current.drones].flatMap((o) => o.conflicts || []) };
+    },
+  });
+  if (!created.success) {
+    return {
+      success: false,
+      error: created.conflicts ? 'Assignments changed while booking; nothing was created, please retry' : created.error,
+      conflicts: created.conflicts,
+      crew_assignments: selection.crew,
+      drone_assignments: selection.drones,
+    };
+  }
+
+  if (activation.mission_status) await recordTransition(record.project_id, 'Planned', 'Active', context);
+  return {
+    success: true,
+    mission: created.mission,
+    crew_assignments: selection.crew,
+    drone_assignments: selection.drones,
+    activated: activation.mission_status ? true : undefined,
+    synced_to_sheets: created.synced_to_sheets,
+  };
+}
+
+// ---- UNASSIGN ----
+
+// Take pilots and drones off a mission. Those still pointing at the mission
+// are freed. An Active mission left without a PIC or a drone goes back to
+// Planned.
+export async function unassignFromMission(
+  projectId: string,
+  which: { pilots?: string[]; drones?: string[] },
+  context: MutationContext
+): Promise<{
+  success: boolean;
+  error?: string;
+  pilots_freed?: string[];
+  drones_freed?: string[];
+  deactivated?: boolean;
+  synced_to_sheets?: boolean;
+}> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: 'Mission not found' };
+  if (isClosed(mission)) return { success: false, error: `Mission ${projectId} is ${mission.mission_status}` };
+  const readState = bookingState(mission);
+
+  const pilotsRemoved = crewIds(mission).filter((id) => which.pilots?.includes(id));
+  const dronesRemoved = mission.assigned_drones.filter((id) => which.drones?.includes(id));
+  if (pilotsRemoved.length === 0 && dronesRemoved.length === 0) return { success: true, pilots_freed: [], drones_freed: [] };
+
+  const remaining = {
+    crew: mission.crew.filter((c) => !pilotsRemoved.includes(c.pilot_id)),
+    assigned_drones: mission.assigned_drones.filter((id) => !dronesRemoved.includes(id)),
+  };
+  const deactivation = deactivationAfter({ ...mission, ...remaining });
+  const changes: EntityChange[] = [{ entity: 'mission', id: projectId, updates: { ...remaining, ...deactivation } }];
+  for (const id of pilotsRemoved) {
+    const pilot = await getPilotById(id);
+    if (pilot?.current_assignment && pilot.current_assignment !== projectId) continue;
+    changes.push({ entity: 'pilot', id, updates: { status: 'Available', current_assignment: '' } });
+  }
+  for (const id of dronesRemoved) {
+    const drone = await getDroneById(id);
+    if (drone?.current_assignment && drone.current_assignment !== projectId) continue;
+    changes.push({ entity: 'drone', id, updates: { status: 'Available', current_assignment: '' } });
+  }
+
+  let stale = false;
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      stale = await missionChanged(projectId, readState);
+      return { valid: !stale, conflicts: [] };
+    },
+  });
+  if (!result.success) return { success: false, error: stale ? changedMeanwhile(projectId) : result.error };
+
+  if (deactivation.mission_status) await recordTransition(projectId, 'Active', 'Planned', context);
+  return {
+    success: true,
+    pilots_freed: pilotsRemoved,
+    drones_freed: dronesRemoved,
+    deactivated: deactivation.mission_status ? true : undefined,
+    synced_to_sheets: result.synced_to_sheets,
+  };
+}
+
+// Take items off a mission's kit list. Items pointing at the mission move on
+// to their next open booking, or are freed if they have none.
+export async function unassignEquipmentFromMission(
+  projectId: string,
+  equipmentIds: string[],
+  context: MutationContext
+): Promise<{ success: boolean; error?: string; equipment_removed?: string[]; synced_to_sheets?: boolean }> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: 'Mission not found' };
+  if (isClosed(mission)) return { success: false, error: `Mission ${projectId} is ${mission.mission_status}` };
+  const readState = bookingState(mission);
+
+  const booked = mission.assigned_equipment || [];
+  const removed = booked.filter((id) => equipmentIds.includes(id));
+  if (removed.length === 0) return { success: true, equipment_removed: [] };
+
+  const changes: EntityChange[] = [
+    { entity: 'mission', id: projectId, updates: { assigned_equipment: booked.filter((id) => !removed.includes(id)) } },
+  ];
+  const openMissions = (await getMissions())
+    .filter((m) => m.project_id !== projectId && (m.mission_status === 'Active' || m.mission_status === 'Planned'))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  for (const id of removed) {
+    const item = await getEquipmentById(id);
+    if (!item || item.current_assignment !== projectId) continue;
+    const next = openMissions.find((m) => (m.assigned_equipment || []).includes(id));
+    changes.push({
+      entity: 'equipment',
+      id,
+      updates: next ? { status: 'Deployed', current_assignment: next.project_id } : { status: 'Available', current_assignment: '' },
+    });
+  }
+
+  let stale = false;
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      stale = await missionChanged(projectId, readState);
+      return { valid: !stale, conflicts: [] };
+    },
+  });
+  if (!result.success) return { success: false, error: stale ? changedMeanwhile(projectId) : result.error };
+
+  return { success: true, equipment_removed: removed, synced_to_sheets: result.synced_to_sheets };
+}
+
+// ---- STATUS TRANSITIONS ----
+
+// Move a mission to another status (see lib/lifecycle.ts)
+
+export async function transitionMission(
+  projectId: string,
+  to: MissionStatus,
+  context: MutationContext
+): Promise<{
+  success: boolean;
+  error?: string;
+  blockers?: string[];
+  transition?: MissionTransition;
+  released?: string[];
+  synced_to_sheets?: boolean;
+}> {
+  const mission = await getMissionById(projectId);
+  if (!mission) return { success: false, error: `Mission ${projectId} not found` };
+  if (mission.mission_status === to) return { success: false, error: `${projectId} is already ${to}` };
+
+  const from = mission.mission_status;
+  let blockers = transitionBlockers(mission, to, localToday());
+  if (blockers.length > 0) return { success: false, error: `Cannot move ${projectId} to ${to}`, blockers };
+
+  const releases = to === 'Completed' || to === 'Cancelled'
+    ? releaseChanges(mission, {
+        pilots: await getPilots(),
+        drones: await getDrones(),
+        equipment: await getEquipment(),
+        missions: await getMissions(),
+      })
+    : [];
+  const changes: EntityChange[] = [{ entity: 'mission', id: projectId, updates: { mission_status: to } }, ...releases];
+
+  // Re-check under the write lock in case the mission changed meanwhile
+  const result = await runTransaction(changes, context, {
+    validate: async () => {
+      const current = await getMissionById(projectId);
+      blockers = current && current.mission_status === from ? transitionBlockers(current, to, localToday()) : [`${projectId} changed status meanwhile`];
+      return { valid: blockers.length === 0, conflicts: [] };
+    },
+  });
+  if (!result.success) {
+    return blockers.length > 0
+      ? { success: false, error: `Cannot move ${projectId} to ${to}`, blockers }
+      : { success: false, error: result.error };
+  }
+
+  const released = releases.map((c) => c.id);
+  const transition = await recordTransition(projectId, from, to, context, released);
+  return { success: true, transition, released, synced_to_sheets: result.synced_to_sheets };
+}
+
+// ---- INTEGRITY REPAIR ----
+
+async function currentSnapshot() {
+  return {
+    pilots: await getPilots({ include_archived: true }),
+    drones: await getDrones({ include_archived: true }),
+    missions: await getMissions({ include_archived: true }),
+    equipment: await getEquipment({ include_archived: true }),
+  };
+}
+
+// Bring resource back-references and statuses in line with the missions, and
+// drop mission references to missing records (see lib/integrity.ts). Only
+// reports the changes that would be made unless dry_run is false.
+export async function repairIntegrity(
+  context: MutationContext,
+  options: { dry_run?: boolean } = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+  dry_run: boolean;
+  issues: IntegrityIssue[];
+  changes: EntityChange[];
+  synced_to_sheets?: boolean;
+}> {
+  const dryRun = options.dry_run !== false;
+  const report = checkIntegrity(await currentSnapshot(), 'repair');
+  const changes = plannedRepairs(report.issues);
+  if (dryRun || changes.length === 0) {
+    await saveIntegrityReport(report);
+    return { success: true, dry_run: dryRun, issues: report.issues, changes };
+  }
+
+  // Re-check under the write lock; an edit in between may have changed what needs fixing
+  let stale = false;
+  const result = await runTransaction(changes, { ...context, reason: context.reason || 'Referential integrity repair' }, {
+    validate: async () => {
+      const current = plannedRepairs(checkIntegrity(await currentSnapshot(), 'repair').issues);
+      stale = JSON.stringify(current) !== JSON.stringify(changes);
+      return { valid: !stale, conflicts: [] };
+    },
+  });
+  if (!result.success) {
+    const error = stale ? 'The data changed while planning the repair; check again and retry' : result.error;
+    return { success: false, error, dry_run: false, issues: report.issues, changes };
+  }
+
+  await saveIntegrityReport(checkIntegrity(await currentSnapshot(), 'repair'));
+  return { success: true, dry_run: false, issues: report.issues, changes, synced_to_sheets: result.synced_to_sheets };
+}
+
+// ---- MARK UNAVAILABLE (urgent reassignment) ----
+
+export async function markResourcesUnavailable(
+  resources: { pilotId?: string; droneId?: string },
+  context: MutationContext
+): Promise<{ success: boolean; error?: string }> {
+  const changes: EntityChange[] = [];
+  if (resources.pilotId) {
+    changes.push({ entity: 'pilot', id: resources.pilotId, updates: { status: 'Unavailable', current_assignment: '' } });
+  }
+  if (resources.droneId) {
+    changes.push({ entity: 'drone', id: resources.droneId, updates: { status: 'Maintenance', current_assignment: '' } });
+  }
+  if (changes.length === 0) return { success: true };
+
+  const result = await runTransaction(changes, context);
+  return { success: result.success, error: result.error };
+}
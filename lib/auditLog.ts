@@ -0,0 +1,109 @@
+// ============================================
+// Audit Trail - Append-Only Change Log
+// ============================================
+
+import { randomUUID } from 'crypto';
+import type { AuditEntry, ChangeSource, EntityType, MutationContext } from './types';
+import { getStorage } from './storage';
+
+const AUDIT_KEY = 'audit_log';
+
+let entries: AuditEntry[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function loadEntries(): Promise<AuditEntry[]> {
+  if (entries) return entries;
+  try {
+    entries = (await getStorage().read<AuditEntry[]>(AUDIT_KEY)) || [];
+  } catch (error) {
+    console.error('Failed to read audit log:', error);
+    entries = [];
+  }
+  return entries;
+}
+
+// ---- RECORDING ----
+
+export async function recordChange(
+  context: MutationContext,
+  change: {
+    entity_type: EntityType;
+    entity_id: string;
+    action: AuditEntry['action'];
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown>;
+  }
+): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    change_id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    source: context.source,
+    actor: context.actor || context.source,
+    reason: context.reason || '',
+    turn_id: context.turn_id,
+    ...change,
+    reverts: context.reverts,
+  };
+
+  const log = await loadEntries();
+  log.push(entry);
+
+  writeQueue = writeQueue
+    .then(() => getStorage().write(AUDIT_KEY, log))
+    .catch((error) => console.error('Failed to persist audit log:', error));
+  await writeQueue;
+
+  return entry;
+}
+
+// ---- QUERIES ----
+
+export async function getChanges(filters?: {
+  entity_type?: string;
+  entity_id?: string;
+  turn_id?: string;
+  source?: string;
+  actor?: string;
+  since?: string;
+  limit?: number;
+}): Promise<AuditEntry[]> {
+  let result = [...(await loadEntries())];
+
+  if (filters?.entity_type) result = result.filter((e) => e.entity_type === filters.entity_type);
+  if (filters?.entity_id) result = result.filter((e) => e.entity_id === filters.entity_id);
+  if (filters?.turn_id) result = result.filter((e) => e.turn_id === filters.turn_id);
+  if (filters?.source) result = result.filter((e) => e.source === filters.source);
+  if (filters?.actor) {
+    const actor = filters.actor.toLowerCase();
+    result = result.filter((e) => e.actor.toLowerCase() === actor);
+  }
+  if (filters?.since) {
+    const since = filters.since;
+    result = result.filter((e) => e.timestamp >= since);
+  }
+
+  // Newest first
+  result.reverse();
+  return filters?.limit ? result.slice(0, filters.limit) : result;
+}
+
+export async function getChangeById(changeId: string): Promise<AuditEntry | null> {
+  return (await loadEntries()).find((e) => e.change_id === changeId) || null;
+}
+
+// The change that reverted `changeId`, if any
+export async function findRevertOf(changeId: string): Promise<AuditEntry | null> {
+  return (await loadEntries()).find((e) => e.reverts === changeId) || null;
+}
+
+// ---- REQUEST CONTEXT ----
+
+// Build a mutation context for an HTTP request. Callers identify themselves
+// with the `x-actor` header and may explain a change with `x-change-reason`.
+export function mutationContextFromRequest(req: Request, source: ChangeSource = 'api'): MutationContext {
+  return {
+    source,
+    actor: req.headers.get('x-actor') || undefined,
+    reason: req.headers.get('x-change-reason') || undefined,
+  };
+}
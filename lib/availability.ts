@@ -0,0 +1,91 @@
+// ============================================
+// Pilot Availability Calendar
+// ============================================
+// Each pilot carries a list of blocks (leave, training, other unavailability)
+// and a set of recurring weekly days off. In the sheet they are two columns:
+//
+//   availability: Leave 2026-03-15..2026-03-20; Training 2026-04-02 (DGCA refresher)
+//   days_off:     Sat, Sun
+//
+// Blocks are checked against a mission's date range; the `On Leave` status is
+// derived from whether a leave block covers today.
+
+import type { AvailabilityBlock, Mission, Pilot, PilotStatus, Weekday } from './types';
+import { addDays } from './scheduling';
+import { blocksOverlapping } from './dateBlocks';
+
+export const WEEKDAYS: Weekday[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MAX_RANGE_DAYS = 366;
+
+// ---- SHEET FORMAT ----
+// The availability column uses the lib/dateBlocks.ts format
+
+// "saturday, sun" -> ['Sat', 'Sun']; unknown names are kept for validation
+export function parseDaysOff(raw: string): Weekday[] {
+  return raw
+    .split(/[,;/]/)
+    .map((day) => day.trim())
+    .filter(Boolean)
+    .map((day) => WEEKDAYS.find((w) => day.toLowerCase().startsWith(w.toLowerCase())) || (day as Weekday));
+}
+
+export function formatDaysOff(days: Weekday[]): string {
+  return days.join(', ');
+}
+
+// ---- EVALUATION ----
+
+function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+// Blocks overlapping the date range (inclusive)
+export function blocksBetween(pilot: Pilot, startDate: string, endDate: string): AvailabilityBlock[] {
+  return blocksOverlapping(pilot.availability || [], startDate, endDate);
+}
+
+// Dates in the range that fall on one of the pilot's weekly days off
+export function daysOffBetween(pilot: Pilot, startDate: string, endDate: string): string[] {
+  const daysOff = pilot.days_off || [];
+  if (daysOff.length === 0) return [];
+  const dates: string[] = [];
+  let date = startDate;
+  for (let i = 0; date <= endDate && i < MAX_RANGE_DAYS; i++, date = addDays(date, 1)) {
+    if (daysOff.includes(weekdayOf(date))) dates.push(date);
+  }
+  return dates;
+}
+
+// Everything in the pilot's calendar that clashes with the mission's dates.
+// Blocks rule the pilot out; days off only mean asking them to work one.
+export function calendarClashes(pilot: Pilot, mission: Mission): { blocks: AvailabilityBlock[]; days_off: string[] } {
+  return {
+    blocks: blocksBetween(pilot, mission.start_date, mission.end_date),
+    days_off: daysOffBetween(pilot, mission.start_date, mission.end_date),
+  };
+}
+
+// ---- DERIVED STATUS ----
+
+export function isOnLeave(pilot: Pilot, date: string): boolean {
+  return blocksBetween(pilot, date, date).some((b) => b.kind === 'leave');
+}
+
+// `On Leave` while a leave block covers today; back to Assigned/Available
+// once it ends. Unavailable stays a manual status.
+export function calendarStatus(pilot: Pilot, today: string): PilotStatus {
+  if (pilot.archived_at || pilot.status === 'Unavailable') return pilot.status;
+  if (isOnLeave(pilot, today)) return 'On Leave';
+  if (pilot.status === 'On Leave') return pilot.current_assignment ? 'Assigned' : 'Available';
+  return pilot.status;
+}
+
+// Leave block standing in for a manually set `On Leave` status: from today
+// until the day before available_from (or just today when that has passed)
+export function leaveBlockFor(pilot: Pilot, today: string, note?: string): AvailabilityBlock {
+  const lastDay = pilot.available_from > today ? addDays(pilot.available_from, -1) : today;
+  const block: AvailabilityBlock = { kind: 'leave', start_date: today, end_date: lastDay };
+  if (note) block.note = note;
+  return block;
+}
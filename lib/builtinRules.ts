@@ -0,0 +1,411 @@
+// ============================================
+// Built-in Conflict Rules
+// ============================================
+// The standard scheduling, qualification, location and maintenance checks,
+// registered with the rule engine (lib/conflictRules.ts). Rule ids are
+// "<subject>.<check>" and are what conflict-rules.json refers to.
+
+import type { Mission, Pilot, CrewRole } from './types';
+import type { ConflictRule, RuleContext, RuleFinding } from './conflictRules';
+import { missionsOverlap, formatSchedule, nightOperationDays, hasTimes, NIGHT_OPS_CERT } from './scheduling';
+import { calendarClashes } from './availability';
+import { windowsBetween, maintenanceDueDuring } from './maintenance';
+import { describeDateBlock } from './dateBlocks';
+import { fitsModel } from './equipment';
+import { crewIds, requirementsFor, dronesRequired, missionDrones } from './crew';
+import { unmetRequirements, describeRequirement } from './capabilities';
+import { certificationTypes, lapsedBefore, classesNotCovering, describeCertification } from './certifications';
+import { sameLocation, describeLocation, describeTravel, transitShortfalls } from './travel';
+import type { TransitShortfall } from './travel';
+
+// ---- HELPERS ----
+
+// "as Observer" for anyone but the PIC, so single-pilot messages read as before
+function asRole(role: CrewRole): string {
+  return role === 'PIC' ? '' : ` as ${role}`;
+}
+
+// Explain a missing Night Ops cert that comes from the schedule, not the sheet
+function nightOpsNote(mission: Mission, missing: string[]): string {
+  const derived = missing.includes(NIGHT_OPS_CERT) &&
+    !mission.required_certs.some((c) => c.toLowerCase() === NIGHT_OPS_CERT.toLowerCase());
+  if (!derived) return '';
+  return ` (night operation: flies outside daylight on ${nightOperationDays(mission).join(', ')})`;
+}
+
+function missing(required: string[], held: string[]): string[] {
+  return required.filter((r) => !held.some((h) => h.toLowerCase() === r.toLowerCase()));
+}
+
+// Other open missions a resource is on
+function otherMissions(ctx: RuleContext, mission: Mission, holds: (m: Mission) => boolean): Mission[] {
+  return ctx.missions.filter((m) => m.project_id !== mission.project_id && holds(m));
+}
+
+// The same pair of missions seen from either side
+function pairKey(id: string, a: Mission, b: Mission): string {
+  return [id, ...[a.project_id, b.project_id].sort()].join('|');
+}
+
+function doubleBookings(
+  label: string,
+  id: string,
+  mission: Mission,
+  others: Mission[]
+): RuleFinding[] {
+  return others
+    .filter((other) => missionsOverlap(mission, other))
+    .map((other) => ({
+      message: `${label} is double-booked: ${mission.project_id} (${formatSchedule(mission)}) overlaps with ${other.project_id} (${formatSchedule(other)})`,
+      entities: [id, mission.project_id, other.project_id],
+      key: pairKey(id, mission, other),
+    }));
+}
+
+// Too little time to get from one mission to the next. Shift times make the
+// gap exact (an error); whole-day missions leave it to the travel day (a warning).
+function transitFinding(label: string, id: string, shortfall: TransitShortfall): RuleFinding {
+  const { from, to, estimate, gap_hours } = shortfall;
+  return {
+    message: `${label} has ${Math.max(gap_hours, 0)} h between ${from.project_id} in ${from.location} (${formatSchedule(from)}) and ${to.project_id} in ${to.location} (${formatSchedule(to)}), but the trip takes ${describeTravel(estimate)}`,
+    entities: [id, from.project_id, to.project_id],
+    severity: hasTimes(from) && hasTimes(to) ? 'error' : 'warning',
+    mission_id: to.project_id,
+    key: pairKey(id, from, to),
+  };
+}
+
+function pilotLabel(pilot: Pilot): string {
+  return `Pilot ${pilot.name} (${pilot.pilot_id})`;
+}
+
+// ---- PILOT RULES ----
+
+const PILOT_RULES: ConflictRule[] = [
+  {
+    id: 'pilot.archived',
+    subject: 'pilot',
+    description: 'Archived pilots are no longer on the roster',
+    type: 'archived_record',
+    severity: 'error',
+    check: ({ pilot, mission }) =>
+      pilot.archived_at
+        ? [{ message: `${pilotLabel(pilot)} has been archived`, entities: [pilot.pilot_id, mission.project_id] }]
+        : [],
+  },
+  {
+    id: 'pilot.double_booking',
+    subject: 'pilot',
+    description: 'A pilot cannot fly missions whose schedules overlap',
+    type: 'double_booking_pilot',
+    severity: 'error',
+    check: ({ pilot, mission }, ctx) =>
+      doubleBookings(pilotLabel(pilot), pilot.pilot_id, mission,
+        otherMissions(ctx, mission, (m) => crewIds(m).includes(pilot.pilot_id))),
+  },
+  {
+    id: 'pilot.certifications',
+    subject: 'pilot',
+    description: 'Crew members hold the certifications their role needs (Night Ops for a PIC at night)',
+    type: 'certification_mismatch',
+    severity: 'error',
+    check: ({ pilot, role, mission }) => {
+      const lacking = missing(requirementsFor(mission, role).certs, certificationTypes(pilot));
+      if (lacking.length === 0) return [];
+      return [{
+        message: `${pilotLabel(pilot)} assigned to ${mission.project_id}${asRole(role)} lacks required certifications: ${lacking.join(', ')}${nightOpsNote(mission, lacking)}`,
+        entities: [pilot.pilot_id, mission.project_id],
+      }];
+    },
+  },
+  {
+    id: 'pilot.certification_expiry',
+    subject: 'pilot',
+    description: 'Certifications a crew member needs stay valid until the mission ends',
+    type: 'certification_expired',
+    severity: 'error',
+    check: ({ pilot, role, mission }) =>
+      lapsedBefore(pilot, requirementsFor(mission, role).certs, mission.end_date).map((cert) => ({
+        message: `${pilotLabel(pilot)}'s ${describeCertification(cert)} is valid until ${cert.expiry_date}, but ${mission.project_id}${asRole(role)} runs until ${mission.end_date}`,
+        entities: [pilot.pilot_id, mission.project_id],
+      })),
+  },
+  {
+    id: 'pilot.certification_class',
+    subject: 'pilot',
+    description: "The pilot-in-command's certificates cover the category of each drone on the mission",
+    type: 'certification_mismatch',
+    severity: 'error',
+    check: ({ pilot, role, mission }, ctx) => {
+      if (role !== 'PIC') return [];
+      const certs = requirementsFor(mission, role).certs;
+      return missionDrones(mission, ctx.drones).flatMap((drone) => {
+        if (!drone.category) return [];
+        const limited = classesNotCovering(pilot, certs, drone.category);
+        if (limited.length === 0) return [];
+        const classes = [...new Set(limited.map((c) => c.category))].join(', ');
+        return [{
+          message: `${pilotLabel(pilot)}'s ${[...new Set(limited.map((c) => c.type))].join(', ')} (class ${classes}) doesn't cover drone ${drone.model} (${drone.drone_id}), category ${drone.category}, on ${mission.project_id}`,
+          entities: [pilot.pilot_id, drone.drone_id, mission.project_id],
+        }];
+      });
+    },
+  },
+  {
+    id: 'pilot.skills',
+    subject: 'pilot',
+    description: 'Crew members have the skills their role needs',
+    type: 'skill_mismatch',
+    severity: 'warning',
+    check: ({ pilot, role, mission }) => {
+      const lacking = missing(requirementsFor(mission, role).skills, pilot.skills);
+      if (lacking.length === 0) return [];
+      return [{
+        message: `${pilotLabel(pilot)} assigned to ${mission.project_id}${asRole(role)} lacks required skills: ${lacking.join(', ')}`,
+        entities: [pilot.pilot_id, mission.project_id],
+      }];
+    },
+  },
+  {
+    id: 'pilot.location',
+    subject: 'pilot',
+    description: 'Crew members are based where the mission flies',
+    type: 'location_mismatch',
+    severity: 'warning',
+    check: ({ pilot, mission }) =>
+      sameLocation(pilot.location, mission.location)
+        ? []
+        : [{
+          message: `${pilotLabel(pilot)} is in ${describeLocation(pilot.location, mission.location)} but ${mission.project_id} is in ${mission.location}`,
+          entities: [pilot.pilot_id, mission.project_id],
+        }],
+  },
+  {
+    id: 'pilot.status',
+    subject: 'pilot',
+    description: 'Pilots marked Unavailable cannot fly',
+    type: 'unavailable_pilot',
+    severity: 'error',
+    check: ({ pilot, mission }) =>
+      pilot.status === 'Unavailable'
+        ? [{
+          message: `${pilotLabel(pilot)} is ${pilot.status} but assigned to ${mission.project_id}`,
+          entities: [pilot.pilot_id, mission.project_id],
+        }]
+        : [],
+  },
+  {
+    id: 'pilot.time_off',
+    subject: 'pilot',
+    description: 'Leave, training and other unavailability blocks on the mission dates',
+    type: 'unavailable_pilot',
+    severity: 'error',
+    check: ({ pilot, mission }) =>
+      calendarClashes(pilot, mission).blocks.map((block) => ({
+        message: `${pilotLabel(pilot)} is on ${describeDateBlock(block)}, during ${mission.project_id} (${formatSchedule(mission)})`,
+        entities: [pilot.pilot_id, mission.project_id],
+      })),
+  },
+  {
+    id: 'pilot.days_off',
+    subject: 'pilot',
+    description: 'The mission would have the pilot work on recurring days off',
+    type: 'unavailable_pilot',
+    severity: 'warning',
+    check: ({ pilot, mission }) => {
+      const daysOff = calendarClashes(pilot, mission).days_off;
+      if (daysOff.length === 0) return [];
+      return [{
+        message: `${mission.project_id} falls on days off for pilot ${pilot.name} (${pilot.pilot_id}): ${daysOff.join(', ')}`,
+        entities: [pilot.pilot_id, mission.project_id],
+      }];
+    },
+  },
+  {
+    id: 'pilot.transit',
+    subject: 'pilot',
+    description: 'Consecutive missions in different places leave the pilot time to travel',
+    type: 'insufficient_transit',
+    severity: 'error',
+    check: ({ pilot, mission }, ctx) => {
+      const others = otherMissions(ctx, mission, (m) => crewIds(m).includes(pilot.pilot_id));
+      return transitShortfalls([...others, mission], mission.project_id)
+        .map((s) => transitFinding(pilotLabel(pilot), pilot.pilot_id, s));
+    },
+  },
+];
+
+// ---- DRONE RULES ----
+
+const DRONE_RULES: ConflictRule[] = [
+  {
+    id: 'drone.archived',
+    subject: 'drone',
+    description: 'Archived drones are no longer in the fleet',
+    type: 'archived_record',
+    severity: 'error',
+    check: ({ drone, mission }) =>
+      drone.archived_at
+        ? [{ message: `Drone ${drone.model} (${drone.drone_id}) has been archived`, entities: [drone.drone_id, mission.project_id] }]
+        : [],
+  },
+  {
+    id: 'drone.double_booking',
+    subject: 'drone',
+    description: 'A drone cannot fly missions whose schedules overlap',
+    type: 'double_booking_drone',
+    severity: 'error',
+    check: ({ drone, mission }, ctx) =>
+      doubleBookings(`Drone ${drone.model} (${drone.drone_id})`, drone.drone_id, mission,
+        otherMissions(ctx, mission, (m) => m.assigned_drones.includes(drone.drone_id))),
+  },
+  {
+    id: 'drone.maintenance_window',
+    subject: 'drone',
+    description: 'Maintenance windows on the mission dates',
+    type: 'maintenance_window',
+    severity: 'error',
+    check: ({ drone, mission }) =>
+      windowsBetween(drone, mission.start_date, mission.end_date).map((window) => ({
+        message: `Drone ${drone.model} (${drone.drone_id}) has ${describeDateBlock(window)} maintenance scheduled during ${mission.project_id} (${formatSchedule(mission)})`,
+        entities: [drone.drone_id, mission.project_id],
+      })),
+  },
+  {
+    id: 'drone.maintenance_due',
+    subject: 'drone',
+    description: 'A service falls due before the mission is over with no window scheduled',
+    type: 'maintenance_due',
+    severity: 'warning',
+    check: ({ drone, mission }) => {
+      if (!maintenanceDueDuring(drone, mission)) return [];
+      const when = drone.maintenance_due < mission.start_date ? 'overdue before' : 'due during';
+      return [{
+        message: `Drone ${drone.model} (${drone.drone_id}) maintenance is ${when} ${mission.project_id} (due ${drone.maintenance_due}, mission ${formatSchedule(mission)}) with no service window scheduled`,
+        entities: [drone.drone_id, mission.project_id],
+      }];
+    },
+  },
+  {
+    id: 'drone.location',
+    subject: 'drone',
+    description: 'Drones are based where the mission flies',
+    type: 'location_mismatch',
+    severity: 'warning',
+    check: ({ drone, mission }) =>
+      sameLocation(drone.location, mission.location)
+        ? []
+        : [{
+          message: `Drone ${drone.model} (${drone.drone_id}) is in ${describeLocation(drone.location, mission.location)} but ${mission.project_id} is in ${mission.location}`,
+          entities: [drone.drone_id, mission.project_id],
+        }],
+  },
+  {
+    id: 'drone.transit',
+    subject: 'drone',
+    description: 'Consecutive missions in different places leave the drone time to travel',
+    type: 'insufficient_transit',
+    severity: 'error',
+    check: ({ drone, mission }, ctx) => {
+      const others = otherMissions(ctx, mission, (m) => m.assigned_drones.includes(drone.drone_id));
+      return transitShortfalls([...others, mission], mission.project_id)
+        .map((s) => transitFinding(`Drone ${drone.model} (${drone.drone_id})`, drone.drone_id, s));
+    },
+  },
+];
+
+// ---- EQUIPMENT RULES ----
+
+const EQUIPMENT_RULES: ConflictRule[] = [
+  {
+    id: 'equipment.archived',
+    subject: 'equipment',
+    description: 'Archived equipment has been retired',
+    type: 'archived_record',
+    severity: 'error',
+    check: ({ item, mission }) =>
+      item.archived_at
+        ? [{ message: `${item.type} ${item.name} (${item.equipment_id}) has been archived`, entities: [item.equipment_id, mission.project_id] }]
+        : [],
+  },
+  {
+    id: 'equipment.double_booking',
+    subject: 'equipment',
+    description: 'An item cannot be booked on missions whose schedules overlap',
+    type: 'double_booking_equipment',
+    severity: 'error',
+    check: ({ item, mission }, ctx) =>
+      doubleBookings(`${item.type} ${item.name} (${item.equipment_id})`, item.equipment_id, mission,
+        otherMissions(ctx, mission, (m) => (m.assigned_equipment || []).includes(item.equipment_id))),
+  },
+  {
+    id: 'equipment.condition',
+    subject: 'equipment',
+    description: 'Items in Maintenance cannot be booked',
+    type: 'maintenance_issue',
+    severity: 'error',
+    check: ({ item, mission }) =>
+      item.status === 'Maintenance'
+        ? [{
+          message: `${item.type} ${item.name} (${item.equipment_id}) is in maintenance but booked for ${mission.project_id}`,
+          entities: [item.equipment_id, mission.project_id],
+        }]
+        : [],
+  },
+  {
+    id: 'equipment.fit',
+    subject: 'equipment',
+    description: "Booked items fit one of the mission's drones",
+    type: 'equipment_incompatible',
+    severity: 'error',
+    check: ({ item, mission }, ctx) => {
+      const drones = missionDrones(mission, ctx.drones);
+      if (drones.length === 0 || drones.some((d) => fitsModel(item, d.model))) return [];
+      return [{
+        message: `${item.type} ${item.name} (${item.equipment_id}) does not fit drone ${drones.map((d) => `${d.model} (${d.drone_id})`).join(' or ')} on ${mission.project_id}; it fits ${item.compatible_models.join(', ')}`,
+        entities: [item.equipment_id, ...drones.map((d) => d.drone_id), mission.project_id],
+      }];
+    },
+  },
+  {
+    id: 'equipment.location',
+    subject: 'equipment',
+    description: 'Booked items are kept where the mission flies',
+    type: 'location_mismatch',
+    severity: 'warning',
+    check: ({ item, mission }) =>
+      sameLocation(item.location, mission.location)
+        ? []
+        : [{
+          message: `${item.type} ${item.name} (${item.equipment_id}) is in ${describeLocation(item.location, mission.location)} but ${mission.project_id} is in ${mission.location}`,
+          entities: [item.equipment_id, mission.project_id],
+        }],
+  },
+];
+
+// ---- MISSION RULES ----
+
+const MISSION_RULES: ConflictRule[] = [
+  {
+    id: 'mission.capabilities',
+    subject: 'mission',
+    description: "The mission's drones together cover the capabilities it needs",
+    type: 'capability_mismatch',
+    severity: 'error',
+    check: ({ mission }, ctx) => {
+      const drones = missionDrones(mission, ctx.drones);
+      if (drones.length === 0) return [];
+      const unmet = unmetRequirements(mission, drones);
+      if (unmet.length === 0) return [];
+      // Drones still to be assigned may supply what's missing
+      const full = drones.length >= dronesRequired(mission);
+      return [{
+        message: `${mission.project_id} needs ${unmet.map(describeRequirement).join(', ')}, which ${drones.map((d) => `${d.model} (${d.drone_id})`).join(' and ')} ${drones.length > 1 ? "don't" : "doesn't"} have${full ? '' : ' (more drones still to assign)'}`,
+        entities: [...drones.map((d) => d.drone_id), mission.project_id],
+        severity: full ? 'error' : 'warning',
+      }];
+    },
+  },
+];
+
+export const BUILTIN_RULES: ConflictRule[] = [...PILOT_RULES, ...DRONE_RULES, ...EQUIPMENT_RULES, ...MISSION_RULES];
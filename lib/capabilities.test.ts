@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { capabilityRequirements, unmetRequirements } from './capabilities';
+import type { Drone, Mission } from './types';
+
+function mission(overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: 'PRJ925', client: 'Client T', location: 'Pune',
+    required_skills: [], required_certs: [],
+    start_date: '2027-05-03', end_date: '2027-05-04', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+function drone(capabilities: string[]): Drone {
+  return {
+    drone_id: 'D925', model: 'Test', capabilities, status: 'Available',
+    location: 'Pune', current_assignment: '', maintenance_due: '2027-12-01',
+  };
+}
+
+describe('capabilityRequirements', () => {
+  it('combines listed capabilities with those the skills imply', () => {
+    expect(capabilityRequirements(mission({ required_capabilities: ['Zoom'], required_skills: ['Mapping'] }))).toEqual([
+      { accepts: ['Zoom'], source: 'required' },
+      { accepts: ['LiDAR', 'RGB'], source: 'Mapping' },
+    ]);
+  });
+
+  it('drops a skill requirement already covered by a listed capability', () => {
+    expect(capabilityRequirements(mission({ required_capabilities: ['thermal'], required_skills: ['Thermal'] }))).toEqual([
+      { accepts: ['thermal'], source: 'required' },
+    ]);
+  });
+});
+
+describe('unmetRequirements', () => {
+  it('is satisfied by any accepted capability on any of the drones', () => {
+    const survey = mission({ required_skills: ['Mapping', 'Thermal'] });
+    expect(unmetRequirements(survey, [drone(['RGB']), drone(['Thermal'])])).toEqual([]);
+    expect(unmetRequirements(survey, [drone(['RGB'])]).map((r) => r.source)).toEqual(['Thermal']);
+  });
+});
@@ -0,0 +1,84 @@
+// ============================================
+// Drone Capability Requirements
+// ============================================
+// A mission needs drone capabilities from two places: the capabilities it
+// lists explicitly (`required_capabilities`), and the capabilities its
+// required skills imply. Each requirement is a list of acceptable
+// capabilities in order of preference, e.g. Mapping -> LiDAR, else RGB.
+//
+// The skill mapping can be overridden with a JSON file (CAPABILITY_MAP_FILE,
+// or capability-map.json in the working directory), e.g.
+//   { "Inspection": ["Zoom", "RGB"], "Mapping": ["LiDAR"] }
+// An empty list means the skill implies no drone capability.
+
+import { z } from 'zod';
+import type { Drone, Mission } from './types';
+import { loadConfigFile } from './configFile';
+
+const DEFAULT_SKILL_CAPABILITIES: Record<string, string[]> = {
+  Thermal: ['Thermal'],
+  Mapping: ['LiDAR', 'RGB'],
+  Survey: ['LiDAR', 'RGB'],
+};
+
+const CapabilityMapSchema = z.record(z.array(z.string()));
+
+let cachedMap: Record<string, string[]> | null = null;
+
+export function getSkillCapabilities(): Record<string, string[]> {
+  if (cachedMap) return cachedMap;
+
+  const overrides = loadConfigFile('Capability map', 'CAPABILITY_MAP_FILE', 'capability-map.json', CapabilityMapSchema);
+  cachedMap = { ...DEFAULT_SKILL_CAPABILITIES, ...overrides };
+  return cachedMap;
+}
+
+// ---- REQUIREMENTS ----
+
+// One capability requirement: any of `accepts` will do, the first preferred
+export interface CapabilityRequirement {
+  accepts: string[];
+  source: string; // "required" or the skill that implies it
+}
+
+function same(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function capabilityRequirements(mission: Mission): CapabilityRequirement[] {
+  const requirements: CapabilityRequirement[] = (mission.required_capabilities || []).map((c) => ({
+    accepts: [c],
+    source: 'required',
+  }));
+
+  const map = getSkillCapabilities();
+  for (const skill of mission.required_skills) {
+    const key = Object.keys(map).find((k) => same(k, skill));
+    const accepts = key ? map[key] : [];
+    if (accepts.length === 0) continue;
+    // An explicit requirement already covering one of these makes it redundant
+    if (requirements.some((r) => r.accepts.every((c) => accepts.some((a) => same(a, c))))) continue;
+    requirements.push({ accepts, source: skill });
+  }
+  return requirements;
+}
+
+export function describeRequirement(requirement: CapabilityRequirement): string {
+  const accepts = requirement.accepts.join(' or ');
+  return requirement.source === 'required' ? accepts : `${accepts} (for ${requirement.source})`;
+}
+
+// ---- DRONE FIT ----
+
+export function hasCapability(drone: Drone, capability: string): boolean {
+  return drone.capabilities.some((c) => same(c, capability));
+}
+
+export function meetsRequirement(drones: Drone[], requirement: CapabilityRequirement): boolean {
+  return drones.some((d) => requirement.accepts.some((c) => hasCapability(d, c)));
+}
+
+// Requirements none of the drones meet
+export function unmetRequirements(mission: Mission, drones: Drone[]): CapabilityRequirement[] {
+  return capabilityRequirements(mission).filter((r) => !meetsRequirement(drones, r));
+}
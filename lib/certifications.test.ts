@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { classesNotCovering, formatCertifications, parseCertifications } from './certifications';
+import { PilotSchema } from './schemas';
+import type { Pilot } from './types';
+
+function pilot(cell: string): Pilot {
+  return {
+    pilot_id: 'P961', name: 'Kiran', skills: [], certifications: parseCertifications(cell), location: 'Pune',
+    status: 'Available', current_assignment: '', available_from: '2026-01-01',
+  };
+}
+
+describe('parseCertifications', () => {
+  it('reads known details and keeps the rest as a note', () => {
+    expect(parseCertifications('DGCA (Remote Pilot), Night Ops (no. NO-7; refresher due)')).toEqual([
+      { type: 'DGCA', note: 'Remote Pilot' },
+      { type: 'Night Ops', number: 'NO-7', note: 'refresher due' },
+    ]);
+  });
+
+  it('accepts a certificate with a note', () => {
+    expect(PilotSchema.safeParse(pilot('DGCA (Remote Pilot)')).success).toBe(true);
+  });
+
+  it('writes the cell back as it was read', () => {
+    const cell = 'DGCA (no. RPC-0412; expires 2027-01-09; class Small; Remote Pilot), Night Ops';
+    expect(formatCertifications(parseCertifications(cell))).toBe(cell);
+  });
+
+  it('still rejects entries it cannot split into a name and details', () => {
+    expect(PilotSchema.safeParse(pilot('DGCA (Small) extra')).success).toBe(false);
+  });
+});
+
+describe('classesNotCovering', () => {
+  it('reports certificates limited to other classes', () => {
+    expect(classesNotCovering(pilot('DGCA (class Small)'), ['DGCA'], 'Medium')).toEqual([{ type: 'DGCA', category: 'Small' }]);
+    expect(classesNotCovering(pilot('DGCA (class Small)'), ['DGCA'], 'small')).toEqual([]);
+  });
+
+  it('treats a certificate without a class as covering any category', () => {
+    expect(classesNotCovering(pilot('DGCA (class Small), DGCA (no. 2)'), ['DGCA'], 'Medium')).toEqual([]);
+    expect(classesNotCovering(pilot('Night Ops'), ['DGCA'], 'Medium')).toEqual([]);
+  });
+});
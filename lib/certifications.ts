@@ -0,0 +1,199 @@
+// ============================================
+// Certifications - Pilot Certificates and Their Expiry
+// ============================================
+// Certificates live in the roster's certifications cell, comma-separated as
+// before. Details go in parentheses as semicolon-separated `key value` pairs:
+//
+//   DGCA (no. RPC-0412; issuer DGCA; issued 2025-01-10; expires 2027-01-09; class Small), Night Ops
+//
+// A bare name is a certificate with no recorded details, so existing rosters
+// read unchanged. Details that aren't one of these keys, e.g. the
+// "Remote Pilot" in `DGCA (Remote Pilot)`, are kept as a note and written back
+// as they were. A certificate without an expiry date never lapses; one is
+// valid up to and including its expiry date. A class limits the drone
+// categories it covers; without one it covers any.
+
+import type { Certification, Mission, Pilot } from './types';
+import { requirementsFor } from './crew';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---- CELL FORMAT ----
+
+// Checked in order: "issued by" before "issued"
+const DETAIL_KEYS: Array<[RegExp, keyof Certification]> = [
+  [/^(?:no\.|no(?=[\s:])|number|#)\s*:?\s*/i, 'number'],
+  [/^(?:issuer|issued by)\s*:?\s*/i, 'issuer'],
+  [/^issued(?: on)?\s*:?\s*/i, 'issued_date'],
+  [/^(?:expires|expiry|valid until)\s*:?\s*/i, 'expiry_date'],
+  [/^(?:class|category)\s*:?\s*/i, 'category'],
+];
+
+// Split on commas outside parentheses
+function splitEntries(raw: string): string[] {
+  const entries: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of raw) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+  return entries.map((e) => e.trim()).filter(Boolean);
+}
+
+function parseEntry(entry: string): Certification {
+  const match = entry.match(/^([^()]+?)\s*(?:\((.*)\))?$/);
+  if (!match) return { type: entry };
+
+  const cert: Certification = { type: match[1].trim() };
+  const notes: string[] = [];
+  for (const detail of (match[2] || '').split(';').map((d) => d.trim()).filter(Boolean)) {
+    const key = DETAIL_KEYS.find(([pattern]) => pattern.test(detail));
+    if (key) cert[key[1]] = detail.replace(key[0], '').trim();
+    else notes.push(detail);
+  }
+  if (notes.length > 0) cert.note = notes.join('; ');
+  return cert;
+}
+
+// Entries that aren't `name (details)` are kept whole as the type, which the
+// schema rejects, so they are reported instead of silently losing details
+export function parseCertifications(raw: string): Certification[] {
+  if (!raw || raw === '–' || raw === '-') return [];
+  return splitEntries(raw).map(parseEntry);
+}
+
+function formatCertification(cert: Certification): string {
+  const details = [
+    cert.number && `no. ${cert.number}`,
+    cert.issuer && `issuer ${cert.issuer}`,
+    cert.issued_date && `issued ${cert.issued_date}`,
+    cert.expiry_date && `expires ${cert.expiry_date}`,
+    cert.category && `class ${cert.category}`,
+    cert.note,
+  ].filter(Boolean);
+  return details.length > 0 ? `${cert.type} (${details.join('; ')})` : cert.type;
+}
+
+export function formatCertifications(certs: Certification[]): string {
+  return certs.map(formatCertification).join(', ');
+}
+
+// "DGCA no. RPC-0412", for messages
+export function describeCertification(cert: Certification): string {
+  return cert.number ? `${cert.type} no. ${cert.number}` : cert.type;
+}
+
+// ---- HOLDINGS ----
+
+export function certificationTypes(pilot: Pilot): string[] {
+  return pilot.certifications.map((c) => c.type);
+}
+
+function recordsOf(pilot: Pilot, type: string): Certification[] {
+  return pilot.certifications.filter((c) => c.type.toLowerCase() === type.toLowerCase());
+}
+
+// The record of a type that stays valid longest (a renewal supersedes the
+// certificate it replaces); undefined when the pilot holds none
+function latestOf(records: Certification[]): Certification | undefined {
+  return [...records].sort((a, b) => (b.expiry_date || '9999-12-31').localeCompare(a.expiry_date || '9999-12-31'))[0];
+}
+
+// Certificates among `types` that the pilot holds but that all lapse before
+// `endDate`, as the longest-valid record of each
+export function lapsedBefore(pilot: Pilot, types: string[], endDate: string): Certification[] {
+  return types.flatMap((type) => {
+    const latest = latestOf(recordsOf(pilot, type));
+    return latest?.expiry_date && latest.expiry_date < endDate ? [latest] : [];
+  });
+}
+
+// Certificates among `types` that the pilot holds but that are all limited to
+// classes other than the drone's category. A type the pilot doesn't hold is
+// left to the certifications check.
+export function classesNotCovering(pilot: Pilot, types: string[], category: string): Certification[] {
+  return types.flatMap((type) => {
+    const records = recordsOf(pilot, type);
+    const covered = records.some((c) => !c.category || c.category.toLowerCase() === category.toLowerCase());
+    return records.length > 0 && !covered ? records : [];
+  });
+}
+
+// ---- EXPIRY REPORT ----
+
+export interface CertificationExpiry {
+  pilot_id: string;
+  pilot_name: string;
+  certification: Certification;
+  expiry_date: string;
+  days_left: number; // negative once lapsed
+  status: 'expired' | 'expiring';
+  affected_missions: string[]; // open missions needing it that end after it lapses
+}
+
+function daysFrom(today: string, date: string): number {
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+// Certificates that have lapsed or lapse within `withinDays` of today, soonest
+// first. Records superseded by a renewal are left out.
+export function certificationExpiries(
+  pilots: Pilot[],
+  missions: Mission[],
+  today: string,
+  withinDays: number
+): CertificationExpiry[] {
+  const open = missions.filter(
+    (m) => !m.archived_at && (m.mission_status === 'Active' || m.mission_status === 'Planned')
+  );
+  const expiries: CertificationExpiry[] = [];
+
+  for (const pilot of pilots.filter((p) => !p.archived_at)) {
+    const types = [...new Set(pilot.certifications.map((c) => c.type.toLowerCase()))];
+    for (const type of types) {
+      const cert = latestOf(recordsOf(pilot, type))!;
+      if (!cert.expiry_date) continue;
+      const daysLeft = daysFrom(today, cert.expiry_date);
+      if (daysLeft > withinDays) continue;
+
+      const affected = open.filter((m) =>
+        m.end_date > cert.expiry_date! &&
+        m.crew.some((c) =>
+          c.pilot_id === pilot.pilot_id &&
+          requirementsFor(m, c.role).certs.some((r) => r.toLowerCase() === type)
+        )
+      );
+      expiries.push({
+        pilot_id: pilot.pilot_id,
+        pilot_name: pilot.name,
+        certification: cert,
+        expiry_date: cert.expiry_date,
+        days_left: daysLeft,
+        status: daysLeft < 0 ? 'expired' : 'expiring',
+        affected_missions: affected.map((m) => m.project_id),
+      });
+    }
+  }
+  return expiries.sort((a, b) => a.expiry_date.localeCompare(b.expiry_date) || a.pilot_id.localeCompare(b.pilot_id));
+}
+
+// ---- MIGRATION ----
+
+// Pilots stored before certificates had details list them as plain names.
+// Takes stored pilots and logged pilot changes alike.
+interface LegacyCertificationFields {
+  certifications?: unknown;
+}
+
+export function migrateLegacyCertifications(record: LegacyCertificationFields): void {
+  if (!Array.isArray(record.certifications)) return;
+  record.certifications = record.certifications.map((c) => (typeof c === 'string' ? { type: c } : c));
+}
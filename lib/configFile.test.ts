@@ -0,0 +1,56 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { loadConfigFile } from './configFile';
+
+const Schema = z.record(
+  z.object({ enabled: z.boolean().optional(), severity: z.enum(['error', 'warning']).optional() }).strict()
+);
+
+describe('loadConfigFile', () => {
+  let file: string;
+  let errors: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    file = path.join(mkdtempSync(path.join(tmpdir(), 'config-file-')), 'rules.json');
+    process.env.TEST_CONFIG_FILE = file;
+    errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_CONFIG_FILE;
+    errors.mockRestore();
+  });
+
+  const load = () => loadConfigFile('Test config', 'TEST_CONFIG_FILE', 'test-config.json', Schema);
+
+  it('returns the parsed file when it is valid', () => {
+    writeFileSync(file, JSON.stringify({ 'pilot.on_leave': { severity: 'warning' } }));
+    expect(load()).toEqual({ 'pilot.on_leave': { severity: 'warning' } });
+    expect(errors).not.toHaveBeenCalled();
+  });
+
+  it('uses defaults for a missing file', () => {
+    expect(load()).toBeNull();
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('not found'));
+  });
+
+  it('uses defaults for a file holding null', () => {
+    writeFileSync(file, 'null');
+    expect(load()).toBeNull();
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('is invalid'));
+  });
+
+  it('uses defaults when a value has the wrong type', () => {
+    writeFileSync(file, JSON.stringify({ 'pilot.on_leave': { severity: 'fatal' } }));
+    expect(load()).toBeNull();
+  });
+
+  it('reports and drops unknown keys', () => {
+    writeFileSync(file, JSON.stringify({ 'pilot.on_leave': { enabled: false, severty: 'warning' } }));
+    expect(load()).toEqual({ 'pilot.on_leave': { enabled: false } });
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('unknown key pilot.on_leave.severty'));
+  });
+});
@@ -0,0 +1,65 @@
+// ============================================
+// Config Files - Optional JSON Overrides
+// ============================================
+// Deployment overrides (scoring policy, capability map, conflict rules, sheet
+// mapping) are JSON files named by an environment variable, or found in the
+// working directory. Each is checked against a schema: keys the schema
+// doesn't know are reported and ignored, and a file that is missing,
+// unreadable or otherwise invalid leaves the defaults in place.
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { z } from 'zod';
+import { formatZodIssues } from './schemas';
+
+// The object at `keyPath` inside a parsed JSON value
+function objectAt(value: unknown, keyPath: Array<string | number>): Record<string, unknown> | null {
+  let current = value;
+  for (const key of keyPath) {
+    if (!current || typeof current !== 'object') return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === 'object' ? (current as Record<string, unknown>) : null;
+}
+
+// null when there is no usable file. `label` names the file in log messages,
+// e.g. "Scoring policy".
+export function loadConfigFile<T>(
+  label: string,
+  envVar: string,
+  fileName: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): T | null {
+  const file = process.env[envVar] || path.resolve(process.cwd(), fileName);
+  if (!existsSync(file)) {
+    if (process.env[envVar]) console.error(`${label} file ${file} not found, using defaults`);
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`Failed to read ${label.toLowerCase()} file ${file}, using defaults:`, error);
+    return null;
+  }
+
+  let parsed = schema.safeParse(raw);
+  const unknownKeys = parsed.success ? [] : parsed.error.issues.flatMap((i) => (i.code === 'unrecognized_keys' ? [i] : []));
+  if (!parsed.success && unknownKeys.length === parsed.error.issues.length) {
+    for (const issue of unknownKeys) {
+      const owner = objectAt(raw, issue.path);
+      for (const key of issue.keys) {
+        console.error(`${label} file ${file} has unknown key ${[...issue.path, key].join('.')}; ignoring it`);
+        if (owner) delete owner[key];
+      }
+    }
+    parsed = schema.safeParse(raw);
+  }
+  if (!parsed.success) {
+    const issues = formatZodIssues(parsed.error).map((i) => `${i.path || '(file)'}: ${i.message}`);
+    console.error(`${label} file ${file} is invalid, using defaults: ${issues.join('; ')}`);
+    return null;
+  }
+  return parsed.data;
+}
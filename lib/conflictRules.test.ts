@@ -0,0 +1,114 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { evaluateMissions, registerConflictRule, type RuleContext } from './conflictRules';
+import type { Drone, Mission, Pilot } from './types';
+
+function mission(id: string, overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Pune',
+    required_skills: [], required_certs: [],
+    start_date: '2027-06-01', end_date: '2027-06-02', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+const drone: Drone = {
+  drone_id: 'D951', model: 'Test Quad', capabilities: ['RGB'], status: 'Available',
+  location: 'Pune', current_assignment: '', maintenance_due: '2028-01-01',
+};
+
+const empty: RuleContext = { pilots: [], drones: [], equipment: [], missions: [] };
+
+beforeAll(() => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), 'conflict-rules-')), 'conflict-rules.json');
+  writeFileSync(file, JSON.stringify({
+    'test.raised': { severity: 'error' },
+    'test.lowered': { severity: 'warning' },
+    'test.disabled': { enabled: false },
+  }));
+  process.env.CONFLICT_RULES_FILE = file;
+
+  registerConflictRule({
+    id: 'test.shared', subject: 'mission', description: 'One finding seen from every mission',
+    type: 'skill_mismatch', severity: 'warning',
+    check: ({ mission }) => [
+      { message: `Seen from ${mission.project_id}`, entities: [mission.project_id], key: 'shared' },
+      { message: 'Same message everywhere', entities: [mission.project_id] },
+    ],
+  });
+  registerConflictRule({
+    id: 'test.raised', subject: 'mission', description: 'Raised to an error by the deployment',
+    type: 'skill_mismatch', severity: 'warning',
+    check: ({ mission }) => [
+      { message: `${mission.project_id} ungraded`, entities: [] },
+      { message: `${mission.project_id} provisional`, entities: [], severity: 'warning' },
+    ],
+  });
+  registerConflictRule({
+    id: 'test.lowered', subject: 'mission', description: 'Lowered to a warning by the deployment',
+    type: 'skill_mismatch', severity: 'error',
+    check: ({ mission }) => [{ message: `${mission.project_id} graded`, entities: [], severity: 'error' }],
+  });
+  registerConflictRule({
+    id: 'test.disabled', subject: 'mission', description: 'Switched off by the deployment',
+    type: 'skill_mismatch', severity: 'error',
+    check: ({ mission }) => [{ message: `${mission.project_id} never reported`, entities: [] }],
+  });
+});
+
+describe('evaluateMissions', () => {
+  it('reports a finding seen from several missions once', () => {
+    const found = evaluateMissions([mission('PRJ951'), mission('PRJ952')], empty).filter((c) => c.rule === 'test.shared');
+    expect(found.map((c) => [c.message, c.mission_id])).toEqual([
+      ['Seen from PRJ951', 'PRJ951'],
+      ['Same message everywhere', 'PRJ951'],
+    ]);
+  });
+
+  it('lets a deployment setting replace the rule severity but not a finding grade', () => {
+    const found = evaluateMissions([mission('PRJ953')], empty).filter((c) => c.rule === 'test.raised');
+    expect(found.map((c) => [c.message, c.severity])).toEqual([
+      ['PRJ953 ungraded', 'error'],
+      ['PRJ953 provisional', 'warning'],
+    ]);
+  });
+
+  it('turns graded findings down with the rule', () => {
+    const found = evaluateMissions([mission('PRJ954')], empty).filter((c) => c.rule === 'test.lowered');
+    expect(found.map((c) => c.severity)).toEqual(['warning']);
+  });
+
+  it('skips disabled rules', () => {
+    expect(evaluateMissions([mission('PRJ955')], empty).some((c) => c.rule === 'test.disabled')).toBe(false);
+  });
+
+  it('grades missing capabilities by whether more drones are still to come', () => {
+    const ctx = { ...empty, drones: [drone] };
+    const severityWith = (drones_required: number) =>
+      evaluateMissions(
+        [mission('PRJ956', { required_capabilities: ['Thermal'], assigned_drones: ['D951'], drones_required })],
+        ctx
+      ).find((c) => c.rule === 'mission.capabilities')?.severity;
+
+    expect(severityWith(2)).toBe('warning');
+    expect(severityWith(1)).toBe('error');
+  });
+
+  it("flags a PIC whose certificate class doesn't cover the drone", () => {
+    const pic: Pilot = {
+      pilot_id: 'P951', name: 'Kiran', skills: [], certifications: [{ type: 'DGCA', category: 'Small' }],
+      location: 'Pune', status: 'Available', current_assignment: '', available_from: '2026-01-01',
+    };
+    const found = (category: string) =>
+      evaluateMissions(
+        [mission('PRJ957', { required_certs: ['DGCA'], crew: [{ pilot_id: 'P951', role: 'PIC' }], assigned_drones: ['D951'] })],
+        { ...empty, pilots: [pic], drones: [{ ...drone, category }] }
+      ).filter((c) => c.rule === 'pilot.certification_class');
+
+    expect(found('Medium').map((c) => c.entities)).toEqual([['P951', 'D951', 'PRJ957']]);
+    expect(found('Small')).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+// ============================================
+// Conflict Rule Engine
+// ============================================
+// Every conflict check is a rule: an id, the part of a mission it looks at
+// (each crew member, each drone, each booked item, or the mission itself), a
+// default severity and a check function returning findings. The full scan
+// and the per-assignment validators both evaluate missions through here, so
+// each check is written once.
+//
+// Rules can be switched off or given another severity per deployment with a
+// JSON file (CONFLICT_RULES_FILE, or conflict-rules.json in the working
+// directory), keyed by rule id, e.g.
+//   { "drone.maintenance_due": { "enabled": false }, "pilot.location": { "severity": "error" } }
+//
+// Built-in rules are in lib/builtinRules.ts. Team-specific rules go in
+// lib/customRules.ts, or can be added at startup with registerConflictRule().
+
+import { z } from 'zod';
+import type {
+  Pilot,
+  Drone,
+  Equipment,
+  Mission,
+  Conflict,
+  ConflictType,
+  ConflictSeverity,
+  CrewRole,
+} from './types';
+import { crewMembers, missionDrones } from './crew';
+import { BUILTIN_RULES } from './builtinRules';
+import { CUSTOM_RULES } from './customRules';
+import { loadConfigFile } from './configFile';
+
+// What rules see: the roster, fleet and inventory, and the open missions
+// (with any proposed assignment already applied)
+export interface RuleContext {
+  pilots: Pilot[];
+  drones: Drone[];
+  equipment: Equipment[];
+  missions: Mission[];
+}
+
+export interface PilotTarget {
+  pilot: Pilot;
+  role: CrewRole;
+  mission: Mission;
+}
+
+export interface DroneTarget {
+  drone: Drone;
+  mission: Mission;
+}
+
+export interface EquipmentTarget {
+  item: Equipment;
+  mission: Mission;
+}
+
+export interface MissionTarget {
+  mission: Mission;
+}
+
+export interface RuleFinding {
+  message: string;
+  entities: string[];
+  severity?: ConflictSeverity; // grades this finding; defaults to the rule's severity
+  mission_id?: string; // defaults to the mission being evaluated
+  key?: string; // findings of one rule with the same key are reported once (default: the message)
+}
+
+interface RuleInfo {
+  id: string; // "<subject>.<check>", e.g. "pilot.double_booking"
+  description: string;
+  type: ConflictType;
+  severity: ConflictSeverity;
+}
+
+export type ConflictRule = RuleInfo &
+  (
+    | { subject: 'pilot'; check: (target: PilotTarget, ctx: RuleContext) => RuleFinding[] }
+    | { subject: 'drone'; check: (target: DroneTarget, ctx: RuleContext) => RuleFinding[] }
+    | { subject: 'equipment'; check: (target: EquipmentTarget, ctx: RuleContext) => RuleFinding[] }
+    | { subject: 'mission'; check: (target: MissionTarget, ctx: RuleContext) => RuleFinding[] }
+  );
+
+// ---- REGISTRY ----
+
+const registry: ConflictRule[] = [];
+let initialized = false;
+
+function rules(): ConflictRule[] {
+  if (!initialized) {
+    initialized = true;
+    for (const rule of [...BUILTIN_RULES, ...CUSTOM_RULES]) registerConflictRule(rule);
+  }
+  return registry;
+}
+
+export function registerConflictRule(rule: ConflictRule): void {
+  if (rules().some((r) => r.id === rule.id)) {
+    throw new Error(`Conflict rule ${rule.id} is already registered`);
+  }
+  registry.push(rule);
+}
+
+// ---- DEPLOYMENT SETTINGS ----
+
+const RuleSettingsSchema = z.record(
+  z.object({ enabled: z.boolean().optional(), severity: z.enum(['error', 'warning']).optional() }).strict()
+);
+
+type RuleSetting = z.infer<typeof RuleSettingsSchema>[string];
+
+let cachedSettings: Record<string, RuleSetting> | null = null;
+
+function settingsFor(id: string): RuleSetting {
+  if (!cachedSettings) {
+    cachedSettings = loadConfigFile('Conflict rules', 'CONFLICT_RULES_FILE', 'conflict-rules.json', RuleSettingsSchema) || {};
+    for (const unknown of Object.keys(cachedSettings).filter((k) => !rules().some((r) => r.id === k))) {
+      console.error(`Conflict rules file names unknown rule ${unknown}; ignoring it`);
+    }
+  }
+  const setting = cachedSettings[id] || {};
+  return {
+    enabled: setting.enabled !== false,
+    severity: setting.severity,
+  };
+}
+
+// Registered rules with their effective settings
+export function listConflictRules(): Array<RuleInfo & { subject: ConflictRule['subject']; enabled: boolean }> {
+  return rules().map((rule) => {
+    const setting = settingsFor(rule.id);
+    return {
+      id: rule.id,
+      description: rule.description,
+      subject: rule.subject,
+      type: rule.type,
+      severity: setting.severity || rule.severity,
+      enabled: setting.enabled!,
+    };
+  });
+}
+
+// ---- EVALUATION ----
+
+// A deployment setting replaces the rule's default severity. A finding that
+// grades itself (a provisional problem reported as a warning) keeps its grade,
+// unless the deployment has turned the whole rule down to a warning.
+function severityOf(rule: ConflictRule, setting: RuleSetting, finding: RuleFinding): ConflictSeverity {
+  if (!finding.severity) return setting.severity || rule.severity;
+  return setting.severity === 'warning' ? 'warning' : finding.severity;
+}
+
+function findingsFor(rule: ConflictRule, mission: Mission, ctx: RuleContext): RuleFinding[] {
+  switch (rule.subject) {
+    case 'pilot':
+      return crewMembers(mission, ctx.pilots).flatMap(({ pilot, role }) => rule.check({ pilot, role, mission }, ctx));
+    case 'drone':
+      return missionDrones(mission, ctx.drones).flatMap((drone) => rule.check({ drone, mission }, ctx));
+    case 'equipment':
+      return (mission.assigned_equipment || []).flatMap((id) => {
+        const item = ctx.equipment.find((e) => e.equipment_id === id);
+        return item ? rule.check({ item, mission }, ctx) : [];
+      });
+    case 'mission':
+      return rule.check({ mission }, ctx);
+  }
+}
+
+// Run every enabled rule over the missions. Findings are grouped by rule; one
+// seen from both sides (a double-booking between two of the missions) is
+// reported once.
+export function evaluateMissions(missions: Mission[], ctx: RuleContext): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules()) {
+    const setting = settingsFor(rule.id);
+    if (!setting.enabled) continue;
+
+    for (const mission of missions) {
+      for (const finding of findingsFor(rule, mission, ctx)) {
+        const key = `${rule.id}|${finding.key ?? finding.message}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        conflicts.push({
+          type: rule.type,
+          severity: severityOf(rule, setting, finding),
+          message: finding.message,
+          entities: finding.entities,
+          mission_id: finding.mission_id || mission.project_id,
+          rule: rule.id,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { validateSchedule, validateDroneAssignment, validateEquipmentAssignment, validatePilotAssignment } from './conflicts';
+import { assignPilotToMission } from './assignments';
+import { archiveEquipment, createMission, getMissionById } from './dataStore';
+import type { Mission, MutationContext } from './types';
+
+const context: MutationContext = { source: 'api', actor: 'test' };
+
+function mission(id: string, overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Bangalore',
+    required_skills: ['Mapping'], required_certs: ['DGCA'],
+    start_date: '2027-05-03', end_date: '2027-05-04', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+beforeAll(() => {
+  process.env.DATA_SOURCE = 'none';
+});
+
+describe('validateSchedule', () => {
+  it('finds the double-booking a new schedule would create', async () => {
+    await createMission(mission('PRJ921'), context);
+    await createMission(mission('PRJ922', { start_date: '2027-05-10', end_date: '2027-05-11' }), context);
+    await assignPilotToMission('P001', 'PRJ921', context);
+    await assignPilotToMission('P001', 'PRJ922', context);
+
+    const moved = { ...(await getMissionById('PRJ922'))!, start_date: '2027-05-04', end_date: '2027-05-05' };
+    const result = await validateSchedule(moved);
+
+    expect(result.valid).toBe(false);
+    expect(result.conflicts.map((c) => c.type)).toContain('double_booking_pilot');
+  });
+
+  it('accepts a move to free days', async () => {
+    const mission = (await getMissionById('PRJ922'))!;
+    expect((await validateSchedule({ ...mission, start_date: '2027-05-20', end_date: '2027-05-21' })).valid).toBe(true);
+  });
+});
+
+describe('missing and archived records', () => {
+  it('reports unknown IDs as record_not_found', async () => {
+    await createMission(mission('PRJ923'), context);
+
+    const results = await Promise.all([
+      validatePilotAssignment('P999', 'PRJ923'),
+      validateDroneAssignment('D999', 'PRJ923'),
+      validateEquipmentAssignment('E999', 'PRJ923'),
+      validateDroneAssignment('D001', 'PRJ999'),
+    ]);
+
+    expect(results.map((r) => r.conflicts.map((c) => c.type))).toEqual(Array(4).fill(['record_not_found']));
+  });
+
+  it('reports archived equipment as archived_record', async () => {
+    await archiveEquipment('E007', context);
+
+    const result = await validateEquipmentAssignment('E007', 'PRJ923');
+
+    expect(result.valid).toBe(false);
+    expect(result.conflicts.map((c) => c.type)).toContain('archived_record');
+  });
+});
+
+describe('drone capabilities', () => {
+  it('flags a drone without the capability the mission needs', async () => {
+    await createMission(mission('PRJ924', { required_skills: ['Thermal'], start_date: '2027-05-20', end_date: '2027-05-21' }), context);
+
+    const [rgbOnly, thermal] = await Promise.all([
+      validateDroneAssignment('D005', 'PRJ924'),
+      validateDroneAssignment('D003', 'PRJ924'),
+    ]);
+
+    expect(rgbOnly.conflicts.map((c) => c.type)).toContain('capability_mismatch');
+    expect(thermal.conflicts.map((c) => c.type)).not.toContain('capability_mismatch');
+  });
+});
@@ -1,537 +1,342 @@
 // ============================================
 // Conflict Detection Engine
 // ============================================
-
-import type { Pilot, Drone, Mission, Conflict } from './types';
-import { getPilots, getDrones, getMissions, getPilotById, getDroneById } from './dataStore';
-
-// Check if two date ranges overlap
-function datesOverlap(
-  start1: string, end1: string,
-  start2: string, end2: string
-): boolean {
-  const s1 = new Date(start1);
-  const e1 = new Date(end1);
-  const s2 = new Date(start2);
-  const e2 = new Date(end2);
-  return s1 <= e2 && s2 <= e1;
-}
-
-// Check if a pilot has all required certifications
-function hasCertifications(pilot: Pilot, requiredCerts: string[]): boolean {
-  return requiredCerts.every((cert) =>
-    pilot.certifications.some((pc) => pc.toLowerCase() === cert.toLowerCase())
-  );
+// The checks themselves are rules (lib/builtinRules.ts, lib/customRules.ts)
+// run by the rule engine (lib/conflictRules.ts). A full scan evaluates every
+// open mission; validating an assignment evaluates the mission as it would be
+// with the assignment made and keeps the conflicts involving the candidate.
+
+import type { Pilot, Drone, Mission, Conflict, CrewRole } from './types';
+import { getPilots, getDrones, getMissions, getEquipment } from './dataStore';
+import { missionsOverlap } from './scheduling';
+import { calendarClashes } from './availability';
+import { windowsBetween, maintenanceDueDuring } from './maintenance';
+import { describeDateBlock } from './dateBlocks';
+import { crewIds, requirementsFor, roleOf } from './crew';
+import { capabilityRequirements, describeRequirement, hasCapability } from './capabilities';
+import { certificationTypes, lapsedBefore, describeCertification } from './certifications';
+import { estimateTravel, distanceBand, sameLocation, describeTravel, transitShortfalls } from './travel';
+import { evaluateMissions } from './conflictRules';
+import type { RuleContext } from './conflictRules';
+import { getScoringPolicy, rulesFor, scoreFactor, summarizeScore, compareMatches } from './scoringPolicy';
+import type { ScoreComponent, MatchRules } from './scoringPolicy';
+
+function isOpen(m: Mission): boolean {
+  return m.mission_status === 'Active' || m.mission_status === 'Planned';
 }
 
-// Check if a pilot has at least one required skill
-function hasSkills(pilot: Pilot, requiredSkills: string[]): boolean {
-  return requiredSkills.every((skill) =>
-    pilot.skills.some((ps) => ps.toLowerCase() === skill.toLowerCase())
-  );
+// Everything the rules look at. Archived records are included so a mission
+// still holding one is flagged.
+export async function loadRuleContext(): Promise<RuleContext> {
+  return {
+    pilots: await getPilots({ include_archived: true }),
+    drones: await getDrones({ include_archived: true }),
+    equipment: await getEquipment({ include_archived: true }),
+    missions: (await getMissions()).filter(isOpen),
+  };
 }
 
 // ---- CONFLICT DETECTION ----
 
 export async function detectAllConflicts(): Promise<Conflict[]> {
-  const conflicts: Conflict[] = [];
-  const allPilots = await getPilots();
-  const allDrones = await getDrones();
-  const allMissions = await getMissions();
-
-  const activeMissions = allMissions.filter(
-    (m) => m.mission_status === 'Active' || m.mission_status === 'Planned'
-  );
-
-  // 1. Double-booking detection for pilots
-  for (let i = 0; i < activeMissions.length; i++) {
-    for (let j = i + 1; j < activeMissions.length; j++) {
-      const m1 = activeMissions[i];
-      const m2 = activeMissions[j];
-
-      if (
-        m1.assigned_pilot &&
-        m1.assigned_pilot === m2.assigned_pilot &&
-        datesOverlap(m1.start_date, m1.end_date, m2.start_date, m2.end_date)
-      ) {
-        const pilot = allPilots.find((p) => p.pilot_id === m1.assigned_pilot);
-        conflicts.push({
-          type: 'double_booking_pilot',
-          severity: 'error',
-          message: `Pilot ${pilot?.name || m1.assigned_pilot} (${m1.assigned_pilot}) is double-booked: ${m1.project_id} (${m1.start_date} to ${m1.end_date}) overlaps with ${m2.project_id} (${m2.start_date} to ${m2.end_date})`,
-          entities: [m1.assigned_pilot, m1.project_id, m2.project_id],
-          mission_id: m1.project_id,
-        });
-      }
-    }
-  }
-
-  // 2. Double-booking detection for drones
-  for (let i = 0; i < activeMissions.length; i++) {
-    for (let j = i + 1; j < activeMissions.length; j++) {
-      const m1 = activeMissions[i];
-      const m2 = activeMissions[j];
-
-      if (
-        m1.assigned_drone &&
-        m1.assigned_drone === m2.assigned_drone &&
-        datesOverlap(m1.start_date, m1.end_date, m2.start_date, m2.end_date)
-      ) {
-        const drone = allDrones.find((d) => d.drone_id === m1.assigned_drone);
-        conflicts.push({
-          type: 'double_booking_drone',
-          severity: 'error',
-          message: `Drone ${drone?.model || m1.assigned_drone} (${m1.assigned_drone}) is double-booked: ${m1.project_id} overlaps with ${m2.project_id}`,
-          entities: [m1.assigned_drone, m1.project_id, m2.project_id],
-          mission_id: m1.project_id,
-        });
-      }
-    }
-  }
-
-  // 3. Certification mismatch
-  for (const mission of activeMissions) {
-    if (mission.assigned_pilot) {
-      const pilot = allPilots.find((p) => p.pilot_id === mission.assigned_pilot);
-      if (pilot && !hasCertifications(pilot, mission.required_certs)) {
-        const missing = mission.required_certs.filter(
-          (cert) => !pilot.certifications.some((pc) => pc.toLowerCase() === cert.toLowerCase())
-        );
-        conflicts.push({
-          type: 'certification_mismatch',
-          severity: 'error',
-          message: `Pilot ${pilot.name} (${pilot.pilot_id}) assigned to ${mission.project_id} lacks required certifications: ${missing.join(', ')}`,
-          entities: [pilot.pilot_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-  }
-
-  // 4. Skill mismatch
-  for (const mission of activeMissions) {
-    if (mission.assigned_pilot) {
-      const pilot = allPilots.find((p) => p.pilot_id === mission.assigned_pilot);
-      if (pilot && !hasSkills(pilot, mission.required_skills)) {
-        const missing = mission.required_skills.filter(
-          (skill) => !pilot.skills.some((ps) => ps.toLowerCase() === skill.toLowerCase())
-        );
-        conflicts.push({
-          type: 'skill_mismatch',
-          severity: 'warning',
-          message: `Pilot ${pilot.name} (${pilot.pilot_id}) assigned to ${mission.project_id} lacks required skills: ${missing.join(', ')}`,
-          entities: [pilot.pilot_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-  }
-
-  // 5. Maintenance issues - Drone assigned but in maintenance
-  for (const mission of activeMissions) {
-    if (mission.assigned_drone) {
-      const drone = allDrones.find((d) => d.drone_id === mission.assigned_drone);
-      if (drone && drone.status === 'Maintenance') {
-        conflicts.push({
-          type: 'maintenance_issue',
-          severity: 'error',
-          message: `Drone ${drone.model} (${drone.drone_id}) assigned to ${mission.project_id} is currently in Maintenance (due: ${drone.maintenance_due})`,
-          entities: [drone.drone_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-  }
-
-  // 6. Location mismatch - Pilot location vs mission location
-  for (const mission of activeMissions) {
-    if (mission.assigned_pilot) {
-      const pilot = allPilots.find((p) => p.pilot_id === mission.assigned_pilot);
-      if (pilot && pilot.location.toLowerCase() !== mission.location.toLowerCase()) {
-        conflicts.push({
-          type: 'location_mismatch',
-          severity: 'warning',
-          message: `Pilot ${pilot.name} (${pilot.pilot_id}) is in ${pilot.location} but ${mission.project_id} is in ${mission.location}`,
-          entities: [pilot.pilot_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-
-    // Drone location vs mission location
-    if (mission.assigned_drone) {
-      const drone = allDrones.find((d) => d.drone_id === mission.assigned_drone);
-      if (drone && drone.location.toLowerCase() !== mission.location.toLowerCase()) {
-        conflicts.push({
-          type: 'location_mismatch',
-          severity: 'warning',
-          message: `Drone ${drone.model} (${drone.drone_id}) is in ${drone.location} but ${mission.project_id} is in ${mission.location}`,
-          entities: [drone.drone_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-  }
+  const ctx = await loadRuleContext();
+  return evaluateMissions(ctx.missions, ctx);
+}
 
-  // 7. Unavailable pilot assigned to mission
-  for (const mission of activeMissions) {
-    if (mission.assigned_pilot) {
-      const pilot = allPilots.find((p) => p.pilot_id === mission.assigned_pilot);
-      if (pilot && (pilot.status === 'On Leave' || pilot.status === 'Unavailable')) {
-        conflicts.push({
-          type: 'unavailable_pilot',
-          severity: 'error',
-          message: `Pilot ${pilot.name} (${pilot.pilot_id}) is ${pilot.status} but assigned to ${mission.project_id}`,
-          entities: [pilot.pilot_id, mission.project_id],
-          mission_id: mission.project_id,
-        });
-      }
-    }
-  }
+// ---- ASSIGNMENT VALIDATION ----
 
-  return conflicts;
+// Evaluate `proposed` (a mission with one more assignment) in place of the
+// stored mission, keeping the conflicts that involve `candidateId`
+export function validateProposal(
+  ctx: RuleContext,
+  proposed: Mission,
+  candidateId: string
+): { valid: boolean; conflicts: Conflict[] } {
+  const missions = ctx.missions.filter((m) => m.project_id !== proposed.project_id);
+  const scoped: RuleContext = { ...ctx, missions: isOpen(proposed) ? [...missions, proposed] : missions };
+  const conflicts = evaluateMissions([proposed], scoped).filter((c) => c.entities.includes(candidateId));
+  return { valid: !conflicts.some((c) => c.severity === 'error'), conflicts };
 }
 
-// ---- ASSIGNMENT VALIDATION ----
+function notFound(what: string, id: string): { valid: boolean; conflicts: Conflict[] } {
+  return { valid: false, conflicts: [{ type: 'record_not_found', severity: 'error', message: `${what} ${id} not found`, entities: [id] }] };
+}
 
+// Check a pilot for a crew position; skills and certs are those of the role
 export async function validatePilotAssignment(
   pilotId: string,
-  projectId: string
+  projectId: string,
+  role: CrewRole = 'PIC'
 ): Promise<{ valid: boolean; conflicts: Conflict[] }> {
-  const conflicts: Conflict[] = [];
-  const pilot = await getPilotById(pilotId);
+  const ctx = await loadRuleContext();
   const mission = (await getMissions()).find((m) => m.project_id === projectId);
+  if (!ctx.pilots.some((p) => p.pilot_id === pilotId)) return notFound('Pilot', pilotId);
+  if (!mission) return notFound('Mission', projectId);
 
-  if (!pilot) {
-    conflicts.push({
-      type: 'skill_mismatch',
-      severity: 'error',
-      message: `Pilot ${pilotId} not found`,
-      entities: [pilotId],
-    });
-    return { valid: false, conflicts };
-  }
-
-  if (!mission) {
-    conflicts.push({
-      type: 'skill_mismatch',
-      severity: 'error',
-      message: `Mission ${projectId} not found`,
-      entities: [projectId],
-    });
-    return { valid: false, conflicts };
-  }
-
-  // Check pilot status
-  if (pilot.status === 'On Leave' || pilot.status === 'Unavailable') {
-    conflicts.push({
-      type: 'unavailable_pilot',
-      severity: 'error',
-      message: `Pilot ${pilot.name} is currently ${pilot.status}`,
-      entities: [pilotId, projectId],
-      mission_id: projectId,
-    });
-  }
-
-  // Check skills
-  if (!hasSkills(pilot, mission.required_skills)) {
-    const missing = mission.required_skills.filter(
-      (s) => !pilot.skills.some((ps) => ps.toLowerCase() === s.toLowerCase())
-    );
-    conflicts.push({
-      type: 'skill_mismatch',
-      severity: 'warning',
-      message: `Pilot ${pilot.name} lacks required skills: ${missing.join(', ')}`,
-      entities: [pilotId, projectId],
-      mission_id: projectId,
-    });
-  }
-
-  // Check certifications
-  if (!hasCertifications(pilot, mission.required_certs)) {
-    const missing = mission.required_certs.filter(
-      (c) => !pilot.certifications.some((pc) => pc.toLowerCase() === c.toLowerCase())
-    );
-    conflicts.push({
-      type: 'certification_mismatch',
-      severity: 'error',
-      message: `Pilot ${pilot.name} lacks required certifications: ${missing.join(', ')}`,
-      entities: [pilotId, projectId],
-      mission_id: projectId,
-    });
-  }
-
-  // Check location
-  if (pilot.location.toLowerCase() !== mission.location.toLowerCase()) {
-    conflicts.push({
-      type: 'location_mismatch',
-      severity: 'warning',
-      message: `Pilot ${pilot.name} is in ${pilot.location} but mission is in ${mission.location}`,
-      entities: [pilotId, projectId],
-      mission_id: projectId,
-    });
-  }
-
-  // Check for overlapping assignments
-  const allMissions = await getMissions();
-  const pilotMissions = allMissions.filter(
-    (m) =>
-      m.assigned_pilot === pilotId &&
-      m.project_id !== projectId &&
-      (m.mission_status === 'Active' || m.mission_status === 'Planned')
-  );
-
-  for (const existing of pilotMissions) {
-    if (datesOverlap(mission.start_date, mission.end_date, existing.start_date, existing.end_date)) {
-      conflicts.push({
-        type: 'double_booking_pilot',
-        severity: 'error',
-        message: `Pilot ${pilot.name} is already assigned to ${existing.project_id} (${existing.start_date} to ${existing.end_date}) which overlaps with ${projectId}`,
-        entities: [pilotId, projectId, existing.project_id],
-        mission_id: projectId,
-      });
-    }
-  }
-
-  const hasErrors = conflicts.some((c) => c.severity === 'error');
-  return { valid: !hasErrors, conflicts };
+  const crew = [...mission.crew.filter((c) => c.pilot_id !== pilotId), { pilot_id: pilotId, role }];
+  return validateProposal(ctx, { ...mission, crew }, pilotId);
 }
 
+// Check a drone for a mission, either added to its drones or `replacing` one
 export async function validateDroneAssignment(
   droneId: string,
+  projectId: string,
+  replacing?: string
+): Promise<{ valid: boolean; conflicts: Conflict[] }> {
+  const ctx = await loadRuleContext();
+  const mission = (await getMissions()).find((m) => m.project_id === projectId);
+  if (!ctx.drones.some((d) => d.drone_id === droneId)) return notFound('Drone', droneId);
+  if (!mission) return notFound('Mission', projectId);
+
+  const assignedDrones = [...mission.assigned_drones.filter((id) => id !== droneId && id !== replacing), droneId];
+  return validateProposal(ctx, { ...mission, assigned_drones: assignedDrones }, droneId);
+}
+
+export async function validateEquipmentAssignment(
+  equipmentId: string,
   projectId: string
 ): Promise<{ valid: boolean; conflicts: Conflict[] }> {
-  const conflicts: Conflict[] = [];
-  const drone = await getDroneById(droneId);
+  const ctx = await loadRuleContext();
   const mission = (await getMissions()).find((m) => m.project_id === projectId);
+  if (!ctx.equipment.some((e) => e.equipment_id === equipmentId)) return notFound('Equipment', equipmentId);
+  if (!mission) return notFound('Mission', projectId);
 
-  if (!drone) {
-    conflicts.push({
-      type: 'maintenance_issue',
-      severity: 'error',
-      message: `Drone ${droneId} not found`,
-      entities: [droneId],
-    });
-    return { valid: false, conflicts };
-  }
+  const assignedEquipment = [...(mission.assigned_equipment || []).filter((id) => id !== equipmentId), equipmentId];
+  return validateProposal(ctx, { ...mission, assigned_equipment: assignedEquipment }, equipmentId);
+}
 
-  if (!mission) {
-    conflicts.push({
-      type: 'maintenance_issue',
-      severity: 'error',
-      message: `Mission ${projectId} not found`,
-      entities: [projectId],
-    });
-    return { valid: false, conflicts };
+// Check a pilot or drone on a mission being booked, which isn't stored yet
+export async function validateBooking(
+  proposed: Mission,
+  candidateId: string
+): Promise<{ valid: boolean; conflicts: Conflict[] }> {
+  const ctx = await loadRuleContext();
+  if (!ctx.pilots.some((p) => p.pilot_id === candidateId) && !ctx.drones.some((d) => d.drone_id === candidateId)) {
+    return notFound('Pilot or drone', candidateId);
   }
+  return validateProposal(ctx, proposed, candidateId);
+}
 
-  // Check drone status
-  if (drone.status === 'Maintenance') {
-    conflicts.push({
-      type: 'maintenance_issue',
-      severity: 'error',
-      message: `Drone ${drone.model} (${drone.drone_id}) is currently in Maintenance`,
-      entities: [droneId, projectId],
-      mission_id: projectId,
-    });
+// Check everyone on a mission against a new schedule for it
+export async function validateSchedule(proposed: Mission): Promise<{ valid: boolean; conflicts: Conflict[] }> {
+  const ctx = await loadRuleContext();
+  const conflicts: Conflict[] = [];
+  for (const id of [...crewIds(proposed), ...proposed.assigned_drones, ...(proposed.assigned_equipment || [])]) {
+    for (const conflict of validateProposal(ctx, proposed, id).conflicts) {
+      if (!conflicts.some((c) => c.message === conflict.message)) conflicts.push(conflict);
+    }
   }
+  return { valid: !conflicts.some((c) => c.severity === 'error'), conflicts };
+}
 
-  // Check location
-  if (drone.location.toLowerCase() !== mission.location.toLowerCase()) {
-    conflicts.push({
-      type: 'location_mismatch',
-      severity: 'warning',
-      message: `Drone ${drone.model} is in ${drone.location} but mission is in ${mission.location}`,
-      entities: [droneId, projectId],
-      mission_id: projectId,
-    });
-  }
+// ---- BEST MATCH FINDING ----
+// Points per factor come from the scoring policy (lib/scoringPolicy.ts); each
+// match carries its per-factor breakdown and the policy version used.
+
+export interface PilotMatch {
+  pilot: Pilot;
+  score: number;
+  eligible: boolean; // false when a hard constraint rules the pilot out
+  issues: string[];
+  breakdown: ScoreComponent[];
+}
 
-  // Check for overlapping assignments
-  const allMissions = await getMissions();
-  const droneMissions = allMissions.filter(
-    (m) =>
-      m.assigned_drone === droneId &&
-      m.project_id !== projectId &&
-      (m.mission_status === 'Active' || m.mission_status === 'Planned')
-  );
+export interface DroneMatch {
+  drone: Drone;
+  score: number;
+  eligible: boolean;
+  issues: string[];
+  breakdown: ScoreComponent[];
+}
 
-  for (const existing of droneMissions) {
-    if (datesOverlap(mission.start_date, mission.end_date, existing.start_date, existing.end_date)) {
-      conflicts.push({
-        type: 'double_booking_drone',
-        severity: 'error',
-        message: `Drone ${drone.model} is already assigned to ${existing.project_id} (${existing.start_date} to ${existing.end_date}) which overlaps`,
-        entities: [droneId, projectId, existing.project_id],
-        mission_id: projectId,
-      });
-    }
-  }
+export interface MatchPolicy {
+  version: string;
+  region?: string; // regional override applied, if any
+}
 
-  const hasErrors = conflicts.some((c) => c.severity === 'error');
-  return { valid: !hasErrors, conflicts };
+// Location scores by distance band: same area, nearby (a short drive), a
+// longer road trip, or a flight. Locations missing from the gazetteer only
+// match by name.
+function locationFactor(rules: MatchRules, location: string, missionLocation: string): ScoreComponent {
+  const estimate = estimateTravel(location, missionLocation);
+  if (!estimate) {
+    return sameLocation(location, missionLocation)
+      ? scoreFactor(rules, 'location', 'match')
+      : scoreFactor(rules, 'location', 'mismatch', `Location: ${location} (mission in ${missionLocation}, distance unknown)`);
+  }
+  const band = distanceBand(estimate);
+  if (band === 'same') return scoreFactor(rules, 'location', 'match');
+  return scoreFactor(rules, 'location', band, `Location: ${location} (${describeTravel(estimate)} to ${missionLocation})`);
 }
 
-// ---- BEST MATCH FINDING ----
+// Missions either side of this one the candidate can't travel between in time
+function transitFactor(rules: MatchRules, existing: Mission[], mission: Mission): ScoreComponent | null {
+  const shortfalls = transitShortfalls([...existing, mission], mission.project_id);
+  if (shortfalls.length === 0) return null;
+  const legs = shortfalls.map((s) => `${s.from.project_id} → ${s.to.project_id} needs ${describeTravel(s.estimate)}, has ${Math.max(s.gap_hours, 0)} h`);
+  return scoreFactor(rules, 'transit', 'short', `Transit: ${legs.join('; ')}`);
+}
 
+// Rank pilots for a crew position on the mission (the PIC by default)
 export async function findBestPilotForMission(
-  projectId: string
-): Promise<{ matches: Array<{ pilot: Pilot; score: number; issues: string[] }> }> {
+  projectId: string,
+  role: CrewRole = 'PIC'
+): Promise<{ matches: PilotMatch[]; policy: MatchPolicy }> {
+  const { version } = getScoringPolicy();
   const mission = (await getMissions()).find((m) => m.project_id === projectId);
-  if (!mission) return { matches: [] };
+  if (!mission) return { matches: [], policy: { version } };
 
+  const { rules, region } = rulesFor('pilot', mission.location);
   const allPilots = await getPilots();
   const allMissions = await getMissions();
-  const scored: Array<{ pilot: Pilot; score: number; issues: string[] }> = [];
+  const { skills: requiredSkills, certs: requiredCerts } = requirementsFor(mission, role);
+  const ranked: Array<{ match: PilotMatch; local: boolean; open_missions: number }> = [];
 
   for (const pilot of allPilots) {
-    let score = 0;
-    const issues: string[] = [];
+    const breakdown: ScoreComponent[] = [];
+    const existing = allMissions.filter(
+      (m) => crewIds(m).includes(pilot.pilot_id) && m.project_id !== projectId && isOpen(m)
+    );
+
+    // Someone already on the crew cannot fill another position
+    const currentRole = roleOf(mission, pilot.pilot_id);
+    if (currentRole) {
+      breakdown.push(scoreFactor(rules, 'crew', 'member', `Already on the crew as ${currentRole}`));
+    }
 
-    // Status check (available is best)
-    if (pilot.status === 'Available') {
-      score += 30;
+    // Status (available is best). Leave only counts when the calendar blocks
+    // the mission's dates.
+    const clashes = calendarClashes(pilot, mission);
+    if (pilot.status === 'Unavailable') {
+      breakdown.push(scoreFactor(rules, 'status', 'unavailable', `Status: ${pilot.status}`));
+    } else if (clashes.blocks.length > 0) {
+      breakdown.push(scoreFactor(rules, 'status', 'on_leave', `Unavailable: ${clashes.blocks.map(describeDateBlock).join(', ')}`));
     } else if (pilot.status === 'Assigned') {
-      // Check if their assignment overlaps
-      const existing = allMissions.filter(
-        (m) =>
-          m.assigned_pilot === pilot.pilot_id &&
-          (m.mission_status === 'Active' || m.mission_status === 'Planned')
-      );
-      const hasOverlap = existing.some((m) =>
-        datesOverlap(mission.start_date, mission.end_date, m.start_date, m.end_date)
+      breakdown.push(
+        existing.some((m) => missionsOverlap(mission, m))
+          ? scoreFactor(rules, 'status', 'overlapping', 'Has overlapping assignment')
+          : scoreFactor(rules, 'status', 'assigned')
       );
-      if (hasOverlap) {
-        issues.push('Has overlapping assignment');
-        score -= 50;
-      } else {
-        score += 20;
-      }
     } else {
-      issues.push(`Status: ${pilot.status}`);
-      score -= 100;
+      breakdown.push(scoreFactor(rules, 'status', 'available'));
+    }
+
+    if (clashes.days_off.length > 0) {
+      breakdown.push(scoreFactor(rules, 'days_off', 'working', `Would work on days off: ${clashes.days_off.join(', ')}`));
     }
 
     // Skills match
-    const skillMatch = mission.required_skills.every((s) =>
-      pilot.skills.some((ps) => ps.toLowerCase() === s.toLowerCase())
+    const missingSkills = requiredSkills.filter(
+      (s) => !pilot.skills.some((ps) => ps.toLowerCase() === s.toLowerCase())
+    );
+    breakdown.push(
+      missingSkills.length === 0
+        ? scoreFactor(rules, 'skills', 'match')
+        : scoreFactor(rules, 'skills', 'missing', `Missing skills: ${missingSkills.join(', ')}`)
     );
-    if (skillMatch) {
-      score += 25;
-    } else {
-      const missing = mission.required_skills.filter(
-        (s) => !pilot.skills.some((ps) => ps.toLowerCase() === s.toLowerCase())
-      );
-      issues.push(`Missing skills: ${missing.join(', ')}`);
-      score -= 20;
-    }
 
-    // Certifications match
-    const certMatch = mission.required_certs.every((c) =>
-      pilot.certifications.some((pc) => pc.toLowerCase() === c.toLowerCase())
+    // Certifications held, and valid until the mission ends
+    const missingCerts = requiredCerts.filter(
+      (c) => !certificationTypes(pilot).some((pc) => pc.toLowerCase() === c.toLowerCase())
     );
-    if (certMatch) {
-      score += 25;
+    const lapsedCerts = lapsedBefore(pilot, requiredCerts, mission.end_date);
+    if (missingCerts.length > 0) {
+      breakdown.push(scoreFactor(rules, 'certs', 'missing', `Missing certs: ${missingCerts.join(', ')}`));
+    } else if (lapsedCerts.length > 0) {
+      const lapsed = lapsedCerts.map((c) => `${describeCertification(c)} (valid until ${c.expiry_date})`);
+      breakdown.push(scoreFactor(rules, 'certs', 'expired', `Certs expire before the mission ends: ${lapsed.join(', ')}`));
     } else {
-      const missing = mission.required_certs.filter(
-        (c) => !pilot.certifications.some((pc) => pc.toLowerCase() === c.toLowerCase())
-      );
-      issues.push(`Missing certs: ${missing.join(', ')}`);
-      score -= 30;
+      breakdown.push(scoreFactor(rules, 'certs', 'match'));
     }
 
-    // Location match
-    if (pilot.location.toLowerCase() === mission.location.toLowerCase()) {
-      score += 20;
-    } else {
-      issues.push(`Location: ${pilot.location} (mission in ${mission.location})`);
-      score -= 10;
-    }
+    // Location, weighted by distance, and time to travel between missions
+    const location = locationFactor(rules, pilot.location, mission.location);
+    const local = location.outcome === 'match';
+    breakdown.push(location);
+    const transit = transitFactor(rules, existing, mission);
+    if (transit) breakdown.push(transit);
 
-    scored.push({ pilot, score, issues });
+    ranked.push({ match: { pilot, ...summarizeScore(breakdown), breakdown }, local, open_missions: existing.length });
   }
 
-  scored.sort((a, b) => b.score - a.score);
-  return { matches: scored };
+  ranked.sort((a, b) =>
+    compareMatches(rules, { ...a, ...a.match, id: a.match.pilot.pilot_id }, { ...b, ...b.match, id: b.match.pilot.pilot_id })
+  );
+  return {
+    matches: ranked.map((r) => r.match),
+    policy: { version, region },
+  };
 }
 
 export async function findBestDroneForMission(
   projectId: string
-): Promise<{ matches: Array<{ drone: Drone; score: number; issues: string[] }> }> {
+): Promise<{ matches: DroneMatch[]; policy: MatchPolicy }> {
+  const { version } = getScoringPolicy();
   const mission = (await getMissions()).find((m) => m.project_id === projectId);
-  if (!mission) return { matches: [] };
+  if (!mission) return { matches: [], policy: { version } };
 
+  const { rules, region } = rulesFor('drone', mission.location);
   const allDrones = await getDrones();
   const allMissions = await getMissions();
-  const scored: Array<{ drone: Drone; score: number; issues: string[] }> = [];
+  const ranked: Array<{ match: DroneMatch; local: boolean; open_missions: number }> = [];
 
   for (const drone of allDrones) {
-    let score = 0;
-    const issues: string[] = [];
+    const breakdown: ScoreComponent[] = [];
+    const existing = allMissions.filter(
+      (m) => m.assigned_drones.includes(drone.drone_id) && m.project_id !== projectId && isOpen(m)
+    );
 
-    // Status check
-    if (drone.status === 'Available') {
-      score += 30;
-    } else if (drone.status === 'Deployed') {
-      const existing = allMissions.filter(
-        (m) =>
-          m.assigned_drone === drone.drone_id &&
-          (m.mission_status === 'Active' || m.mission_status === 'Planned')
-      );
-      const hasOverlap = existing.some((m) =>
-        datesOverlap(mission.start_date, mission.end_date, m.start_date, m.end_date)
-      );
-      if (hasOverlap) {
-        issues.push('Has overlapping deployment');
-        score -= 50;
-      } else {
-        score += 15;
-      }
-    } else {
-      issues.push(`Status: ${drone.status}`);
-      score -= 100;
+    if (mission.assigned_drones.includes(drone.drone_id)) {
+      breakdown.push(scoreFactor(rules, 'mission', 'assigned', `Already assigned to ${projectId}`));
     }
 
-    // Location match
-    if (drone.location.toLowerCase() === mission.location.toLowerCase()) {
-      score += 30;
+    // Status. Maintenance only counts when a window falls on the mission's
+    // dates.
+    const windows = windowsBetween(drone, mission.start_date, mission.end_date);
+    if (windows.length > 0) {
+      breakdown.push(scoreFactor(rules, 'status', 'maintenance', `Maintenance: ${windows.map(describeDateBlock).join(', ')}`));
+    } else if (drone.status === 'Deployed') {
+      breakdown.push(
+        existing.some((m) => missionsOverlap(mission, m))
+          ? scoreFactor(rules, 'status', 'overlapping', 'Has overlapping deployment')
+          : scoreFactor(rules, 'status', 'deployed')
+      );
     } else {
-      issues.push(`Location: ${drone.location} (mission in ${mission.location})`);
-      score -= 15;
+      breakdown.push(scoreFactor(rules, 'status', 'available'));
     }
 
-    // Capability check (drones don't have "skills" per se, but missions may need specific capabilities)
-    // We check if the drone has any capability that could be useful
-    // This is a soft check - drones are more generic than pilot skills
-    const missionNeedsThermal = mission.required_skills.some((s) => s.toLowerCase() === 'thermal');
-    const missionNeedsMapping = mission.required_skills.some(
-      (s) => s.toLowerCase() === 'mapping' || s.toLowerCase() === 'survey'
-    );
-
-    if (missionNeedsThermal && drone.capabilities.some((c) => c.toLowerCase() === 'thermal')) {
-      score += 20;
-    } else if (missionNeedsThermal) {
-      issues.push('No thermal capability');
-      score -= 15;
-    }
-
-    if (missionNeedsMapping && drone.capabilities.some((c) => c.toLowerCase() === 'lidar')) {
-      score += 20;
-    } else if (missionNeedsMapping && drone.capabilities.some((c) => c.toLowerCase() === 'rgb')) {
-      score += 10;
+    // Location, weighted by distance, and time to travel between missions
+    const location = locationFactor(rules, drone.location, mission.location);
+    const local = location.outcome === 'match';
+    breakdown.push(location);
+    const transit = transitFactor(rules, existing, mission);
+    if (transit) breakdown.push(transit);
+
+    // Capability requirements: the first acceptable capability is preferred
+    for (const requirement of capabilityRequirements(mission)) {
+      const index = requirement.accepts.findIndex((c) => hasCapability(drone, c));
+      breakdown.push(
+        index === 0
+          ? scoreFactor(rules, 'capability', 'preferred')
+          : index > 0
+            ? scoreFactor(rules, 'capability', 'acceptable')
+            : scoreFactor(rules, 'capability', 'missing', `No ${describeRequirement(requirement)} capability`)
+      );
     }
 
     // Maintenance due check
-    const maintenanceDue = new Date(drone.maintenance_due);
-    const missionEnd = new Date(mission.end_date);
-    if (maintenanceDue <= missionEnd) {
-      issues.push(`Maintenance due ${drone.maintenance_due} (before mission ends)`);
-      score -= 10;
+    if (maintenanceDueDuring(drone, mission)) {
+      breakdown.push(scoreFactor(rules, 'maintenance_due', 'due', `Maintenance due ${drone.maintenance_due} (before mission ends)`));
     }
 
-    scored.push({ drone, score, issues });
+    ranked.push({ match: { drone, ...summarizeScore(breakdown), breakdown }, local, open_missions: existing.length });
   }
 
-  scored.sort((a, b) => b.score - a.score);
-  return { matches: scored };
+  ranked.sort((a, b) =>
+    compareMatches(rules, { ...a, ...a.match, id: a.match.drone.drone_id }, { ...b, ...b.match, id: b.match.drone.drone_id })
+  );
+  return {
+    matches: ranked.map((r) => r.match),
+    policy: { version, region },
+  };
 }
@@ -0,0 +1,137 @@
+// ============================================
+// Mission Crews - Roles and Per-Role Requirements
+// ============================================
+// A mission carries a crew (pilots, each with a role) and a list of drones.
+// In the sheet both stay single cells, so rows written before crews existed
+// read unchanged (a pilot listed without a role is the PIC):
+//
+//   crew:            P001, P003 (Observer)
+//   assigned_drones: D001, D004
+//   required_roles:  PIC, Observer
+//   drones_required: 2
+//
+// Only the pilot-in-command needs everything the mission asks for; other
+// roles carry lighter requirements (see ROLE_RULES).
+
+import type { CrewAssignment, CrewRole, Drone, Mission, Pilot } from './types';
+import { requiredCertsFor, NIGHT_OPS_CERT } from './scheduling';
+
+const CREW_ROLES: CrewRole[] = ['PIC', 'Observer', 'Payload Operator'];
+
+// skills: the mission's required skills apply to the role
+// night_ops: the role needs Night Ops when the mission flies in the dark
+const ROLE_RULES: Record<CrewRole, { skills: boolean; night_ops: boolean }> = {
+  PIC: { skills: true, night_ops: true },
+  'Payload Operator': { skills: true, night_ops: false },
+  Observer: { skills: false, night_ops: false },
+};
+
+// ---- SHEET FORMAT ----
+
+const ENTRY = /^(.+?)\s*(?:\((.*)\))?$/;
+
+// "P001, P003 (observer)" -> PIC P001, Observer P003. Unknown roles are kept
+// as written so validation reports them.
+export function parseCrew(raw: string): CrewAssignment[] {
+  return raw
+    .split(/[,;]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(ENTRY)!;
+      const role = match[2]?.trim();
+      return {
+        pilot_id: match[1].trim(),
+        role: !role ? 'PIC' : CREW_ROLES.find((r) => r.toLowerCase() === role.toLowerCase()) || (role as CrewRole),
+      };
+    });
+}
+
+export function formatCrew(crew: CrewAssignment[]): string {
+  return crew.map((c) => (c.role === 'PIC' ? c.pilot_id : `${c.pilot_id} (${c.role})`)).join(', ');
+}
+
+// ---- CREW QUERIES ----
+
+export function crewIds(mission: Mission): string[] {
+  return mission.crew.map((c) => c.pilot_id);
+}
+
+export function picOf(mission: Mission): string {
+  return mission.crew.find((c) => c.role === 'PIC')?.pilot_id || '';
+}
+
+export function roleOf(mission: Mission, pilotId: string): CrewRole | undefined {
+  return mission.crew.find((c) => c.pilot_id === pilotId)?.role;
+}
+
+// Crew members with their roster entries, and the mission's fleet entries
+export function crewMembers(mission: Mission, pilots: Pilot[]): Array<{ pilot: Pilot; role: CrewRole }> {
+  return mission.crew.flatMap((c) => {
+    const pilot = pilots.find((p) => p.pilot_id === c.pilot_id);
+    return pilot ? [{ pilot, role: c.role }] : [];
+  });
+}
+
+export function missionDrones(mission: Mission, drones: Drone[]): Drone[] {
+  return mission.assigned_drones.flatMap((id) => drones.filter((d) => d.drone_id === id));
+}
+
+// Positions the mission needs filled; a PIC alone unless listed otherwise
+export function requiredRoles(mission: Mission): CrewRole[] {
+  return mission.required_roles?.length ? mission.required_roles : ['PIC'];
+}
+
+// Required positions nobody on the crew holds yet
+export function openRoles(mission: Mission): CrewRole[] {
+  const held = mission.crew.map((c) => c.role);
+  return requiredRoles(mission).filter((role) => {
+    const index = held.indexOf(role);
+    if (index === -1) return true;
+    held.splice(index, 1);
+    return false;
+  });
+}
+
+export function dronesRequired(mission: Mission): number {
+  return mission.drones_required || 1;
+}
+
+export function dronesMissing(mission: Mission): number {
+  return Math.max(0, dronesRequired(mission) - mission.assigned_drones.length);
+}
+
+// ---- PER-ROLE REQUIREMENTS ----
+
+export function requirementsFor(mission: Mission, role: CrewRole): { skills: string[]; certs: string[] } {
+  const rules = ROLE_RULES[role] || ROLE_RULES.Observer;
+  const certs = rules.night_ops
+    ? requiredCertsFor(mission)
+    : mission.required_certs.filter((c) => c.toLowerCase() !== NIGHT_OPS_CERT.toLowerCase());
+  return { skills: rules.skills ? mission.required_skills : [], certs };
+}
+
+// ---- MIGRATION ----
+
+// Missions stored before crews existed carry single `assigned_pilot` /
+// `assigned_drone` fields; the pilot becomes the PIC. Takes stored missions
+// and logged mission changes alike.
+interface LegacyAssignmentFields {
+  crew?: unknown;
+  assigned_drones?: unknown;
+  assigned_pilot?: unknown;
+  assigned_drone?: unknown;
+}
+
+export function migrateLegacyAssignments(record: LegacyAssignmentFields): void {
+  if ('assigned_pilot' in record) {
+    const pilot = record.assigned_pilot;
+    if (!record.crew) record.crew = typeof pilot === 'string' && pilot ? [{ pilot_id: pilot, role: 'PIC' }] : [];
+    delete record.assigned_pilot;
+  }
+  if ('assigned_drone' in record) {
+    const drone = record.assigned_drone;
+    if (!record.assigned_drones) record.assigned_drones = typeof drone === 'string' && drone ? [drone] : [];
+    delete record.assigned_drone;
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdtempSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseCSV, serializeCSV, updatePilotInCsv, readPilotsFromCsv, readDronesFromCsv } from './csvSource';
+import type { Pilot } from './types';
+
+const HEADER = 'pilot_id,name,skills,certifications,location,status,current_assignment,available_from\n';
+
+function pilot(id: string, name: string): Pilot {
+  return {
+    pilot_id: id, name, skills: ['Mapping'], certifications: [{ type: 'DGCA' }], location: 'Bangalore',
+    status: 'Available', current_assignment: '', available_from: '2026-02-05',
+  };
+}
+
+describe('parseCSV', () => {
+  it('reads quoted fields with commas, quotes and newlines', () => {
+    expect(parseCSV('a,"b, c","say ""hi""","two\nlines"\r\n')).toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('keeps blank lines between rows so row numbers match the file', () => {
+    expect(parseCSV('id\nP1\n\nP2\n\n')).toEqual([['id'], ['P1'], [''], ['P2']]);
+  });
+
+  it('round-trips through serializeCSV', () => {
+    const rows = [['id', 'note'], ['P1', 'comma, "quoted"']];
+    expect(parseCSV(serializeCSV(rows))).toEqual(rows);
+  });
+});
+
+describe('single-row writes', () => {
+  let dir: string;
+  const previous = process.env.CSV_DATA_DIR;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'csv-source-'));
+    process.env.CSV_DATA_DIR = dir;
+    writeFileSync(path.join(dir, 'pilot_roster.csv'), HEADER);
+  });
+
+  afterEach(() => {
+    process.env.CSV_DATA_DIR = previous;
+  });
+
+  it('keeps every row when upserts to one file run concurrently', async () => {
+    const ids = Array.from({ length: 8 }, (_, i) => `P${i + 1}`);
+    await Promise.all(ids.map((id) => updatePilotInCsv(pilot(id, `Pilot ${id}`))));
+
+    const pilots = await readPilotsFromCsv();
+    expect(pilots.map((p) => p.pilot_id).sort()).toEqual([...ids].sort());
+    expect(readdirSync(dir).filter((f) => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('replaces the row with the same ID', async () => {
+    await updatePilotInCsv(pilot('P1', 'Arjun'));
+    await updatePilotInCsv(pilot('P1', 'Arjun K'));
+    const text = readFileSync(path.join(dir, 'pilot_roster.csv'), 'utf8');
+    expect(text.trim().split('\n')).toHaveLength(2);
+    expect(text).toContain('Arjun K');
+  });
+
+  it('adds a column only for a field the written record has a value for', async () => {
+    await updatePilotInCsv(pilot('P1', 'Arjun'));
+    await updatePilotInCsv({ ...pilot('P1', 'Arjun'), status: 'On Leave' }, ['status']);
+    expect(readFileSync(path.join(dir, 'pilot_roster.csv'), 'utf8').split('\n')[0]).toBe(HEADER.trim());
+
+    await updatePilotInCsv({ ...pilot('P1', 'Arjun'), days_off: ['Sun'], archived_at: '2026-03-01' }, ['archived_at']);
+    expect(readFileSync(path.join(dir, 'pilot_roster.csv'), 'utf8').split('\n')[0]).toBe(`${HEADER.trim()},archived_at`);
+  });
+
+  it('leaves extra columns of an existing row as the file has them', async () => {
+    writeFileSync(path.join(dir, 'pilot_roster.csv'), `${HEADER.trim()},notes\nP1,Arjun,Mapping,DGCA,Bangalore,Available,–,2026-02-05,edited in the file\n`);
+    await updatePilotInCsv({ ...pilot('P1', 'Arjun K'), extra_columns: { notes: 'stale copy' } });
+
+    const [row] = await readPilotsFromCsv();
+    expect(row).toMatchObject({ name: 'Arjun K', extra_columns: { notes: 'edited in the file' } });
+  });
+});
+
+describe('number cells', () => {
+  const previous = process.env.CSV_DATA_DIR;
+
+  afterEach(() => {
+    process.env.CSV_DATA_DIR = previous;
+  });
+
+  it('reads the number before a unit and leaves unreadable cells empty', async () => {
+    process.env.CSV_DATA_DIR = mkdtempSync(path.join(tmpdir(), 'csv-source-'));
+    writeFileSync(
+      path.join(process.env.CSV_DATA_DIR, 'drone_fleet.csv'),
+      'drone_id,model,capabilities,status,location,current_assignment,maintenance_due,service_interval_hours\n' +
+        'D1,Quad,RGB,Available,Pune,–,2026-03-01,50 h\n' +
+        'D2,Quad,RGB,Available,Pune,–,2026-03-01,"1,200 hours"\n' +
+        'D3,Quad,RGB,Available,Pune,–,2026-03-01,ask ops\n'
+    );
+
+    const drones = await readDronesFromCsv();
+
+    expect(drones.map((d) => d.service_interval_hours)).toEqual([50, 1200, undefined]);
+  });
+});
@@ -0,0 +1,214 @@
+// ============================================
+// CSV File Data Source
+// ============================================
+// Reads and writes the roster/fleet/mission/equipment CSV exports that ship
+// with the repo (pilot_roster.csv, drone_fleet.csv, missions.csv,
+// equipment.csv).
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Pilot, Drone, Mission, Equipment, EntityType, RawRecord } from './types';
+import { ID_FIELDS, parseTable, resolveLayout, extendLayout, recordToRow, recordsToRows, patchRow, fieldNames } from './rowMapping';
+
+const CSV_FILES = {
+  pilots: 'pilot_roster.csv',
+  drones: 'drone_fleet.csv',
+  missions: 'missions.csv',
+  equipment: 'equipment.csv',
+};
+
+function csvPath(file: string): string {
+  return path.resolve(process.env.CSV_DATA_DIR || process.cwd(), file);
+}
+
+// ---- CSV PARSING ----
+
+// RFC 4180 style: fields may be wrapped in double quotes, quoted fields may
+// contain commas and newlines, and "" inside a quoted field is a literal quote.
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are kept so row numbers in reports match the file; only
+  // trailing ones are dropped
+  while (rows.length > 0 && rows[rows.length - 1].every((value) => value.trim() === '')) rows.pop();
+  return rows;
+}
+
+function escapeCSVField(value: string): string {
+  if (/[",\r\n]/.test(value)) return `"${value.replace(/"/g, '""')}"`;
+  return value;
+}
+
+export function serializeCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCSVField).join(',')).join('\n') + '\n';
+}
+
+// ---- FILE ACCESS ----
+
+async function readCSVFile(file: string): Promise<string[][]> {
+  const text = await fs.readFile(csvPath(file), 'utf8');
+  return parseCSV(text);
+}
+
+// Rows of an existing file, or none for a file that does not exist yet
+async function readCSVFileIfExists(file: string): Promise<string[][]> {
+  try {
+    return await readCSVFile(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Header row of an existing file, or none for a new file
+async function readCSVHeaders(file: string): Promise<string[]> {
+  return (await readCSVFileIfExists(file))[0] || [];
+}
+
+async function writeCSVFile(file: string, headers: string[], rows: string[][]): Promise<void> {
+  const target = csvPath(file);
+  const tmp = `${target}.${randomUUID()}.tmp`;
+  // Pad short rows so every row has a cell for every column; blank lines
+  // stay blank
+  const padded = rows.map((row) => (row.every((value) => !value.trim()) ? [] : headers.map((_, i) => row[i] ?? '')));
+  await fs.writeFile(tmp, serializeCSV([headers, ...padded]), 'utf8');
+  await fs.rename(tmp, target);
+}
+
+// Writes to one file run one at a time, so a read-modify-write never works
+// from rows another write is about to replace
+const fileQueues = new Map<string, Promise<void>>();
+
+function queued(file: string, write: () => Promise<void>): Promise<void> {
+  const run = (fileQueues.get(file) || Promise.resolve()).then(write, write);
+  fileQueues.set(file, run.catch(() => undefined));
+  return run;
+}
+
+// Rewrite a whole file, keeping its column order and any extra columns
+function writeCSVTable(file: string, entity: EntityType, records: object[]): Promise<void> {
+  return queued(file, async () => {
+    const layout = extendLayout(resolveLayout(entity, await readCSVHeaders(file)), records);
+    await writeCSVFile(file, layout.headers, recordsToRows(records, layout));
+  });
+}
+
+// Replace the row whose ID column matches `id`, appending if it is missing.
+// An existing row gets only `fields` (all fields by default) and keeps its
+// extra columns; a new row is written whole.
+function upsertCSVRow(file: string, entity: EntityType, id: string, record: object, fields?: string[]): Promise<void> {
+  return queued(file, () => upsertRow(file, entity, id, record, fields));
+}
+
+async function upsertRow(file: string, entity: EntityType, id: string, record: object, fields?: string[]): Promise<void> {
+  const rows = await readCSVFileIfExists(file);
+  const current = extendLayout(resolveLayout(entity, rows[0] || []), []);
+  const idColumn = current.fieldColumns.get(ID_FIELDS[entity])!;
+
+  const existing = rows.slice(1);
+  const index = existing.findIndex((r) => (r[idColumn] || '').trim() === id);
+  const written = fields || fieldNames(entity);
+  const layout = extendLayout(current, [record], index === -1 ? undefined : written);
+  if (index === -1) {
+    existing.push(recordToRow(record, layout));
+  } else {
+    existing[index] = patchRow(existing[index], record, layout, written);
+  }
+  await writeCSVFile(file, layout.headers, existing);
+}
+
+// ---- READ OPERATIONS ----
+
+export async function readPilotsFromCsv(): Promise<RawRecord[]> {
+  return parseTable('pilot', await readCSVFile(CSV_FILES.pilots)).records;
+}
+
+export async function readDronesFromCsv(): Promise<RawRecord[]> {
+  return parseTable('drone', await readCSVFile(CSV_FILES.drones)).records;
+}
+
+export async function readMissionsFromCsv(): Promise<RawRecord[]> {
+  return parseTable('mission', await readCSVFile(CSV_FILES.missions)).records;
+}
+
+// equipment.csv is optional; without it there is no equipment
+export async function readEquipmentFromCsv(): Promise<RawRecord[]> {
+  return parseTable('equipment', await readCSVFileIfExists(CSV_FILES.equipment)).records;
+}
+
+// ---- WRITE OPERATIONS ----
+
+export async function writePilotsToCsv(pilots: Pilot[], held: RawRecord[] = []): Promise<void> {
+  await writeCSVTable(CSV_FILES.pilots, 'pilot', [...pilots, ...held]);
+}
+
+export async function writeDronesToCsv(drones: Drone[], held: RawRecord[] = []): Promise<void> {
+  await writeCSVTable(CSV_FILES.drones, 'drone', [...drones, ...held]);
+}
+
+export async function writeMissionsToCsv(missions: Mission[], held: RawRecord[] = []): Promise<void> {
+  await writeCSVTable(CSV_FILES.missions, 'mission', [...missions, ...held]);
+}
+
+export async function writeEquipmentToCsv(equipment: Equipment[], held: RawRecord[] = []): Promise<void> {
+  await writeCSVTable(CSV_FILES.equipment, 'equipment', [...equipment, ...held]);
+}
+
+// ---- SINGLE ROW UPDATE ----
+// CSV rows are located by ID rather than position.
+
+export async function updatePilotInCsv(pilot: Pilot, fields?: string[]): Promise<void> {
+  await upsertCSVRow(CSV_FILES.pilots, 'pilot', pilot.pilot_id, pilot, fields);
+}
+
+export async function updateDroneInCsv(drone: Drone, fields?: string[]): Promise<void> {
+  await upsertCSVRow(CSV_FILES.drones, 'drone', drone.drone_id, drone, fields);
+}
+
+export async function updateMissionInCsv(mission: Mission, fields?: string[]): Promise<void> {
+  await upsertCSVRow(CSV_FILES.missions, 'mission', mission.project_id, mission, fields);
+}
+
+export async function updateEquipmentInCsv(item: Equipment, fields?: string[]): Promise<void> {
+  await upsertCSVRow(CSV_FILES.equipment, 'equipment', item.equipment_id, item, fields);
+}
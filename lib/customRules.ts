@@ -0,0 +1,23 @@
+// ============================================
+// Custom Conflict Rules
+// ============================================
+// Deployment-specific checks, registered after the built-in rules. A rule
+// looks at one crew member, drone, booked item or mission and returns
+// findings; see lib/conflictRules.ts for the shapes. For example, a client
+// that only accepts pilots holding its own induction:
+//
+//   {
+//     id: 'client.acme_induction',
+//     subject: 'pilot',
+//     description: 'Acme missions need Acme-inducted crew',
+//     type: 'certification_mismatch',
+//     severity: 'error',
+//     check: ({ pilot, mission }) =>
+//       mission.client === 'Acme' && !pilot.certifications.some((c) => c.type === 'Acme Induction')
+//         ? [{ message: `Pilot ${pilot.name} has no Acme induction for ${mission.project_id}`, entities: [pilot.pilot_id, mission.project_id] }]
+//         : [],
+//   }
+
+import type { ConflictRule } from './conflictRules';
+
+export const CUSTOM_RULES: ConflictRule[] = [];
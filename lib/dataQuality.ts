@@ -0,0 +1,258 @@
+// ============================================
+// Data Quality - Validation of Ingested Rows
+// ============================================
+// Every row pulled from the data source is checked against the entity
+// schemas (enums, ISO dates, end_date >= start_date, required fields) and
+// for duplicate IDs before it reaches the data store. Depending on
+// DATA_QUALITY_MODE, recognizable mistakes are coerced ("urgent " -> "Urgent")
+// or the row is quarantined: held back from the data store, reported, and
+// written back to the source untouched on a full push.
+
+import type { z } from 'zod';
+import type {
+  DataSnapshot,
+  RawRecord,
+  RawSnapshot,
+  DataQualityIssue,
+  DataQualityMode,
+  DataQualityReport,
+  EntityType,
+} from './types';
+import {
+  PilotSchema,
+  DroneSchema,
+  MissionCreateSchema,
+  EquipmentSchema,
+  PilotStatusSchema,
+  DroneStatusSchema,
+  EquipmentTypeSchema,
+  EquipmentStatusSchema,
+  MissionStatusSchema,
+  PrioritySchema,
+  IsoDateSchema,
+  TimeSchema,
+  formatZodIssues,
+} from './schemas';
+import { ID_FIELDS } from './rowMapping';
+import { getStorage } from './storage';
+
+const REPORT_KEY = 'data_quality_report';
+
+const ENUM_FIELDS: Record<EntityType, Record<string, readonly string[]>> = {
+  pilot: { status: PilotStatusSchema.options },
+  drone: { status: DroneStatusSchema.options },
+  mission: { priority: PrioritySchema.options, mission_status: MissionStatusSchema.options },
+  equipment: { type: EquipmentTypeSchema.options, status: EquipmentStatusSchema.options },
+};
+
+const DATE_FIELDS: Record<EntityType, string[]> = {
+  pilot: ['available_from'],
+  drone: ['maintenance_due'],
+  mission: ['start_date', 'end_date'],
+  equipment: [],
+};
+
+const TIME_FIELDS: Record<EntityType, string[]> = {
+  pilot: [],
+  drone: [],
+  mission: ['start_time', 'end_time'],
+  equipment: [],
+};
+
+let lastReport: DataQualityReport | null = null;
+
+export function getDataQualityMode(): DataQualityMode {
+  return process.env.DATA_QUALITY_MODE?.toLowerCase() === 'quarantine' ? 'quarantine' : 'coerce';
+}
+
+// ---- COERCION ----
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Case/whitespace differences, or a typo close to exactly one allowed value
+function coerceEnum(value: unknown, options: readonly string[]): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const cleaned = value.trim().toLowerCase();
+  const exact = options.find((o) => o.toLowerCase() === cleaned);
+  if (exact) return exact;
+  const near = options.filter((o) => editDistance(o.toLowerCase(), cleaned) <= 2);
+  return near.length === 1 ? near[0] : null;
+}
+
+// 2026/2/5, 2026.02.05 and 2026-02-05T09:00 -> 2026-02-05. Day-first and
+// month-first formats are ambiguous and left alone.
+function coerceDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/);
+  if (!match) return null;
+  const iso = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return IsoDateSchema.safeParse(iso).success ? iso : null;
+}
+
+// 9:00, 9.30 and 0930 -> 09:00, 09:30
+function coerceTime(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{1,2})[:.h]?(\d{2})$/);
+  if (!match) return null;
+  const time = `${match[1].padStart(2, '0')}:${match[2]}`;
+  return TimeSchema.safeParse(time).success ? time : null;
+}
+
+// ---- VALIDATION ----
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Empty rows below the data (enum columns get defaults when read, so ignore them)
+function isBlankRow(entity: EntityType, record: Record<string, unknown>): boolean {
+  return Object.entries(record).every(([field, value]) => field in ENUM_FIELDS[entity] || isEmptyValue(value));
+}
+
+function validateTable<T>(
+  entity: EntityType,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  records: RawRecord[],
+  mode: DataQualityMode,
+  report: DataQualityReport
+): T[] {
+  const valid: T[] = [];
+  const seen = new Set<string>();
+
+  records.forEach((raw, i) => {
+    const row = i + 2;
+    const record = { ...raw };
+    if (isBlankRow(entity, record)) return;
+
+    report.records_checked++;
+    const id = String(record[ID_FIELDS[entity]] ?? '').trim();
+    const coercions: DataQualityIssue[] = [];
+    const issue = (field: string, message: string, action: DataQualityIssue['action']): DataQualityIssue => ({
+      entity_type: entity,
+      entity_id: id,
+      row,
+      field,
+      value: raw[field] ?? null,
+      message,
+      action,
+    });
+
+    if (mode === 'coerce') {
+      for (const [field, options] of Object.entries(ENUM_FIELDS[entity])) {
+        if (options.includes(record[field] as string)) continue;
+        const fixed = coerceEnum(record[field], options);
+        if (fixed) {
+          coercions.push({ ...issue(field, `"${record[field]}" is not a valid ${field}`, 'coerced'), coerced_to: fixed });
+          record[field] = fixed;
+        }
+      }
+      for (const field of DATE_FIELDS[entity]) {
+        if (IsoDateSchema.safeParse(record[field]).success) continue;
+        const fixed = coerceDate(record[field]);
+        if (fixed) {
+          coercions.push({ ...issue(field, `"${record[field]}" is not a YYYY-MM-DD date`, 'coerced'), coerced_to: fixed });
+          record[field] = fixed;
+        }
+      }
+      for (const field of TIME_FIELDS[entity]) {
+        if (record[field] === undefined || TimeSchema.safeParse(record[field]).success) continue;
+        const fixed = coerceTime(record[field]);
+        if (fixed) {
+          coercions.push({ ...issue(field, `"${record[field]}" is not an HH:MM time`, 'coerced'), coerced_to: fixed });
+          record[field] = fixed;
+        }
+      }
+    }
+
+    const problems: Array<{ field: string; message: string }> = [];
+    if (id && seen.has(id)) {
+      problems.push({ field: ID_FIELDS[entity], message: `Duplicate ID ${id}; an earlier row already uses it` });
+    }
+    const parsed = schema.safeParse(record);
+    if (!parsed.success) {
+      problems.push(...formatZodIssues(parsed.error).map((p) => ({ field: p.path || '*', message: p.message })));
+    }
+
+    if (!parsed.success || problems.length > 0) {
+      report.quarantined.push({ entity_type: entity, entity_id: id, row, record: raw });
+      report.issues.push(...problems.map((p) => issue(p.field, p.message, 'quarantined')));
+      return;
+    }
+
+    seen.add(id);
+    if (coercions.length > 0) {
+      report.coerced++;
+      report.issues.push(...coercions);
+    }
+    valid.push(parsed.data);
+  });
+
+  return valid;
+}
+
+// Validate a snapshot read from a data source. Returns the rows that may
+// enter the data store and a report of everything that was fixed or held back.
+export function checkDataQuality(
+  snapshot: RawSnapshot,
+  source: string,
+  mode: DataQualityMode = getDataQualityMode()
+): { snapshot: DataSnapshot; report: DataQualityReport } {
+  const report: DataQualityReport = {
+    checked_at: new Date().toISOString(),
+    source,
+    mode,
+    records_checked: 0,
+    coerced: 0,
+    quarantined: [],
+    issues: [],
+  };
+
+  return {
+    snapshot: {
+      pilots: validateTable('pilot', PilotSchema, snapshot.pilots, mode, report),
+      drones: validateTable('drone', DroneSchema, snapshot.drones, mode, report),
+      missions: validateTable('mission', MissionCreateSchema, snapshot.missions, mode, report),
+      equipment: validateTable('equipment', EquipmentSchema, snapshot.equipment, mode, report),
+    },
+    report,
+  };
+}
+
+// ---- REPORT ----
+
+export async function saveDataQualityReport(report: DataQualityReport): Promise<void> {
+  lastReport = report;
+  try {
+    await getStorage().write<DataQualityReport>(REPORT_KEY, report);
+  } catch (error) {
+    console.error('Failed to persist data quality report:', error);
+  }
+}
+
+export async function getDataQualityReport(): Promise<DataQualityReport | null> {
+  if (lastReport) return lastReport;
+  try {
+    lastReport = await getStorage().read<DataQualityReport>(REPORT_KEY);
+  } catch (error) {
+    console.error('Failed to read data quality report:', error);
+  }
+  return lastReport;
+}
+
+// Quarantined rows as they were read, so a full write does not delete them
+export async function getQuarantinedRecords(entity: EntityType): Promise<RawRecord[]> {
+  const report = await getDataQualityReport();
+  return (report?.quarantined || []).filter((q) => q.entity_type === entity).map((q) => q.record);
+}
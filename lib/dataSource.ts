@@ -0,0 +1,121 @@
+// ============================================
+// Data Source Selection - Google Sheets or CSV
+// ============================================
+
+import type { Pilot, Drone, Mission, Equipment, RawRecord } from './types';
+import {
+  isGoogleSheetsConfigured,
+  readPilotsFromSheet,
+  readDronesFromSheet,
+  readMissionsFromSheet,
+  readEquipmentFromSheet,
+  updatePilotRow,
+  updateDroneRow,
+  updateMissionRow,
+  updateEquipmentRow,
+  appendPilotRow,
+  appendDroneRow,
+  appendMissionRow,
+  appendEquipmentRow,
+  syncPilotsToSheet,
+  syncDronesToSheet,
+  syncMissionsToSheet,
+  syncEquipmentToSheet,
+} from './googleSheets';
+import {
+  readPilotsFromCsv,
+  readDronesFromCsv,
+  readMissionsFromCsv,
+  readEquipmentFromCsv,
+  updatePilotInCsv,
+  updateDroneInCsv,
+  updateMissionInCsv,
+  updateEquipmentInCsv,
+  writePilotsToCsv,
+  writeDronesToCsv,
+  writeMissionsToCsv,
+  writeEquipmentToCsv,
+} from './csvSource';
+
+export type DataSourceKind = 'google_sheets' | 'csv';
+
+// The system of record the data store pulls from and writes changes back to
+export interface DataSource {
+  readonly kind: DataSourceKind;
+  // Rows come back untyped; the data quality check validates them
+  readPilots(): Promise<RawRecord[]>;
+  readDrones(): Promise<RawRecord[]>;
+  readMissions(): Promise<RawRecord[]>;
+  readEquipment(): Promise<RawRecord[]>;
+  // Single-record updates locate the row by the record's ID. Given `fields`,
+  // only those cells are written and the rest of the row is left as it is.
+  updatePilot(pilot: Pilot, fields?: string[]): Promise<void>;
+  updateDrone(drone: Drone, fields?: string[]): Promise<void>;
+  updateMission(mission: Mission, fields?: string[]): Promise<void>;
+  updateEquipment(item: Equipment, fields?: string[]): Promise<void>;
+  appendPilot(pilot: Pilot): Promise<void>;
+  appendDrone(drone: Drone): Promise<void>;
+  appendMission(mission: Mission): Promise<void>;
+  appendEquipment(item: Equipment): Promise<void>;
+  // Full-table writes; `held` rows (held back by the data quality check) are
+  // written after the records, as they were read
+  writePilots(pilots: Pilot[], held?: RawRecord[]): Promise<void>;
+  writeDrones(drones: Drone[], held?: RawRecord[]): Promise<void>;
+  writeMissions(missions: Mission[], held?: RawRecord[]): Promise<void>;
+  writeEquipment(equipment: Equipment[], held?: RawRecord[]): Promise<void>;
+}
+
+const googleSheetsSource: DataSource = {
+  kind: 'google_sheets',
+  readPilots: readPilotsFromSheet,
+  readDrones: readDronesFromSheet,
+  readMissions: readMissionsFromSheet,
+  readEquipment: readEquipmentFromSheet,
+  updatePilot: updatePilotRow,
+  updateDrone: updateDroneRow,
+  updateMission: updateMissionRow,
+  updateEquipment: updateEquipmentRow,
+  appendPilot: appendPilotRow,
+  appendDrone: appendDroneRow,
+  appendMission: appendMissionRow,
+  appendEquipment: appendEquipmentRow,
+  writePilots: syncPilotsToSheet,
+  writeDrones: syncDronesToSheet,
+  writeMissions: syncMissionsToSheet,
+  writeEquipment: syncEquipmentToSheet,
+};
+
+const csvSource: DataSource = {
+  kind: 'csv',
+  readPilots: readPilotsFromCsv,
+  readDrones: readDronesFromCsv,
+  readMissions: readMissionsFromCsv,
+  readEquipment: readEquipmentFromCsv,
+  updatePilot: updatePilotInCsv,
+  updateDrone: updateDroneInCsv,
+  updateMission: updateMissionInCsv,
+  updateEquipment: updateEquipmentInCsv,
+  appendPilot: updatePilotInCsv,
+  appendDrone: updateDroneInCsv,
+  appendMission: updateMissionInCsv,
+  appendEquipment: updateEquipmentInCsv,
+  writePilots: writePilotsToCsv,
+  writeDrones: writeDronesToCsv,
+  writeMissions: writeMissionsToCsv,
+  writeEquipment: writeEquipmentToCsv,
+};
+
+// DATA_SOURCE selects the source explicitly ("google_sheets", "csv" or "none").
+// When unset, Google Sheets is used if its credentials are present.
+export function getDataSource(): DataSource | null {
+  const selected = (process.env.DATA_SOURCE || '').toLowerCase();
+
+  if (selected === 'csv') return csvSource;
+  if (selected === 'none') return null;
+  if (selected === 'google_sheets' || selected === 'sheets' || selected === '') {
+    return isGoogleSheetsConfigured() ? googleSheetsSource : null;
+  }
+
+  console.error(`Unknown DATA_SOURCE "${process.env.DATA_SOURCE}", ignoring`);
+  return isGoogleSheetsConfigured() ? googleSheetsSource : null;
+}
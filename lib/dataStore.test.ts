@@ -0,0 +1,136 @@
+import { copyFileSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initializeData, updatePilot, getPilotById, getDroneById, forceSync, createPilot, runTransaction } from './dataStore';
+import { getPendingWrite } from './outbox';
+import { parseCSV, serializeCSV } from './csvSource';
+import { getMissionTransitions } from './lifecycle';
+
+let dir: string;
+
+function pilotRow(id: string): Record<string, string> {
+  const [headers, ...rows] = parseCSV(readFileSync(path.join(dir, 'pilot_roster.csv'), 'utf8'));
+  const row = rows.find((r) => r[0] === id)!;
+  return Object.fromEntries(headers.map((h, i) => [h, row[i]]));
+}
+
+// An edit made by hand in the source, outside the app (adding the column if
+// the sheet doesn't have it yet)
+function editCell(file: string, id: string, column: string, value: string): void {
+  const rows = parseCSV(readFileSync(path.join(dir, file), 'utf8'));
+  if (!rows[0].includes(column)) rows.forEach((r, i) => r.push(i === 0 ? column : ''));
+  rows.find((r) => r[0] === id)![rows[0].indexOf(column)] = value;
+  writeFileSync(path.join(dir, file), serializeCSV(rows));
+}
+
+function editPilotCell(id: string, column: string, value: string): void {
+  editCell('pilot_roster.csv', id, column, value);
+}
+
+beforeAll(async () => {
+  dir = mkdtempSync(path.join(tmpdir(), 'data-store-'));
+  for (const file of ['pilot_roster.csv', 'drone_fleet.csv', 'missions.csv', 'equipment.csv']) {
+    copyFileSync(path.join(__dirname, '..', file), path.join(dir, file));
+  }
+  process.env.CSV_DATA_DIR = dir;
+  process.env.DATA_SOURCE = 'csv';
+  await initializeData();
+});
+
+describe('single-record write-back', () => {
+  it('writes only the changed fields, keeping edits made in the source', async () => {
+    editPilotCell('P005', 'location', 'Jaipur');
+
+    await updatePilot('P005', { name: 'Vikram S' }, { source: 'api' });
+
+    expect(pilotRow('P005')).toMatchObject({ name: 'Vikram S', location: 'Jaipur' });
+  });
+
+  it('picks the source edit up on the next pull', async () => {
+    await forceSync();
+    expect(await getPilotById('P005')).toMatchObject({ name: 'Vikram S', location: 'Jaipur' });
+  });
+});
+
+describe('queued creations', () => {
+  it('appends a record whose creation is still queued when a transaction changes it', async () => {
+    process.env.CSV_DATA_DIR = path.join(dir, 'missing');
+    await createPilot({
+      pilot_id: 'P901', name: 'Kiran', skills: ['Mapping'], certifications: [{ type: 'DGCA' }], location: 'Pune',
+      status: 'Available', current_assignment: '', available_from: '2026-02-05',
+    }, { source: 'api' });
+    expect((await getPendingWrite('pilot', 'P901'))?.operation).toBe('append');
+    process.env.CSV_DATA_DIR = dir;
+
+    const result = await runTransaction([{ entity: 'pilot', id: 'P901', updates: { location: 'Nagpur' } }], { source: 'api' });
+
+    expect(result.success).toBe(true);
+    expect(pilotRow('P901')).toMatchObject({ name: 'Kiran', location: 'Nagpur' });
+    expect(await getPendingWrite('pilot', 'P901')).toBeNull();
+  });
+});
+
+describe('quarantined rows', () => {
+  it('keeps the record while its source row fails validation', async () => {
+    editPilotCell('P003', 'available_from', 'next week');
+
+    await forceSync();
+
+    expect(await getPilotById('P003')).toMatchObject({ name: 'Rohit', available_from: '2026-02-05' });
+    expect(pilotRow('P003').available_from).toBe('next week');
+  });
+});
+
+describe('calendar-derived status', () => {
+  it('turns an On Leave status edited in the source into a leave block', async () => {
+    editPilotCell('P001', 'availability', '');
+    editPilotCell('P001', 'available_from', '2099-01-01');
+    editPilotCell('P001', 'status', 'On Leave');
+
+    await forceSync();
+
+    const pilot = await getPilotById('P001');
+    expect(pilot?.status).toBe('On Leave');
+    expect(pilot?.availability).toHaveLength(1);
+    expect(pilotRow('P001').availability).toMatch(/^Leave /);
+  });
+
+  it('re-derives a status left unchanged in the source once its block is removed', async () => {
+    editPilotCell('P001', 'availability', '');
+
+    await forceSync();
+
+    const pilot = await getPilotById('P001');
+    expect(pilot?.status).toBe('Available');
+    expect(pilot?.availability ?? []).toHaveLength(0);
+    expect(pilotRow('P001').status).toBe('Available');
+  });
+});
+
+describe('maintenance status', () => {
+  it('opens a repair window for a Maintenance status set in the source after earlier windows', async () => {
+    editCell('drone_fleet.csv', 'D001', 'maintenance_windows', 'Service 2026-01-05..2026-01-06');
+    await forceSync();
+    editCell('drone_fleet.csv', 'D001', 'status', 'Maintenance');
+
+    await forceSync();
+
+    const drone = await getDroneById('D001');
+    expect(drone?.status).toBe('Maintenance');
+    expect(drone?.maintenance_windows?.map((w) => w.kind)).toEqual(['service', 'repair']);
+  });
+});
+
+describe('missions closed in the source', () => {
+  it('releases the crew and logs the transition', async () => {
+    editCell('missions.csv', 'PRJ002', 'mission_status', 'Completed');
+
+    await forceSync();
+
+    expect(await getPilotById('P002')).toMatchObject({ status: 'Available', current_assignment: '' });
+    expect(await getMissionTransitions('PRJ002')).toEqual([
+      expect.objectContaining({ from: 'Active', to: 'Completed', source: 'sync', released: ['P002'] }),
+    ]);
+  });
+});
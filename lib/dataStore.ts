@@ -1,52 +1,85 @@
 // ============================================
-// In-Memory Data Store with Google Sheets Sync
+// Data Store with Pluggable Persistence and Source Sync
 // ============================================
 
-import type { Pilot, Drone, Mission, PilotStatus, DroneStatus, MissionStatus } from './types';
+import { AsyncLocalStorage } from 'async_hooks';
+import type {
+  Pilot,
+  Drone,
+  Mission,
+  Equipment,
+  PilotStatus,
+  DroneStatus,
+  EquipmentStatus,
+  DataSnapshot,
+  EntityType,
+  EntityChange,
+  MutationContext,
+  Conflict,
+  MergeSummary,
+  SyncConflict,
+  SyncConflictPolicy,
+  OutboxEntry,
+  OutboxOperation,
+} from './types';
+import { getStorage } from './storage';
+import { recordChange } from './auditLog';
+import { isGoogleSheetsConfigured } from './googleSheets';
+import { getDataSource } from './dataSource';
+import type { DataSource } from './dataSource';
+import { mergeTable, diffFields, recordsEqual } from './syncMerge';
 import {
-  isGoogleSheetsConfigured,
-  readPilotsFromSheet,
-  readDronesFromSheet,
-  readMissionsFromSheet,
-  updatePilotRow,
-  updateDroneRow,
-  updateMissionRow,
-  syncPilotsToSheet,
-  syncDronesToSheet,
-  syncMissionsToSheet,
-} from './googleSheets';
-
-// ---- SEED DATA (fallback when Google Sheets is not configured) ----
+  enqueueWrite,
+  getPendingWrite,
+  clearWrite,
+  clearAllWrites,
+  flushOutbox,
+  hasDueWrites,
+  getOutboxStatus,
+} from './outbox';
+import { checkDataQuality, saveDataQualityReport, getQuarantinedRecords } from './dataQuality';
+import { checkIntegrity, saveIntegrityReport } from './integrity';
+import { calendarStatus, isOnLeave, leaveBlockFor, blocksBetween } from './availability';
+import { maintenanceStatus, inMaintenance, openRepairWindow, closeOpenWindows, windowsBetween, dueAfterService } from './maintenance';
+import { describeDateBlock, isOpenEnded } from './dateBlocks';
+import { openFlightLog, droneFlightSummary } from './flightLogs';
+import { localToday } from './scheduling';
+import { fitsModel } from './equipment';
+import { crewIds, migrateLegacyAssignments } from './crew';
+import { isClosed, releaseChanges, recordTransition } from './lifecycle';
+import { certificationTypes, migrateLegacyCertifications } from './certifications';
+
+// ---- SEED DATA (fallback when no data source is configured) ----
 
 const SEED_PILOTS: Pilot[] = [
   {
     pilot_id: 'P001', name: 'Arjun', skills: ['Mapping', 'Survey'],
-    certifications: ['DGCA', 'Night Ops'], location: 'Bangalore',
+    certifications: [{ type: 'DGCA' }, { type: 'Night Ops' }], location: 'Bangalore',
     status: 'Available', current_assignment: '', available_from: '2026-02-05',
   },
   {
     pilot_id: 'P002', name: 'Neha', skills: ['Inspection'],
-    certifications: ['DGCA'], location: 'Mumbai',
+    certifications: [{ type: 'DGCA' }], location: 'Mumbai',
     status: 'Assigned', current_assignment: 'PRJ002', available_from: '2026-02-12',
   },
   {
     pilot_id: 'P003', name: 'Rohit', skills: ['Inspection', 'Mapping'],
-    certifications: ['DGCA'], location: 'Mumbai',
+    certifications: [{ type: 'DGCA' }], location: 'Mumbai',
     status: 'Available', current_assignment: '', available_from: '2026-02-05',
   },
   {
     pilot_id: 'P004', name: 'Sneha', skills: ['Survey', 'Thermal'],
-    certifications: ['DGCA', 'Night Ops'], location: 'Bangalore',
+    certifications: [{ type: 'DGCA' }, { type: 'Night Ops' }], location: 'Bangalore',
     status: 'On Leave', current_assignment: '', available_from: '2026-02-15',
   },
   {
     pilot_id: 'P005', name: 'Vikram', skills: ['Survey', 'Mapping'],
-    certifications: ['DGCA'], location: 'Delhi',
+    certifications: [{ type: 'DGCA' }], location: 'Delhi',
     status: 'Available', current_assignment: '', available_from: '2026-02-05',
   },
   {
     pilot_id: 'P006', name: 'Priya', skills: ['Thermal', 'Inspection'],
-    certifications: ['DGCA', 'Night Ops'], location: 'Bangalore',
+    certifications: [{ type: 'DGCA' }, { type: 'Night Ops' }], location: 'Bangalore',
     status: 'Available', current_assignment: '', available_from: '2026-02-05',
   },
 ];
@@ -83,83 +116,568 @@ const SEED_MISSIONS: Mission[] = [
     project_id: 'PRJ001', client: 'Client A', location: 'Bangalore',
     required_skills: ['Mapping'], required_certs: ['DGCA'],
     start_date: '2026-02-06', end_date: '2026-02-08', priority: 'High',
-    assigned_pilot: '', assigned_drone: '', mission_status: 'Planned',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
   },
   {
     project_id: 'PRJ002', client: 'Client B', location: 'Mumbai',
     required_skills: ['Inspection'], required_certs: ['DGCA', 'Night Ops'],
     start_date: '2026-02-07', end_date: '2026-02-09', priority: 'Urgent',
-    assigned_pilot: 'P002', assigned_drone: '', mission_status: 'Active',
+    crew: [{ pilot_id: 'P002', role: 'PIC' }], assigned_drones: [], mission_status: 'Active',
   },
   {
     project_id: 'PRJ003', client: 'Client C', location: 'Bangalore',
     required_skills: ['Thermal'], required_certs: ['DGCA'],
     start_date: '2026-02-10', end_date: '2026-02-12', priority: 'Standard',
-    assigned_pilot: '', assigned_drone: '', mission_status: 'Planned',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
   },
   {
     project_id: 'PRJ004', client: 'Client D', location: 'Delhi',
     required_skills: ['Survey'], required_certs: ['DGCA'],
     start_date: '2026-02-11', end_date: '2026-02-14', priority: 'Standard',
-    assigned_pilot: '', assigned_drone: '', mission_status: 'Planned',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
   },
   {
     project_id: 'PRJ005', client: 'Client E', location: 'Mumbai',
     required_skills: ['Inspection', 'Thermal'], required_certs: ['DGCA', 'Night Ops'],
     start_date: '2026-02-08', end_date: '2026-02-10', priority: 'High',
-    assigned_pilot: '', assigned_drone: '', mission_status: 'Planned',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
   },
 ];
 
+const SEED_EQUIPMENT: Equipment[] = [
+  {
+    equipment_id: 'E001', name: 'Zenmuse L1 LiDAR', type: 'Payload', compatible_models: ['DJI M300'],
+    status: 'Available', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E002', name: 'Zenmuse H20T', type: 'Payload', compatible_models: ['DJI M300'],
+    status: 'Available', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E003', name: 'TB60 battery set', type: 'Battery', compatible_models: ['DJI M300'],
+    status: 'Available', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E004', name: 'Mavic 3 battery set', type: 'Battery', compatible_models: ['DJI Mavic 3', 'DJI Mavic 3T'],
+    status: 'Available', location: 'Mumbai', current_assignment: '',
+  },
+  {
+    equipment_id: 'E005', name: 'TB30 battery set', type: 'Battery', compatible_models: ['DJI M30T'],
+    status: 'Available', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E006', name: 'Evo II battery set', type: 'Battery', compatible_models: ['Autel Evo II'],
+    status: 'Maintenance', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E007', name: 'D-RTK 2 base station', type: 'Ground Kit', compatible_models: [],
+    status: 'Available', location: 'Bangalore', current_assignment: '',
+  },
+  {
+    equipment_id: 'E008', name: 'D-RTK 2 base station', type: 'Ground Kit', compatible_models: [],
+    status: 'Available', location: 'Mumbai', current_assignment: '',
+  },
+];
+
+const SEED_DATA: DataSnapshot = {
+  pilots: SEED_PILOTS,
+  drones: SEED_DRONES,
+  missions: SEED_MISSIONS,
+  equipment: SEED_EQUIPMENT,
+};
+
 // ---- DATA STORE ----
 
+const SNAPSHOT_KEY = 'snapshot';
+const SYNC_BASE_KEY = 'sync_base';
+const SYNC_CONFLICTS_KEY = 'sync_conflicts';
+const MAX_SYNC_CONFLICTS = 200;
+const PULL_INTERVAL_MS = 5 * 60 * 1000; // re-sync from the data source this often
+
 let pilots: Pilot[] = [];
 let drones: Drone[] = [];
 let missions: Mission[] = [];
+let equipment: Equipment[] = [];
 let initialized = false;
 let lastSyncTime: Date | null = null;
+let transactionInProgress = false;
+let calendarDay: string | null = null; // day the statuses were last derived for
+
+// Last version of each record known to match the data source (the merge base)
+let syncBase: DataSnapshot | null = null;
+let syncConflicts: SyncConflict[] | null = null;
+let lastMerge: { timestamp: string; summary: MergeSummary } | null = null;
+
+function applySnapshot(snapshot: DataSnapshot): void {
+  pilots = JSON.parse(JSON.stringify(snapshot.pilots));
+  drones = JSON.parse(JSON.stringify(snapshot.drones));
+  missions = JSON.parse(JSON.stringify(snapshot.missions));
+  equipment = JSON.parse(JSON.stringify(snapshot.equipment));
+  initialized = true;
+  lastSyncTime = new Date();
+}
+
+// Snapshots stored before equipment was tracked have no equipment table, ones
+// stored before crews hold single pilot/drone assignments on missions, and
+// ones stored before certificate details list certifications as names
+function withAllTables(snapshot: DataSnapshot | null): DataSnapshot | null {
+  if (snapshot && !snapshot.equipment) snapshot.equipment = [];
+  snapshot?.pilots.forEach(migrateLegacyCertifications);
+  snapshot?.missions.forEach(migrateLegacyAssignments);
+  return snapshot;
+}
+
+async function loadStoredSnapshot(): Promise<DataSnapshot | null> {
+  try {
+    return withAllTables(await getStorage().read<DataSnapshot>(SNAPSHOT_KEY));
+  } catch (error) {
+    console.error('Failed to read from local storage:', error);
+    return null;
+  }
+}
+
+// Persist the current in-memory state through the configured storage adapter.
+// A storage failure is logged but never fails the operation that caused it.
+async function persistSnapshot(): Promise<void> {
+  try {
+    await getStorage().write<DataSnapshot>(SNAPSHOT_KEY, { pilots, drones, missions, equipment });
+  } catch (error) {
+    console.error('Failed to persist data to local storage:', error);
+  }
+}
+
+// ---- SYNC STATE ----
+
+function cloneSnapshot(snapshot: DataSnapshot): DataSnapshot {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+async function loadSyncBase(): Promise<DataSnapshot | null> {
+  if (syncBase) return syncBase;
+  try {
+    syncBase = withAllTables(await getStorage().read<DataSnapshot>(SYNC_BASE_KEY));
+  } catch (error) {
+    console.error('Failed to read sync base from local storage:', error);
+  }
+  return syncBase;
+}
+
+async function persistSyncBase(): Promise<void> {
+  if (!syncBase) return;
+  try {
+    await getStorage().write<DataSnapshot>(SYNC_BASE_KEY, syncBase);
+  } catch (error) {
+    console.error('Failed to persist sync base to local storage:', error);
+  }
+}
+
+async function loadSyncConflicts(): Promise<SyncConflict[]> {
+  if (syncConflicts) return syncConflicts;
+  try {
+    syncConflicts = (await getStorage().read<SyncConflict[]>(SYNC_CONFLICTS_KEY)) || [];
+  } catch (error) {
+    console.error('Failed to read sync conflicts from local storage:', error);
+    syncConflicts = [];
+  }
+  return syncConflicts;
+}
+
+async function saveSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+  syncConflicts = conflicts.slice(0, MAX_SYNC_CONFLICTS);
+  try {
+    await getStorage().write<SyncConflict[]>(SYNC_CONFLICTS_KEY, syncConflicts);
+  } catch (error) {
+    console.error('Failed to persist sync conflicts to local storage:', error);
+  }
+}
+
+// A record now matches the data source; make it the new merge base
+async function markSynced(entity: EntityType, record: Pilot | Drone | Mission | Equipment): Promise<void> {
+  if (!syncBase) return;
+  const table = tableOf(syncBase, entity);
+  const id = recordId(entity, record);
+  const index = table.findIndex((r) => recordId(entity, r) === id);
+  const copy = JSON.parse(JSON.stringify(record));
+  if (index === -1) table.push(copy);
+  else table[index] = copy;
+  await persistSyncBase();
+}
+
+function tableOf(snapshot: DataSnapshot, entity: EntityType): Array<Pilot | Drone | Mission | Equipment> {
+  if (entity === 'pilot') return snapshot.pilots;
+  if (entity === 'drone') return snapshot.drones;
+  if (entity === 'equipment') return snapshot.equipment;
+  return snapshot.missions;
+}
+
+function getConflictPolicy(): SyncConflictPolicy {
+  return process.env.SYNC_CONFLICT_POLICY?.toLowerCase() === 'local' ? 'local' : 'remote';
+}
+
+// ---- PULL WITH THREE-WAY MERGE ----
+// Edits made in the source since the last sync are merged into local state
+// field by field instead of replacing it, and local edits that never reached
+// the source (failed write-backs, offline work) are pushed. Fields changed on
+// both sides are resolved by SYNC_CONFLICT_POLICY ("remote" by default) and
+// reported, so the losing value is never silently dropped.
+
+async function pullFromSource(dataSource: DataSource): Promise<MergeSummary> {
+  // Only rows that pass validation take part in the merge
+  const { snapshot: remote, report } = checkDataQuality(
+    {
+      pilots: await dataSource.readPilots(),
+      drones: await dataSource.readDrones(),
+      missions: await dataSource.readMissions(),
+      equipment: await dataSource.readEquipment(),
+    },
+    dataSource.kind
+  );
+  await saveDataQualityReport(report);
+
+  const base = await loadSyncBase();
+  const local = initialized ? { pilots, drones, missions, equipment } : await loadStoredSnapshot();
+
+  // First sync: nothing to merge against, the source is authoritative
+  if (!base || !local) {
+    applySnapshot(remote);
+    syncBase = cloneSnapshot(remote);
+    await persistSnapshot();
+    await persistSyncBase();
+    await applyCalendarStatuses(null);
+    return { pulled: 0, pushed: 0, conflicts: [] };
+  }
+
+  const detectedAt = new Date().toISOString();
+  const policy = getConflictPolicy();
+  const merged: DataSnapshot = { pilots: [], drones: [], missions: [], equipment: [] };
+  const conflicts: SyncConflict[] = [];
+  const pulledChanges: Array<{ entity: EntityType; before?: Pilot | Drone | Mission | Equipment; after: Pilot | Drone | Mission | Equipment }> = [];
+  const pushes: Array<{ entity: EntityType; id: string; append: boolean }> = [];
+  const nextBase = cloneSnapshot(remote);
+  const held: Array<{ entity: EntityType; id: string }> = [];
+
+  const tables: Array<{ entity: EntityType; key: keyof DataSnapshot }> = [
+    { entity: 'pilot', key: 'pilots' },
+    { entity: 'drone', key: 'drones' },
+    { entity: 'mission', key: 'missions' },
+    { entity: 'equipment', key: 'equipment' },
+  ];
+  for (const { entity, key } of tables) {
+    const result = mergeTable<Pilot | Drone | Mission | Equipment>(
+      entity,
+      base[key],
+      local[key],
+      remote[key],
+      (r) => recordId(entity, r),
+      policy,
+      detectedAt,
+      new Set(report.quarantined.filter((q) => q.entity_type === entity).map((q) => q.entity_id))
+    );
+    conflicts.push(...result.conflicts);
+
+    for (const record of result.records) {
+      if (!record.merged) continue;
+      (merged[key] as Array<Pilot | Drone | Mission | Equipment>).push(record.merged);
+      if (record.held) {
+        held.push({ entity, id: record.id });
+        // Keep merging against the last version that passed validation
+        const kept = tableOf(base, entity).find((r) => recordId(entity, r) === record.id);
+        if (kept) tableOf(nextBase, entity).push(JSON.parse(JSON.stringify(kept)));
+        continue;
+      }
+      if (!record.local || !recordsEqual(record.local, record.merged)) {
+        pulledChanges.push({ entity, before: record.local, after: record.merged });
+      }
+      if (!record.remote || !recordsEqual(record.remote, record.merged)) {
+        pushes.push({ entity, id: record.id, append: !record.remote });
+      }
+    }
+  }
+
+  applySnapshot(merged);
+  syncBase = nextBase;
+
+  let pushed = 0;
+  for (const push of pushes) {
+    const index = recordsOf(push.entity).findIndex((r) => recordId(push.entity, r) === push.id);
+    const operation: OutboxOperation = push.append ? 'append' : 'update';
+    try {
+      if (push.append) await appendToSource(push.entity, index);
+      else await writeToSource(push.entity, index);
+      await clearWrite(push.entity, push.id);
+      pushed++;
+    } catch (error) {
+      console.error(`Failed to push merged ${push.entity} ${push.id} to ${dataSource.kind}, queued for retry:`, error);
+      await enqueueWrite(push.entity, push.id, operation, error);
+    }
+  }
+
+  // Queued writes for records that now match the source are no longer needed
+  const outbox = await getOutboxStatus();
+  const waiting = [...pushes, ...held];
+  for (const entry of [...outbox.pending, ...outbox.failed]) {
+    if (!waiting.some((p) => p.entity === entry.entity_type && p.id === entry.entity_id)) {
+      await clearWrite(entry.entity_type, entry.entity_id);
+    }
+  }
+
+  await persistSnapshot();
+  await persistSyncBase();
+
+  const syncContext: MutationContext = { source: 'sync', reason: `Merged changes from ${dataSource.kind}` };
+  for (const change of pulledChanges) {
+    const id = recordId(change.entity, change.after);
+    if (change.entity === 'mission') {
+      await openLogIfCompleted(change.before as Mission | null, change.after as Mission);
+    }
+    if (change.before) {
+      await auditUpdate(change.entity, id, change.before, change.after, syncContext);
+      if (change.entity === 'mission') await releaseIfClosed(change.before as Mission, change.after as Mission, syncContext);
+    } else {
+      await recordChange(syncContext, {
+        entity_type: change.entity,
+        entity_id: id,
+        action: 'create',
+        before: null,
+        after: { ...change.after },
+      });
+    }
+  }
+
+  if (conflicts.length > 0) {
+    await saveSyncConflicts([...conflicts, ...(await loadSyncConflicts())]);
+  }
+
+  // Against the old base, so only status cells edited in the source count
+  await applyCalendarStatuses(base);
+
+  const summary = { pulled: pulledChanges.length, pushed, conflicts };
+  lastMerge = { timestamp: detectedAt, summary };
+  return summary;
+}
+
+export async function initializeData(): Promise<{ source: string; merge?: MergeSummary }> {
+  const result = await loadData();
+  // Freshly loaded data gets a new integrity report (repairs are explicit)
+  if (!result.source.endsWith('_cached')) {
+    await saveIntegrityReport(checkIntegrity({ pilots, drones, missions, equipment }, result.source));
+  }
+  return result;
+}
+
+// Cached data is served without waiting on the write lock; pulling, merging
+// and flushing the outbox replace or rewrite records, so they take it
+async function loadData(): Promise<{ source: string; merge?: MergeSummary }> {
+  const dataSource = getDataSource();
+  const fresh = initialized && lastSyncTime && Date.now() - lastSyncTime.getTime() < PULL_INTERVAL_MS;
+  if (fresh && calendarDay === localToday() && !(dataSource && (await hasDueWrites()))) {
+    return { source: dataSource ? `${dataSource.kind}_cached` : 'local_cached' };
+  }
+  return withWriteLock(() => refreshData(dataSource));
+}
+
+// Statuses are derived once per load (a pull derives them itself) and again
+// when the day rolls over, not on every read
+async function refreshData(dataSource: DataSource | null): Promise<{ source: string; merge?: MergeSummary }> {
+  const result = await reloadData(dataSource);
+  if (transactionInProgress) return result;
+  if (result.source.endsWith('_cached')) {
+    if (calendarDay !== localToday()) await applyCalendarStatuses({ pilots, drones, missions, equipment });
+  } else if (result.source !== dataSource?.kind) {
+    await applyCalendarStatuses(null);
+  }
+  return result;
+}
+
+async function reloadData(dataSource: DataSource | null): Promise<{ source: string; merge?: MergeSummary }> {
+  // Retry queued write-backs whose backoff has elapsed (never mid-transaction,
+  // where the in-memory state may not be committed yet)
+  if (initialized && dataSource && !transactionInProgress && (await hasDueWrites())) {
+    await flushOutbox(retryQueuedWrite);
+  }
 
-export async function initializeData(): Promise<{ source: string }> {
   if (initialized && lastSyncTime) {
     const elapsed = Date.now() - lastSyncTime.getTime();
-    // Re-sync from Sheets every 5 minutes
-    if (elapsed < 5 * 60 * 1000) {
-      return { source: isGoogleSheetsConfigured() ? 'google_sheets_cached' : 'local_cached' };
+    // Re-sync from the data source every 5 minutes, but never mid-transaction
+    if (elapsed < PULL_INTERVAL_MS || transactionInProgress) {
+      return { source: dataSource ? `${dataSource.kind}_cached` : 'local_cached' };
     }
   }
 
-  if (isGoogleSheetsConfigured()) {
+  if (dataSource) {
     try {
-      pilots = await readPilotsFromSheet();
-      drones = await readDronesFromSheet();
-      missions = await readMissionsFromSheet();
-      initialized = true;
-      lastSyncTime = new Date();
-      return { source: 'google_sheets' };
+      const merge = await pullFromSource(dataSource);
+      return { source: dataSource.kind, merge };
     } catch (error) {
-      console.error('Failed to read from Google Sheets, falling back to seed data:', error);
-      pilots = JSON.parse(JSON.stringify(SEED_PILOTS));
-      drones = JSON.parse(JSON.stringify(SEED_DRONES));
-      missions = JSON.parse(JSON.stringify(SEED_MISSIONS));
-      initialized = true;
-      lastSyncTime = new Date();
+      console.error(`Failed to read from ${dataSource.kind}, falling back to local data:`, error);
+      const stored = await loadStoredSnapshot();
+      if (stored) {
+        applySnapshot(stored);
+        return { source: 'local_store_fallback' };
+      }
+      applySnapshot(SEED_DATA);
       return { source: 'seed_data_fallback' };
     }
   }
 
-  pilots = JSON.parse(JSON.stringify(SEED_PILOTS));
-  drones = JSON.parse(JSON.stringify(SEED_DRONES));
-  missions = JSON.parse(JSON.stringify(SEED_MISSIONS));
-  initialized = true;
-  lastSyncTime = new Date();
+  const stored = await loadStoredSnapshot();
+  if (stored) {
+    applySnapshot(stored);
+    return { source: 'local_store' };
+  }
+
+  applySnapshot(SEED_DATA);
+  await persistSnapshot();
   return { source: 'seed_data' };
 }
 
-export async function forceSync(): Promise<{ source: string; timestamp: string }> {
-  initialized = false;
-  lastSyncTime = null;
-  const result = await initializeData();
-  return { ...result, timestamp: new Date().toISOString() };
+// ---- CALENDAR-DERIVED STATUS ----
+// Pilot `On Leave` and drone `Maintenance` follow the availability calendar
+// and maintenance windows. A status set by hand is recorded in the calendar
+// first, so the derived status agrees with it.
+
+function applyPilotCalendar(pilot: Pilot, requested: PilotStatus | undefined, today: string): void {
+  if (requested === 'On Leave' && !isOnLeave(pilot, today)) {
+    pilot.availability = [...(pilot.availability || []), leaveBlockFor(pilot, today)];
+  }
+  pilot.status = calendarStatus(pilot, today);
+}
+
+// `returnToService` closes open-ended repairs when the drone is explicitly
+// set back to Available/Deployed
+function applyDroneCalendar(
+  drone: Drone,
+  requested: DroneStatus | undefined,
+  today: string,
+  returnToService: boolean
+): void {
+  if (requested === 'Maintenance' && !inMaintenance(drone, today)) {
+    drone.maintenance_windows = [...(drone.maintenance_windows || []), openRepairWindow(today)];
+  } else if (returnToService && requested && requested !== 'Maintenance') {
+    drone.maintenance_windows = closeOpenWindows(drone, today);
+  }
+  drone.status = maintenanceStatus(drone, today);
+}
+
+// A status cell that differs from `base` was set by hand rather than derived
+// here earlier. Without a base (first load) every status counts as set.
+function statusEdited(base: DataSnapshot | null, entity: 'pilot' | 'drone', record: Pilot | Drone): boolean {
+  if (!base) return true;
+  const id = recordId(entity, record);
+  const previous = entity === 'pilot' ? base.pilots.find((p) => p.pilot_id === id) : base.drones.find((d) => d.drone_id === id);
+  return !previous || previous.status !== record.status;
+}
+
+// Bring every status in line with the calendars for today. Records carrying
+// a hand-set status the calendars don't explain get a block standing in for
+// it: leave up to available_from, an open-ended repair. `base` is the sync
+// base from before the load, so a status derived earlier and left stale in
+// the source is re-derived rather than turned back into a block. A drone
+// whose service is over gets its next due date.
+async function applyCalendarStatuses(base: DataSnapshot | null): Promise<void> {
+  const today = localToday();
+  calendarDay = today;
+
+  for (let index = 0; index < pilots.length; index++) {
+    const pilot = pilots[index];
+    const before = { ...pilot };
+    if (
+      pilot.status === 'On Leave' &&
+      !pilot.availability?.length &&
+      pilot.available_from > today &&
+      statusEdited(base, 'pilot', pilot)
+    ) {
+      pilot.availability = [leaveBlockFor(pilot, today, 'from On Leave status')];
+    }
+    pilot.status = calendarStatus(pilot, today);
+    if (recordsEqual(before, pilot)) continue;
+
+    await writeBack('pilot', index);
+    await auditUpdate('pilot', pilot.pilot_id, before, pilot, {
+      source: 'system',
+      reason: 'Status derived from availability calendar',
+    });
+  }
+
+  for (let index = 0; index < drones.length; index++) {
+    const drone = drones[index];
+    const before = { ...drone };
+    if (
+      drone.status === 'Maintenance' &&
+      !drone.archived_at &&
+      !inMaintenance(drone, today) &&
+      statusEdited(base, 'drone', drone)
+    ) {
+      drone.maintenance_windows = [...(drone.maintenance_windows || []), openRepairWindow(today, 'from Maintenance status')];
+    }
+    drone.status = maintenanceStatus(drone, today);
+    drone.maintenance_due = dueAfterService(drone, today);
+    if (recordsEqual(before, drone)) continue;
+
+    await writeBack('drone', index);
+    await auditUpdate('drone', drone.drone_id, before, drone, {
+      source: 'system',
+      reason: 'Status and maintenance due date derived from maintenance windows',
+    });
+  }
+}
+
+// ---- MISSIONS CLOSED IN THE SOURCE ----
+
+// A mission completed or cancelled by a sheet edit releases its resources as
+// a transition would (see lib/lifecycle.ts), and the transition is logged
+async function releaseIfClosed(before: Mission, after: Mission, context: MutationContext): Promise<void> {
+  if (isClosed(before) || !isClosed(after)) return;
+
+  const releases = releaseChanges(after, { pilots, drones, equipment, missions });
+  for (const change of releases) {
+    const records = recordsOf(change.entity);
+    const index = records.findIndex((r) => recordId(change.entity, r) === change.id);
+    const previous = { ...records[index] };
+    applyChange(change);
+    await writeBack(change.entity, index);
+    await auditUpdate(change.entity, change.id, previous, records[index], context);
+  }
+  await recordTransition(after.project_id, before.mission_status, after.mission_status, context, releases.map((c) => c.id));
+}
+
+// ---- FLIGHT HOURS ----
+
+// A mission moving to Completed (by any route, including a sheet edit)
+// opens its flight log
+async function openLogIfCompleted(before: Mission | null, after: Mission): Promise<void> {
+  if (after.mission_status === 'Completed' && before?.mission_status !== 'Completed') {
+    await openFlightLog(after, localToday());
+  }
+}
+
+// Bring maintenance_due forward to today once the drone has flown its service
+// interval since the last service window. Returns the drone's flight summary.
+export async function applyServiceInterval(
+  droneId: string,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<Awaited<ReturnType<typeof droneFlightSummary>> | null> {
+  const drone = await getDroneById(droneId);
+  if (!drone) return null;
+
+  const today = localToday();
+  const summary = await droneFlightSummary(drone, today);
+  if (summary.service.due && drone.maintenance_due > today) {
+    await updateDrone(droneId, { maintenance_due: today }, {
+      ...context,
+      reason: `Service interval reached: ${summary.service.hours_since_service} of ${summary.service.interval_hours} flight hours since last service`,
+    });
+  }
+  return summary;
+}
+
+export async function forceSync(): Promise<{ source: string; timestamp: string; merge?: MergeSummary }> {
+  return withWriteLock(async () => {
+    // Keep the in-memory state as the local side of the merge
+    lastSyncTime = null;
+    const result = await initializeData();
+    return { ...result, timestamp: new Date().toISOString() };
+  });
 }
 
 // ---- QUERIES ----
@@ -169,9 +687,10 @@ export async function getPilots(filters?: {
   certification?: string;
   location?: string;
   status?: string;
+  include_archived?: boolean;
 }): Promise<Pilot[]> {
   await initializeData();
-  let result = [...pilots];
+  let result = filters?.include_archived ? [...pilots] : pilots.filter((p) => !p.archived_at);
 
   if (filters?.skill) {
     const skill = filters.skill.toLowerCase();
@@ -182,7 +701,7 @@ export async function getPilots(filters?: {
   if (filters?.certification) {
     const cert = filters.certification.toLowerCase();
     result = result.filter((p) =>
-      p.certifications.some((c) => c.toLowerCase().includes(cert))
+      certificationTypes(p).some((c) => c.toLowerCase().includes(cert))
     );
   }
   if (filters?.location) {
@@ -201,9 +720,10 @@ export async function getDrones(filters?: {
   capability?: string;
   status?: string;
   location?: string;
+  include_archived?: boolean;
 }): Promise<Drone[]> {
   await initializeData();
-  let result = [...drones];
+  let result = filters?.include_archived ? [...drones] : drones.filter((d) => !d.archived_at);
 
   if (filters?.capability) {
     const cap = filters.capability.toLowerCase();
@@ -228,9 +748,10 @@ export async function getMissions(filters?: {
   location?: string;
   status?: string;
   skill?: string;
+  include_archived?: boolean;
 }): Promise<Mission[]> {
   await initializeData();
-  let result = [...missions];
+  let result = filters?.include_archived ? [...missions] : missions.filter((m) => !m.archived_at);
 
   if (filters?.priority) {
     const priority = filters.priority.toLowerCase();
@@ -254,6 +775,36 @@ export async function getMissions(filters?: {
   return result;
 }
 
+export async function getEquipment(filters?: {
+  type?: string;
+  status?: string;
+  location?: string;
+  compatible_with?: string; // drone model
+  include_archived?: boolean;
+}): Promise<Equipment[]> {
+  await initializeData();
+  let result = filters?.include_archived ? [...equipment] : equipment.filter((e) => !e.archived_at);
+
+  if (filters?.type) {
+    const type = filters.type.toLowerCase();
+    result = result.filter((e) => e.type.toLowerCase() === type);
+  }
+  if (filters?.status) {
+    const status = filters.status.toLowerCase();
+    result = result.filter((e) => e.status.toLowerCase() === status);
+  }
+  if (filters?.location) {
+    const loc = filters.location.toLowerCase();
+    result = result.filter((e) => e.location.toLowerCase().includes(loc));
+  }
+  if (filters?.compatible_with) {
+    const model = filters.compatible_with;
+    result = result.filter((e) => fitsModel(e, model));
+  }
+
+  return result;
+}
+
 export async function getPilotById(pilotId: string): Promise<Pilot | null> {
   await initializeData();
   return pilots.find((p) => p.pilot_id === pilotId) || null;
@@ -269,41 +820,450 @@ export async function getMissionById(projectId: string): Promise<Mission | null>
   return missions.find((m) => m.project_id === projectId) || null;
 }
 
-// ---- UPDATE OPERATIONS ----
+export async function getEquipmentById(equipmentId: string): Promise<Equipment | null> {
+  await initializeData();
+  return equipment.find((e) => e.equipment_id === equipmentId) || null;
+}
 
-export async function updatePilotStatus(
-  pilotId: string,
-  updates: {
-    status?: PilotStatus;
-    current_assignment?: string;
-    available_from?: string;
-    location?: string;
+// ---- WRITE LOCK ----
+// Mutations, pulls and outbox flushes run one at a time so none of them
+// interleaves with another. The lock is reentrant: code already holding it
+// (a validator reading through initializeData, say) runs straight through
+// instead of waiting on itself.
+
+let writeLock: Promise<unknown> = Promise.resolve();
+const lockHolder = new AsyncLocalStorage<true>();
+
+function withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (lockHolder.getStore()) return fn();
+  const held = () => lockHolder.run(true, fn);
+  const run = writeLock.then(held, held);
+  writeLock = run.catch(() => {});
+  return run;
+}
+
+// ---- WRITE-BACK ----
+
+// Fields of a record that differ from its merge base; undefined when the
+// record has no base yet and the whole row must be written
+function changedFields(entity: EntityType, record: Pilot | Drone | Mission | Equipment): string[] | undefined {
+  const id = recordId(entity, record);
+  const base = syncBase && tableOf(syncBase, entity).find((r) => recordId(entity, r) === id);
+  if (!base) return undefined;
+  const before: Record<string, unknown> = { ...base };
+  const after: Record<string, unknown> = { ...record };
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (key) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)
+  );
+}
+
+// Push a single changed record to the data source. Only the fields changed
+// since the last sync are written, so edits made in the source to other
+// fields of the row survive until the next pull merges them. Throws on failure.
+async function writeToSource(entity: EntityType, index: number): Promise<void> {
+  const dataSource = getDataSource();
+  if (!dataSource) return;
+
+  const fields = changedFields(entity, recordsOf(entity)[index]);
+  if (fields?.length !== 0) {
+    if (entity === 'pilot') await dataSource.updatePilot(pilots[index], fields);
+    if (entity === 'drone') await dataSource.updateDrone(drones[index], fields);
+    if (entity === 'mission') await dataSource.updateMission(missions[index], fields);
+    if (entity === 'equipment') await dataSource.updateEquipment(equipment[index], fields);
   }
-): Promise<{ success: boolean; pilot?: Pilot; error?: string; synced_to_sheets?: boolean }> {
-  await initializeData();
+  await markSynced(entity, recordsOf(entity)[index]);
+}
+
+// Append a newly created record to the data source. Throws on failure.
+async function appendToSource(entity: EntityType, index: number): Promise<void> {
+  const dataSource = getDataSource();
+  if (!dataSource) return;
+
+  if (entity === 'pilot') await dataSource.appendPilot(pilots[index]);
+  if (entity === 'drone') await dataSource.appendDrone(drones[index]);
+  if (entity === 'mission') await dataSource.appendMission(missions[index]);
+  if (entity === 'equipment') await dataSource.appendEquipment(equipment[index]);
+  await markSynced(entity, recordsOf(entity)[index]);
+}
+
+// Push a changed record, appending it instead when its creation is still
+// queued (it has no row to update yet). Clears the record's queued write on
+// success. Throws on failure.
+async function pushToSource(entity: EntityType, index: number): Promise<void> {
+  const id = recordId(entity, recordsOf(entity)[index]);
+  const pending = await getPendingWrite(entity, id);
+  const operation: OutboxOperation = pending?.operation === 'append' ? 'append' : 'update';
+  if (operation === 'append') await appendToSource(entity, index);
+  else await writeToSource(entity, index);
+  if (pending) await clearWrite(entity, id);
+}
+
+// Persist locally, then push a single changed record to the data source.
+// A failed write is queued in the outbox for retry. Returns whether the data
+// source accepted the write now.
+async function writeBack(entity: EntityType, index: number): Promise<boolean> {
+  await persistSnapshot();
+
+  const dataSource = getDataSource();
+  if (!dataSource) return false;
 
-  const index = pilots.findIndex((p) => p.pilot_id === pilotId);
+  const id = recordId(entity, recordsOf(entity)[index]);
+  try {
+    await pushToSource(entity, index);
+    return true;
+  } catch (error) {
+    console.error(`Failed to sync ${entity} update to ${dataSource.kind}, queued for retry:`, error);
+    const pending = await getPendingWrite(entity, id);
+    await enqueueWrite(entity, id, pending?.operation === 'append' ? 'append' : 'update', error);
+    return false;
+  }
+}
+
+// Persist locally, then append a newly created record to the data source
+async function writeBackNew(entity: EntityType, index: number): Promise<boolean> {
+  await persistSnapshot();
+
+  const dataSource = getDataSource();
+  if (!dataSource) return false;
+
+  try {
+    await appendToSource(entity, index);
+    return true;
+  } catch (error) {
+    console.error(`Failed to append new ${entity} to ${dataSource.kind}, queued for retry:`, error);
+    await enqueueWrite(entity, recordId(entity, recordsOf(entity)[index]), 'append', error);
+    return false;
+  }
+}
+
+// Outbox executor: write the record's current state, not the state at the
+// time of the original failure
+async function retryQueuedWrite(entry: OutboxEntry): Promise<void> {
+  const index = recordsOf(entry.entity_type).findIndex((r) => recordId(entry.entity_type, r) === entry.entity_id);
   if (index === -1) {
-    return { success: false, error: `Pilot ${pilotId} not found` };
+    throw new Error(`Refusing to write: ${entry.entity_type} ${entry.entity_id} no longer exists locally`);
+  }
+  if (entry.operation === 'append') await appendToSource(entry.entity_type, index);
+  else await writeToSource(entry.entity_type, index);
+}
+
+function applyDefinedFields<T extends object>(target: T, updates: Partial<T>): void {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) (target as Record<string, unknown>)[key] = value;
   }
+}
 
-  const pilot = pilots[index];
-  if (updates.status) pilot.status = updates.status;
-  if (updates.current_assignment !== undefined) pilot.current_assignment = updates.current_assignment;
-  if (updates.available_from) pilot.available_from = updates.available_from;
-  if (updates.location) pilot.location = updates.location;
+// ---- AUDIT HELPERS ----
 
-  let synced = false;
-  if (isGoogleSheetsConfigured()) {
-    try {
-      await updatePilotRow(pilot, index);
-      synced = true;
-    } catch (error) {
-      console.error('Failed to sync pilot update to Sheets:', error);
+// Changes made without an explicit context (internal housekeeping)
+const SYSTEM_CONTEXT: MutationContext = { source: 'system' };
+
+// Record the fields that differ between two versions of a record. No-op
+// updates are not logged.
+async function auditUpdate(
+  entity: EntityType,
+  entityId: string,
+  before: object,
+  after: object,
+  context: MutationContext
+): Promise<void> {
+  const oldValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const oldValue = (before as Record<string, unknown>)[key];
+    const newValue = (after as Record<string, unknown>)[key];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      oldValues[key] = oldValue ?? null;
+      newValues[key] = newValue ?? null;
     }
   }
 
-  return { success: true, pilot, synced_to_sheets: synced };
+  if (Object.keys(newValues).length === 0) return;
+
+  const wasArchived = Boolean((before as { archived_at?: string }).archived_at);
+  const isArchived = Boolean((after as { archived_at?: string }).archived_at);
+  const action = !wasArchived && isArchived ? 'archive' : wasArchived && !isArchived ? 'restore' : 'update';
+
+  await recordChange(context, {
+    entity_type: entity,
+    entity_id: entityId,
+    action,
+    before: oldValues,
+    after: newValues,
+  });
+}
+
+// ---- CREATE OPERATIONS ----
+
+export async function createPilot(
+  pilot: Pilot,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; pilot?: Pilot; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    if (pilots.some((p) => p.pilot_id === pilot.pilot_id)) {
+      return { success: false, error: `Pilot ${pilot.pilot_id} already exists` };
+    }
+
+    const created = { ...pilot };
+    pilots.push(created);
+    const synced = await writeBackNew('pilot', pilots.length - 1);
+    await recordChange(context, {
+      entity_type: 'pilot',
+      entity_id: created.pilot_id,
+      action: 'create',
+      before: null,
+      after: { ...created },
+    });
+    return { success: true, pilot: created, synced_to_sheets: synced };
+  });
+}
+
+export async function createDrone(
+  drone: Drone,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; drone?: Drone; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    if (drones.some((d) => d.drone_id === drone.drone_id)) {
+      return { success: false, error: `Drone ${drone.drone_id} already exists` };
+    }
+
+    const created = { ...drone };
+    drones.push(created);
+    const synced = await writeBackNew('drone', drones.length - 1);
+    await recordChange(context, {
+      entity_type: 'drone',
+      entity_id: created.drone_id,
+      action: 'create',
+      before: null,
+      after: { ...created },
+    });
+    return { success: true, drone: created, synced_to_sheets: synced };
+  });
+}
+
+// A mission can be booked with its crew and drones: `assignments` are the
+// resource changes that go with it (status, current_assignment) and
+// `validate` checks the booking. Both run under the same write lock as the
+// creation, so nothing can be booked in between.
+export async function createMission(
+  mission: Mission,
+  context: MutationContext = SYSTEM_CONTEXT,
+  options: {
+    assignments?: EntityChange[];
+    validate?: () => Promise<{ valid: boolean; conflicts: Conflict[] }>;
+  } = {}
+): Promise<{ success: boolean; mission?: Mission; error?: string; conflicts?: Conflict[]; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    if (missions.some((m) => m.project_id === mission.project_id)) {
+      return { success: false, error: `Mission ${mission.project_id} already exists` };
+    }
+    const assignments = options.assignments || [];
+    const unknown = assignments.find((c) => !recordsOf(c.entity).some((r) => recordId(c.entity, r) === c.id));
+    if (unknown) return { success: false, error: `${unknown.entity} ${unknown.id} not found` };
+
+    if (options.validate) {
+      transactionInProgress = true;
+      try {
+        const validation = await options.validate();
+        if (!validation.valid) {
+          return { success: false, error: 'Mission rejected by validation', conflicts: validation.conflicts };
+        }
+      } finally {
+        transactionInProgress = false;
+      }
+    }
+
+    const created = { ...mission };
+    missions.push(created);
+    let synced = await writeBackNew('mission', missions.length - 1);
+    await recordChange(context, {
+      entity_type: 'mission',
+      entity_id: created.project_id,
+      action: 'create',
+      before: null,
+      after: { ...created },
+    });
+
+    for (const change of assignments) {
+      const index = recordsOf(change.entity).findIndex((r) => recordId(change.entity, r) === change.id);
+      const before = { ...recordsOf(change.entity)[index] };
+      applyChange(change);
+      synced = (await writeBack(change.entity, index)) && synced;
+      await auditUpdate(change.entity, change.id, before, recordsOf(change.entity)[index], context);
+    }
+    return { success: true, mission: created, synced_to_sheets: synced };
+  });
+}
+
+export async function createEquipment(
+  item: Equipment,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; equipment?: Equipment; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    if (equipment.some((e) => e.equipment_id === item.equipment_id)) {
+      return { success: false, error: `Equipment ${item.equipment_id} already exists` };
+    }
+
+    const created = { ...item };
+    equipment.push(created);
+    const synced = await writeBackNew('equipment', equipment.length - 1);
+    await recordChange(context, {
+      entity_type: 'equipment',
+      entity_id: created.equipment_id,
+      action: 'create',
+      before: null,
+      after: { ...created },
+    });
+    return { success: true, equipment: created, synced_to_sheets: synced };
+  });
+}
+
+// ---- UPDATE OPERATIONS ----
+
+export async function updatePilot(
+  pilotId: string,
+  updates: Partial<Omit<Pilot, 'pilot_id'>>,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; pilot?: Pilot; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    const index = pilots.findIndex((p) => p.pilot_id === pilotId);
+    if (index === -1) {
+      return { success: false, error: `Pilot ${pilotId} not found` };
+    }
+
+    const pilot = pilots[index];
+    const today = localToday();
+    const preview = { ...pilot };
+    applyDefinedFields(preview, updates);
+    const leave = blocksBetween(preview, today, today).find((b) => b.kind === 'leave');
+    if (leave && (updates.status === 'Available' || updates.status === 'Assigned')) {
+      return {
+        success: false,
+        error: `Pilot ${pilot.name} (${pilotId}) is on ${describeDateBlock(leave)}; shorten or remove the leave block instead of changing the status`,
+      };
+    }
+
+    const before = { ...pilot };
+    applyDefinedFields(pilot, updates);
+    applyPilotCalendar(pilot, updates.status, today);
+    const synced = await writeBack('pilot', index);
+    await auditUpdate('pilot', pilot.pilot_id, before, pilot, context);
+    return { success: true, pilot, synced_to_sheets: synced };
+  });
+}
+
+export async function updateDrone(
+  droneId: string,
+  updates: Partial<Omit<Drone, 'drone_id'>>,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; drone?: Drone; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    const index = drones.findIndex((d) => d.drone_id === droneId);
+    if (index === -1) {
+      return { success: false, error: `Drone ${droneId} not found` };
+    }
+
+    const drone = drones[index];
+    const today = localToday();
+    const preview = { ...drone };
+    applyDefinedFields(preview, updates);
+    const planned = windowsBetween(preview, today, today).find((w) => !isOpenEnded(w));
+    if (planned && (updates.status === 'Available' || updates.status === 'Deployed')) {
+      return {
+        success: false,
+        error: `Drone ${drone.model} (${droneId}) is in scheduled maintenance: ${describeDateBlock(planned)}; shorten or cancel the window instead of changing the status`,
+      };
+    }
+
+    const before = { ...drone };
+    applyDefinedFields(drone, updates);
+    applyDroneCalendar(drone, updates.status, today, true);
+    // A service recorded as done moves the due date on straight away
+    if (updates.maintenance_windows && !updates.maintenance_due) drone.maintenance_due = dueAfterService(drone, today);
+    const synced = await writeBack('drone', index);
+    await auditUpdate('drone', drone.drone_id, before, drone, context);
+    return { success: true, drone, synced_to_sheets: synced };
+  });
+}
+
+export async function updateMission(
+  projectId: string,
+  updates: Partial<Omit<Mission, 'project_id'>>,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; mission?: Mission; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    const index = missions.findIndex((m) => m.project_id === projectId);
+    if (index === -1) {
+      return { success: false, error: `Mission ${projectId} not found` };
+    }
+
+    const mission = missions[index];
+    const before = { ...mission };
+    applyDefinedFields(mission, updates);
+    const synced = await writeBack('mission', index);
+    await auditUpdate('mission', mission.project_id, before, mission, context);
+    await openLogIfCompleted(before, mission);
+    return { success: true, mission, synced_to_sheets: synced };
+  });
+}
+
+export async function updateEquipment(
+  equipmentId: string,
+  updates: Partial<Omit<Equipment, 'equipment_id'>>,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; equipment?: Equipment; error?: string; synced_to_sheets?: boolean }> {
+  return withWriteLock(async () => {
+    await initializeData();
+
+    const index = equipment.findIndex((e) => e.equipment_id === equipmentId);
+    if (index === -1) {
+      return { success: false, error: `Equipment ${equipmentId} not found` };
+    }
+
+    const item = equipment[index];
+    const before = { ...item };
+    applyDefinedFields(item, updates);
+    const synced = await writeBack('equipment', index);
+    await auditUpdate('equipment', item.equipment_id, before, item, context);
+    return { success: true, equipment: item, synced_to_sheets: synced };
+  });
+}
+
+// Status-oriented updates used by the chat tools. Empty values are ignored
+// (except assignments, where '' clears the field).
+
+export async function updatePilotStatus(
+  pilotId: string,
+  updates: {
+    status?: PilotStatus;
+    current_assignment?: string;
+    available_from?: string;
+    location?: string;
+  },
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; pilot?: Pilot; error?: string; synced_to_sheets?: boolean }> {
+  return updatePilot(pilotId, {
+    status: updates.status || undefined,
+    current_assignment: updates.current_assignment,
+    available_from: updates.available_from || undefined,
+    location: updates.location || undefined,
+  }, context);
 }
 
 export async function updateDroneStatus(
@@ -313,83 +1273,364 @@ export async function updateDroneStatus(
     current_assignment?: string;
     location?: string;
     maintenance_due?: string;
-  }
+  },
+  context: MutationContext = SYSTEM_CONTEXT
 ): Promise<{ success: boolean; drone?: Drone; error?: string; synced_to_sheets?: boolean }> {
-  await initializeData();
+  return updateDrone(droneId, {
+    status: updates.status || undefined,
+    current_assignment: updates.current_assignment,
+    location: updates.location || undefined,
+    maintenance_due: updates.maintenance_due || undefined,
+  }, context);
+}
 
-  const index = drones.findIndex((d) => d.drone_id === droneId);
-  if (index === -1) {
-    return { success: false, error: `Drone ${droneId} not found` };
+export async function updateEquipmentStatus(
+  equipmentId: string,
+  updates: {
+    status?: EquipmentStatus;
+    current_assignment?: string;
+    location?: string;
+  },
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; equipment?: Equipment; error?: string; synced_to_sheets?: boolean }> {
+  return updateEquipment(equipmentId, {
+    status: updates.status || undefined,
+    current_assignment: updates.current_assignment,
+    location: updates.location || undefined,
+  }, context);
+}
+
+// ---- TRANSACTIONS ----
+// Apply a batch of changes across pilots, drones, missions and equipment as
+// one unit. The optional `validate` callback runs under the write lock,
+// immediately before the changes are applied, so nothing can change between
+// the check and the commit. If any data source write fails, memory is
+// restored and rows already written to the data source are written back to
+// their old values.
+
+// Apply one change in memory. Assigning or freeing a resource that is on
+// leave or in maintenance today leaves its calendar-derived status in place.
+function applyChange(change: EntityChange): void {
+  const records = recordsOf(change.entity);
+  const record = records.find((r) => recordId(change.entity, r) === change.id)!;
+  applyDefinedFields(record, change.updates as Partial<typeof record>);
+  if (change.entity === 'pilot') {
+    applyPilotCalendar(record as Pilot, (change.updates as Partial<Pilot>).status, localToday());
+  }
+  if (change.entity === 'drone') {
+    applyDroneCalendar(record as Drone, (change.updates as Partial<Drone>).status, localToday(), false);
   }
+}
+
+export interface TransactionResult {
+  success: boolean;
+  error?: string;
+  conflicts?: Conflict[];
+  rolled_back?: boolean;
+  synced_to_sheets?: boolean;
+}
+
+function recordsOf(entity: EntityType): Array<Pilot | Drone | Mission | Equipment> {
+  if (entity === 'pilot') return pilots;
+  if (entity === 'drone') return drones;
+  if (entity === 'equipment') return equipment;
+  return missions;
+}
+
+function recordId(entity: EntityType, record: Pilot | Drone | Mission | Equipment): string {
+  if (entity === 'pilot') return (record as Pilot).pilot_id;
+  if (entity === 'drone') return (record as Drone).drone_id;
+  if (entity === 'equipment') return (record as Equipment).equipment_id;
+  return (record as Mission).project_id;
+}
+
+export async function runTransaction(
+  changes: EntityChange[],
+  context: MutationContext = SYSTEM_CONTEXT,
+  options: { validate?: () => Promise<{ valid: boolean; conflicts: Conflict[] }> } = {}
+): Promise<TransactionResult> {
+  return withWriteLock(async () => {
+    await initializeData();
 
-  const drone = drones[index];
-  if (updates.status) drone.status = updates.status;
-  if (updates.current_assignment !== undefined) drone.current_assignment = updates.current_assignment;
-  if (updates.location) drone.location = updates.location;
-  if (updates.maintenance_due) drone.maintenance_due = updates.maintenance_due;
+    // Resolve every target up front so a bad ID fails before anything changes
+    const targets: Array<{ entity: EntityType; index: number; before: Pilot | Drone | Mission | Equipment }> = [];
+    for (const change of changes) {
+      const records = recordsOf(change.entity);
+      const index = records.findIndex((r) => recordId(change.entity, r) === change.id);
+      if (index === -1) {
+        return { success: false, error: `${change.entity} ${change.id} not found` };
+      }
+      if (!targets.some((t) => t.entity === change.entity && t.index === index)) {
+        targets.push({ entity: change.entity, index, before: { ...records[index] } });
+      }
+    }
+
+    const restore = () => {
+      for (const target of targets) {
+        recordsOf(target.entity)[target.index] = { ...target.before };
+      }
+    };
 
-  let synced = false;
-  if (isGoogleSheetsConfigured()) {
+    transactionInProgress = true;
     try {
-      await updateDroneRow(drone, index);
-      synced = true;
-    } catch (error) {
-      console.error('Failed to sync drone update to Sheets:', error);
+      if (options.validate) {
+        const validation = await options.validate();
+        if (!validation.valid) {
+          return {
+            success: false,
+            error: 'Transaction rejected by validation',
+            conflicts: validation.conflicts,
+          };
+        }
+      }
+
+      for (const change of changes) applyChange(change);
+
+      const dataSource = getDataSource();
+      const written: typeof targets = [];
+      try {
+        for (const target of targets) {
+          await pushToSource(target.entity, target.index);
+          written.push(target);
+        }
+      } catch (error) {
+        restore();
+        for (const target of written) {
+          try {
+            await writeToSource(target.entity, target.index);
+          } catch (rollbackError) {
+            // The source still holds the rejected values; keep retrying the restore
+            console.error(
+              `Failed to roll back ${target.entity} ${recordId(target.entity, target.before)} in ${dataSource?.kind}, queued for retry:`,
+              rollbackError
+            );
+            await enqueueWrite(target.entity, recordId(target.entity, target.before), 'update', rollbackError);
+          }
+        }
+        return {
+          success: false,
+          error: `Failed to write to ${dataSource?.kind}: ${String(error)}`,
+          rolled_back: true,
+        };
+      }
+
+      await persistSnapshot();
+      for (const target of targets) {
+        const after = recordsOf(target.entity)[target.index];
+        await auditUpdate(target.entity, recordId(target.entity, after), target.before, after, context);
+        if (target.entity === 'mission') await openLogIfCompleted(target.before as Mission, after as Mission);
+      }
+
+      return { success: true, synced_to_sheets: Boolean(dataSource) };
+    } finally {
+      transactionInProgress = false;
     }
+  });
+}
+
+// ---- ARCHIVE OPERATIONS ----
+// Records are never removed: archiving stamps `archived_at` and hides the
+// record from queries and matching, while keeping its row for history.
+// Anything still referenced by an open mission cannot be archived.
+
+function isOpenMission(m: Mission): boolean {
+  return m.mission_status === 'Active' || m.mission_status === 'Planned';
+}
+
+// The refusal check runs in the transaction's validate step, under the write
+// lock, so an assignment can't slip in between the check and the archive
+async function archiveUnlessRefused(
+  change: EntityChange,
+  refusal: () => string | null,
+  context: MutationContext
+): Promise<{ success: boolean; error?: string; synced_to_sheets?: boolean }> {
+  const outcome = { refused: null as string | null };
+  const result = await runTransaction([change], context, {
+    validate: async () => {
+      outcome.refused = refusal();
+      return { valid: !outcome.refused, conflicts: [] };
+    },
+  });
+  if (outcome.refused) return { success: false, error: outcome.refused };
+  if (!result.success) return { success: false, error: result.error };
+  return { success: true, synced_to_sheets: result.synced_to_sheets };
+}
+
+export async function archivePilot(
+  pilotId: string,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; pilot?: Pilot; error?: string; synced_to_sheets?: boolean }> {
+  await initializeData();
+  if (!pilots.some((p) => p.pilot_id === pilotId)) {
+    return { success: false, error: `Pilot ${pilotId} not found` };
   }
 
-  return { success: true, drone, synced_to_sheets: synced };
+  const result = await archiveUnlessRefused(
+    { entity: 'pilot', id: pilotId, updates: { status: 'Unavailable', current_assignment: '', archived_at: new Date().toISOString() } },
+    () => {
+      if (pilots.find((p) => p.pilot_id === pilotId)?.archived_at) return `Pilot ${pilotId} is already archived`;
+      const blocking = missions.filter((m) => isOpenMission(m) && crewIds(m).includes(pilotId));
+      return blocking.length > 0
+        ? `Pilot ${pilotId} is assigned to open missions: ${blocking.map((m) => m.project_id).join(', ')}`
+        : null;
+    },
+    context
+  );
+  return result.success ? { ...result, pilot: pilots.find((p) => p.pilot_id === pilotId) } : result;
 }
 
-export async function updateMissionStatus(
-  projectId: string,
-  updates: {
-    assigned_pilot?: string;
-    assigned_drone?: string;
-    mission_status?: MissionStatus;
+export async function archiveDrone(
+  droneId: string,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; drone?: Drone; error?: string; synced_to_sheets?: boolean }> {
+  await initializeData();
+  if (!drones.some((d) => d.drone_id === droneId)) {
+    return { success: false, error: `Drone ${droneId} not found` };
   }
+
+  const result = await archiveUnlessRefused(
+    { entity: 'drone', id: droneId, updates: { current_assignment: '', archived_at: new Date().toISOString() } },
+    () => {
+      if (drones.find((d) => d.drone_id === droneId)?.archived_at) return `Drone ${droneId} is already archived`;
+      const blocking = missions.filter((m) => isOpenMission(m) && m.assigned_drones.includes(droneId));
+      return blocking.length > 0
+        ? `Drone ${droneId} is assigned to open missions: ${blocking.map((m) => m.project_id).join(', ')}`
+        : null;
+    },
+    context
+  );
+  return result.success ? { ...result, drone: drones.find((d) => d.drone_id === droneId) } : result;
+}
+
+export async function archiveMission(
+  projectId: string,
+  context: MutationContext = SYSTEM_CONTEXT
 ): Promise<{ success: boolean; mission?: Mission; error?: string; synced_to_sheets?: boolean }> {
   await initializeData();
-
-  const index = missions.findIndex((m) => m.project_id === projectId);
-  if (index === -1) {
+  if (!missions.some((m) => m.project_id === projectId)) {
     return { success: false, error: `Mission ${projectId} not found` };
   }
 
-  const mission = missions[index];
-  if (updates.assigned_pilot !== undefined) mission.assigned_pilot = updates.assigned_pilot;
-  if (updates.assigned_drone !== undefined) mission.assigned_drone = updates.assigned_drone;
-  if (updates.mission_status) mission.mission_status = updates.mission_status;
+  const result = await archiveUnlessRefused(
+    { entity: 'mission', id: projectId, updates: { archived_at: new Date().toISOString() } },
+    () => {
+      const mission = missions.find((m) => m.project_id === projectId)!;
+      if (mission.archived_at) return `Mission ${projectId} is already archived`;
+      return isOpenMission(mission)
+        ? `Mission ${projectId} is ${mission.mission_status}; complete or cancel it before archiving`
+        : null;
+    },
+    context
+  );
+  return result.success ? { ...result, mission: missions.find((m) => m.project_id === projectId) } : result;
+}
 
-  let synced = false;
-  if (isGoogleSheetsConfigured()) {
-    try {
-      await updateMissionRow(mission, index);
-      synced = true;
-    } catch (error) {
-      console.error('Failed to sync mission update to Sheets:', error);
-    }
+export async function archiveEquipment(
+  equipmentId: string,
+  context: MutationContext = SYSTEM_CONTEXT
+): Promise<{ success: boolean; equipment?: Equipment; error?: string; synced_to_sheets?: boolean }> {
+  await initializeData();
+  if (!equipment.some((e) => e.equipment_id === equipmentId)) {
+    return { success: false, error: `Equipment ${equipmentId} not found` };
   }
 
-  return { success: true, mission, synced_to_sheets: synced };
+  const result = await archiveUnlessRefused(
+    { entity: 'equipment', id: equipmentId, updates: { current_assignment: '', archived_at: new Date().toISOString() } },
+    () => {
+      if (equipment.find((e) => e.equipment_id === equipmentId)?.archived_at) return `Equipment ${equipmentId} is already archived`;
+      const blocking = missions.filter((m) => isOpenMission(m) && (m.assigned_equipment || []).includes(equipmentId));
+      return blocking.length > 0
+        ? `Equipment ${equipmentId} is assigned to open missions: ${blocking.map((m) => m.project_id).join(', ')}`
+        : null;
+    },
+    context
+  );
+  return result.success ? { ...result, equipment: equipment.find((e) => e.equipment_id === equipmentId) } : result;
 }
 
 // ---- FULL SYNC ----
 
-export async function syncAllToSheets(): Promise<{ success: boolean; error?: string }> {
-  if (!isGoogleSheetsConfigured()) {
-    return { success: false, error: 'Google Sheets not configured' };
+// Push the whole data store to the source. Runs a merge first so edits made
+// directly in the source since the last sync are kept rather than overwritten.
+export async function syncAllToSheets(): Promise<{ success: boolean; error?: string; merge?: MergeSummary }> {
+  const dataSource = getDataSource();
+  if (!dataSource) {
+    return { success: false, error: 'No data source configured' };
   }
 
-  try {
-    await syncPilotsToSheet(pilots);
-    await syncDronesToSheet(drones);
-    await syncMissionsToSheet(missions);
-    return { success: true };
-  } catch (error) {
-    console.error('Failed to sync all data to Sheets:', error);
-    return { success: false, error: String(error) };
+  return withWriteLock(async () => {
+    try {
+      const merge = await pullFromSource(dataSource);
+      // Quarantined rows are not in the data store but must stay in the source
+      await dataSource.writePilots(pilots, await getQuarantinedRecords('pilot'));
+      await dataSource.writeDrones(drones, await getQuarantinedRecords('drone'));
+      await dataSource.writeMissions(missions, await getQuarantinedRecords('mission'));
+      await dataSource.writeEquipment(equipment, await getQuarantinedRecords('equipment'));
+      syncBase = cloneSnapshot({ pilots, drones, missions, equipment });
+      await persistSyncBase();
+      await clearAllWrites();
+      return { success: true, merge };
+    } catch (error) {
+      console.error(`Failed to sync all data to ${dataSource.kind}:`, error);
+      return { success: false, error: String(error) };
+    }
+  });
+}
+
+// ---- SYNC STATUS ----
+
+export interface DirtyRecord {
+  entity_type: EntityType;
+  entity_id: string;
+  fields: string[]; // ['*'] for records that have never reached the source
+}
+
+// Local edits not yet confirmed in the data source, plus reported conflicts
+export async function getSyncStatus(): Promise<{
+  dirty: DirtyRecord[];
+  conflicts: SyncConflict[];
+  conflict_policy: SyncConflictPolicy;
+  last_merge: { timestamp: string; summary: MergeSummary } | null;
+  outbox: { pending: OutboxEntry[]; failed: OutboxEntry[] };
+}> {
+  await initializeData();
+  const dirty: DirtyRecord[] = [];
+  const base = getDataSource() ? await loadSyncBase() : null;
+
+  if (base) {
+    for (const entity of ['pilot', 'drone', 'mission', 'equipment'] as EntityType[]) {
+      const baseById = new Map(tableOf(base, entity).map((r) => [recordId(entity, r), r]));
+      for (const record of recordsOf(entity)) {
+        const id = recordId(entity, record);
+        const synced = baseById.get(id);
+        const fields = synced ? diffFields(synced, record) : ['*'];
+        if (fields.length > 0) dirty.push({ entity_type: entity, entity_id: id, fields });
+      }
+    }
   }
+
+  return {
+    dirty,
+    conflicts: await loadSyncConflicts(),
+    conflict_policy: getConflictPolicy(),
+    last_merge: lastMerge,
+    outbox: await getOutboxStatus(),
+  };
+}
+
+// Retry every queued write now, including ones that were given up on
+export async function retryQueuedWrites(): Promise<{ succeeded: number; failed: number }> {
+  if (!getDataSource()) return { succeeded: 0, failed: 0 };
+  return withWriteLock(async () => {
+    await initializeData();
+    return flushOutbox(retryQueuedWrite, { force: true });
+  });
+}
+
+export async function clearSyncConflicts(): Promise<{ success: boolean; cleared: number }> {
+  const cleared = (await loadSyncConflicts()).length;
+  await saveSyncConflicts([]);
+  return { success: true, cleared };
 }
 
 // ---- UTILITY ----
@@ -401,18 +1642,30 @@ export async function getDataSummary(): Promise<{
   availableDrones: number;
   totalMissions: number;
   activeMissions: number;
+  totalEquipment: number;
+  availableEquipment: number;
   sheetsConfigured: boolean;
+  dataSource: string | null;
+  storageBackend: string;
   lastSync: string | null;
 }> {
   await initializeData();
+  const activePilots = pilots.filter((p) => !p.archived_at);
+  const activeDrones = drones.filter((d) => !d.archived_at);
+  const currentMissions = missions.filter((m) => !m.archived_at);
+  const activeEquipment = equipment.filter((e) => !e.archived_at);
   return {
-    totalPilots: pilots.length,
-    availablePilots: pilots.filter((p) => p.status === 'Available').length,
-    totalDrones: drones.length,
-    availableDrones: drones.filter((d) => d.status === 'Available').length,
-    totalMissions: missions.length,
-    activeMissions: missions.filter((m) => m.mission_status === 'Active' || m.mission_status === 'Planned').length,
+    totalPilots: activePilots.length,
+    availablePilots: activePilots.filter((p) => p.status === 'Available').length,
+    totalDrones: activeDrones.length,
+    availableDrones: activeDrones.filter((d) => d.status === 'Available').length,
+    totalMissions: currentMissions.length,
+    activeMissions: currentMissions.filter(isOpenMission).length,
+    totalEquipment: activeEquipment.length,
+    availableEquipment: activeEquipment.filter((e) => e.status === 'Available').length,
     sheetsConfigured: isGoogleSheetsConfigured(),
+    dataSource: getDataSource()?.kind || null,
+    storageBackend: getStorage().backend,
     lastSync: lastSyncTime?.toISOString() || null,
   };
 }
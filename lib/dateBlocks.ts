@@ -0,0 +1,71 @@
+// ============================================
+// Date Blocks - Labelled Date Ranges in a Single Cell
+// ============================================
+// Pilot time off and drone maintenance windows are stored in the sheet as
+// semicolon-separated entries of a label, an inclusive date range and an
+// optional note in parentheses:
+//
+//   Leave 2026-03-15..2026-03-20 (family); Training 2026-04-02
+//
+// A range with no end date ("Repair 2026-03-15..") is open-ended; only
+// schemas that allow it (maintenance windows) accept one.
+
+export interface DateBlock<K extends string> {
+  kind: K;
+  start_date: string;
+  end_date: string; // '' when open-ended
+  note?: string;
+}
+
+const ENTRY = /^([a-z ]+?)\s*:?\s+(\d{4}-\d{2}-\d{2})(?:\s*(\.\.|to|–|-)\s*(\d{4}-\d{2}-\d{2})?)?\s*(?:\((.*)\))?$/i;
+const OPEN_END = '9999-12-31';
+
+// Entries that don't match are kept with their raw text as the kind, so
+// schema validation reports them instead of them silently disappearing
+export function parseDateBlocks<K extends string>(raw: string): DateBlock<K>[] {
+  return raw
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(ENTRY);
+      if (!match) return { kind: entry as K, start_date: '', end_date: '' };
+      const block: DateBlock<K> = {
+        kind: match[1].trim().toLowerCase() as K,
+        start_date: match[2],
+        end_date: match[4] || (match[3] ? '' : match[2]),
+      };
+      if (match[5]?.trim()) block.note = match[5].trim();
+      return block;
+    });
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export function formatDateBlocks<K extends string>(blocks: DateBlock<K>[]): string {
+  return blocks
+    .map((b) => {
+      const range = b.end_date === b.start_date ? b.start_date : `${b.start_date}..${b.end_date}`;
+      return `${capitalize(b.kind)} ${range}${b.note ? ` (${b.note})` : ''}`;
+    })
+    .join('; ');
+}
+
+// "leave 2026-03-15 to 2026-03-20 (family)", for messages
+export function describeDateBlock<K extends string>(block: DateBlock<K>): string {
+  let range = `${block.start_date} to ${block.end_date}`;
+  if (block.end_date === block.start_date) range = block.start_date;
+  if (!block.end_date) range = `from ${block.start_date} (open-ended)`;
+  return `${block.kind} ${range}${block.note ? ` (${block.note})` : ''}`;
+}
+
+// Blocks overlapping the date range (inclusive)
+export function blocksOverlapping<B extends DateBlock<string>>(blocks: B[], startDate: string, endDate: string): B[] {
+  return blocks.filter((b) => b.start_date <= endDate && startDate <= (b.end_date || OPEN_END));
+}
+
+export function isOpenEnded(block: DateBlock<string>): boolean {
+  return !block.end_date;
+}
@@ -0,0 +1,18 @@
+// ============================================
+// Equipment Compatibility
+// ============================================
+// Batteries, payloads and ground kits list the drone models they work with
+// in `compatible_models` (e.g. "DJI M300, DJI M350"). An empty list means the
+// item fits any drone, which is usual for ground kits.
+
+import type { Equipment } from './types';
+
+function normalizeModel(model: string): string {
+  return model.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function fitsModel(item: Equipment, model: string): boolean {
+  if (item.compatible_models.length === 0) return true;
+  const target = normalizeModel(model);
+  return item.compatible_models.some((m) => normalizeModel(m) === target);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { openFlightLog, recordFlightDetails } from './flightLogs';
+import type { Mission } from './types';
+
+function mission(id: string, overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Bangalore',
+    required_skills: ['Mapping'], required_certs: ['DGCA'],
+    start_date: '2026-05-03', end_date: '2026-05-04', priority: 'Standard',
+    crew: [{ pilot_id: 'P001', role: 'PIC' }], assigned_drones: ['D001'], mission_status: 'Completed',
+    ...overrides,
+  };
+}
+
+describe('openFlightLog', () => {
+  it('follows the crew of a mission completed again before anything was recorded', async () => {
+    await openFlightLog(mission('PRJ931'), '2026-05-05');
+
+    const log = await openFlightLog(mission('PRJ931', { crew: [{ pilot_id: 'P003', role: 'PIC' }], assigned_drones: ['D004'] }), '2026-05-08');
+
+    expect(log).toMatchObject({ pilot_id: 'P003', drone_ids: ['D004'], complete: false });
+  });
+
+  it('keeps what was recorded once the log is complete', async () => {
+    await openFlightLog(mission('PRJ932'), '2026-05-05');
+    await recordFlightDetails('PRJ932', { sorties: 4, flight_minutes: 90 });
+
+    const log = await openFlightLog(mission('PRJ932', { crew: [{ pilot_id: 'P003', role: 'PIC' }] }), '2026-05-08');
+
+    expect(log).toMatchObject({ pilot_id: 'P001', sorties: 4, flight_minutes: 90, complete: true });
+  });
+});
+
+describe('recordFlightDetails', () => {
+  it('sets only the details given', async () => {
+    await openFlightLog(mission('PRJ933'), '2026-05-05');
+    await recordFlightDetails('PRJ933', { sorties: 2, notes: 'gusty' });
+
+    const { log } = await recordFlightDetails('PRJ933', { flight_minutes: 45 });
+
+    expect(log).toMatchObject({ sorties: 2, flight_minutes: 45, notes: 'gusty', pilot_id: 'P001' });
+  });
+});
@@ -0,0 +1,200 @@
+// ============================================
+// Flight Logs - Flown Hours, Sorties and Cycles
+// ============================================
+// One log per completed mission records who flew which airframes and for how
+// long. The logs drive cumulative totals per drone and per pilot, pilot
+// currency (recent sorties), and hour-based service intervals for drones.
+
+import { randomUUID } from 'crypto';
+import type { Drone, FlightLog, FlightTotals, Mission } from './types';
+import { getStorage } from './storage';
+import { addDays } from './scheduling';
+import { picOf } from './crew';
+
+const FLIGHT_LOG_KEY = 'flight_logs';
+
+let logs: FlightLog[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Logs stored before multi-drone logging name a single `drone_id`
+type StoredFlightLog = FlightLog & { drone_id?: string };
+
+function migrateLegacyLog({ drone_id, ...log }: StoredFlightLog): FlightLog {
+  return { ...log, drone_ids: log.drone_ids || (drone_id ? [drone_id] : []) };
+}
+
+async function loadLogs(): Promise<FlightLog[]> {
+  if (logs) return logs;
+  try {
+    logs = ((await getStorage().read<StoredFlightLog[]>(FLIGHT_LOG_KEY)) || []).map(migrateLegacyLog);
+  } catch (error) {
+    console.error('Failed to read flight logs:', error);
+    logs = [];
+  }
+  return logs;
+}
+
+async function persist(): Promise<void> {
+  const snapshot = await loadLogs();
+  writeQueue = writeQueue
+    .then(() => getStorage().write(FLIGHT_LOG_KEY, snapshot))
+    .catch((error) => console.error('Failed to persist flight logs:', error));
+  await writeQueue;
+}
+
+// ---- CONFIG ----
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Flight hours between services, unless the drone sets its own interval
+export function serviceIntervalHours(drone: Drone): number {
+  return drone.service_interval_hours || envNumber('MAINTENANCE_INTERVAL_HOURS', 50);
+}
+
+// A pilot is current with at least CURRENCY_MIN_SORTIES sorties in the last
+// CURRENCY_WINDOW_DAYS days
+function currencyRule(): { window_days: number; min_sorties: number } {
+  return {
+    window_days: envNumber('CURRENCY_WINDOW_DAYS', 90),
+    min_sorties: envNumber('CURRENCY_MIN_SORTIES', 3),
+  };
+}
+
+// ---- RECORDING ----
+
+// Open the log for a mission that just moved to Completed. Idempotent: a
+// mission completed again (e.g. after being reopened) keeps its log; one
+// with nothing recorded yet follows the crew and drones it now has.
+export async function openFlightLog(mission: Mission, today: string): Promise<FlightLog> {
+  const all = await loadLogs();
+  const now = new Date().toISOString();
+  const existing = all.find((l) => l.project_id === mission.project_id);
+  if (existing) {
+    if (!existing.complete) {
+      existing.pilot_id = picOf(mission);
+      existing.drone_ids = [...mission.assigned_drones];
+      existing.flight_date = mission.end_date < today ? mission.end_date : today;
+      existing.updated_at = now;
+      await persist();
+    }
+    return existing;
+  }
+
+  const log: FlightLog = {
+    log_id: randomUUID(),
+    project_id: mission.project_id,
+    pilot_id: picOf(mission), // logged against the PIC
+    drone_ids: [...mission.assigned_drones],
+    flight_date: mission.end_date < today ? mission.end_date : today,
+    sorties: 0,
+    flight_minutes: 0,
+    battery_cycles: 0,
+    notes: '',
+    complete: false,
+    created_at: now,
+    updated_at: now,
+  };
+  all.push(log);
+  await persist();
+  return log;
+}
+
+export async function recordFlightDetails(
+  projectId: string,
+  details: Partial<Pick<FlightLog, 'pilot_id' | 'drone_ids' | 'flight_date' | 'sorties' | 'flight_minutes' | 'battery_cycles' | 'notes'>>
+): Promise<{ success: boolean; log?: FlightLog; error?: string }> {
+  const log = (await loadLogs()).find((l) => l.project_id === projectId);
+  if (!log) {
+    return { success: false, error: `No flight log for ${projectId}; logs are opened when a mission is Completed` };
+  }
+
+  if (details.pilot_id !== undefined) log.pilot_id = details.pilot_id;
+  if (details.drone_ids !== undefined) log.drone_ids = details.drone_ids;
+  if (details.flight_date !== undefined) log.flight_date = details.flight_date;
+  if (details.sorties !== undefined) log.sorties = details.sorties;
+  if (details.flight_minutes !== undefined) log.flight_minutes = details.flight_minutes;
+  if (details.battery_cycles !== undefined) log.battery_cycles = details.battery_cycles;
+  if (details.notes !== undefined) log.notes = details.notes;
+  log.complete = true;
+  log.updated_at = new Date().toISOString();
+  await persist();
+  return { success: true, log };
+}
+
+// ---- QUERIES ----
+
+export async function getFlightLogs(filters?: {
+  project_id?: string;
+  pilot_id?: string;
+  drone_id?: string;
+  since?: string;
+  incomplete?: boolean;
+}): Promise<FlightLog[]> {
+  let result = [...(await loadLogs())];
+  if (filters?.project_id) result = result.filter((l) => l.project_id === filters.project_id);
+  if (filters?.pilot_id) result = result.filter((l) => l.pilot_id === filters.pilot_id);
+  if (filters?.drone_id) result = result.filter((l) => l.drone_ids.includes(filters.drone_id!));
+  if (filters?.since) result = result.filter((l) => l.flight_date >= filters.since!);
+  if (filters?.incomplete) result = result.filter((l) => !l.complete);
+  return result.sort((a, b) => b.flight_date.localeCompare(a.flight_date));
+}
+
+export function totalsOf(entries: FlightLog[]): FlightTotals {
+  const minutes = entries.reduce((sum, l) => sum + l.flight_minutes, 0);
+  return {
+    flights: entries.length,
+    sorties: entries.reduce((sum, l) => sum + l.sorties, 0),
+    flight_minutes: minutes,
+    flight_hours: Math.round((minutes / 60) * 10) / 10,
+    battery_cycles: entries.reduce((sum, l) => sum + l.battery_cycles, 0),
+    last_flight: entries.reduce<string | null>((last, l) => (!last || l.flight_date > last ? l.flight_date : last), null),
+    incomplete_logs: entries.filter((l) => !l.complete).length,
+  };
+}
+
+export async function pilotFlightSummary(pilotId: string, today: string): Promise<{
+  totals: FlightTotals;
+  currency: { window_days: number; min_sorties: number; recent_sorties: number; current: boolean };
+}> {
+  const entries = await getFlightLogs({ pilot_id: pilotId });
+  const rule = currencyRule();
+  const since = addDays(today, -rule.window_days);
+  const recent = entries.filter((l) => l.flight_date > since).reduce((sum, l) => sum + l.sorties, 0);
+  return {
+    totals: totalsOf(entries),
+    currency: { ...rule, recent_sorties: recent, current: recent >= rule.min_sorties },
+  };
+}
+
+// ---- SERVICE INTERVALS ----
+
+// Last day of the most recent finished service window
+function lastServiceDate(drone: Drone, today: string): string | null {
+  const done = (drone.maintenance_windows || []).filter(
+    (w) => w.kind === 'service' && w.end_date && w.end_date < today
+  );
+  return done.reduce<string | null>((last, w) => (!last || w.end_date > last ? w.end_date : last), null);
+}
+
+export async function droneFlightSummary(drone: Drone, today: string): Promise<{
+  totals: FlightTotals;
+  service: { interval_hours: number; last_service: string | null; hours_since_service: number; hours_remaining: number; due: boolean };
+}> {
+  const entries = await getFlightLogs({ drone_id: drone.drone_id });
+  const lastService = lastServiceDate(drone, today);
+  const sinceService = totalsOf(entries.filter((l) => !lastService || l.flight_date > lastService));
+  const interval = serviceIntervalHours(drone);
+  return {
+    totals: totalsOf(entries),
+    service: {
+      interval_hours: interval,
+      last_service: lastService,
+      hours_since_service: sinceService.flight_hours,
+      hours_remaining: Math.max(0, Math.round((interval - sinceService.flight_hours) * 10) / 10),
+      due: sinceService.flight_minutes >= interval * 60,
+    },
+  };
+}
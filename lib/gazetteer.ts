@@ -0,0 +1,79 @@
+// ============================================
+// Gazetteer - Offline Coordinates for Known Locations
+// ============================================
+
+export interface Place {
+  name: string;
+  lat: number;
+  lon: number;
+  time_zone: string;
+}
+
+// Bundled city table, so locations resolve without a network lookup. Add a
+// row here (and any alternate spellings below) for new operating sites.
+const PLACES: Place[] = [
+  // South
+  { name: 'Bangalore', lat: 12.9716, lon: 77.5946, time_zone: 'Asia/Kolkata' },
+  { name: 'Mysore', lat: 12.2958, lon: 76.6394, time_zone: 'Asia/Kolkata' },
+  { name: 'Mangalore', lat: 12.9141, lon: 74.856, time_zone: 'Asia/Kolkata' },
+  { name: 'Hubli', lat: 15.3647, lon: 75.124, time_zone: 'Asia/Kolkata' },
+  { name: 'Chennai', lat: 13.0827, lon: 80.2707, time_zone: 'Asia/Kolkata' },
+  { name: 'Coimbatore', lat: 11.0168, lon: 76.9558, time_zone: 'Asia/Kolkata' },
+  { name: 'Madurai', lat: 9.9252, lon: 78.1198, time_zone: 'Asia/Kolkata' },
+  { name: 'Hyderabad', lat: 17.385, lon: 78.4867, time_zone: 'Asia/Kolkata' },
+  { name: 'Visakhapatnam', lat: 17.6868, lon: 83.2185, time_zone: 'Asia/Kolkata' },
+  { name: 'Vijayawada', lat: 16.5062, lon: 80.648, time_zone: 'Asia/Kolkata' },
+  { name: 'Kochi', lat: 9.9312, lon: 76.2673, time_zone: 'Asia/Kolkata' },
+  { name: 'Thiruvananthapuram', lat: 8.5241, lon: 76.9366, time_zone: 'Asia/Kolkata' },
+  { name: 'Goa', lat: 15.2993, lon: 74.124, time_zone: 'Asia/Kolkata' },
+  // West
+  { name: 'Mumbai', lat: 19.076, lon: 72.8777, time_zone: 'Asia/Kolkata' },
+  { name: 'Navi Mumbai', lat: 19.033, lon: 73.0297, time_zone: 'Asia/Kolkata' },
+  { name: 'Thane', lat: 19.2183, lon: 72.9781, time_zone: 'Asia/Kolkata' },
+  { name: 'Pune', lat: 18.5204, lon: 73.8567, time_zone: 'Asia/Kolkata' },
+  { name: 'Nashik', lat: 19.9975, lon: 73.7898, time_zone: 'Asia/Kolkata' },
+  { name: 'Nagpur', lat: 21.1458, lon: 79.0882, time_zone: 'Asia/Kolkata' },
+  { name: 'Ahmedabad', lat: 23.0225, lon: 72.5714, time_zone: 'Asia/Kolkata' },
+  { name: 'Surat', lat: 21.1702, lon: 72.8311, time_zone: 'Asia/Kolkata' },
+  { name: 'Vadodara', lat: 22.3072, lon: 73.1812, time_zone: 'Asia/Kolkata' },
+  { name: 'Indore', lat: 22.7196, lon: 75.8577, time_zone: 'Asia/Kolkata' },
+  { name: 'Bhopal', lat: 23.2599, lon: 77.4126, time_zone: 'Asia/Kolkata' },
+  // North
+  { name: 'Delhi', lat: 28.6139, lon: 77.209, time_zone: 'Asia/Kolkata' },
+  { name: 'Gurgaon', lat: 28.4595, lon: 77.0266, time_zone: 'Asia/Kolkata' },
+  { name: 'Noida', lat: 28.5355, lon: 77.391, time_zone: 'Asia/Kolkata' },
+  { name: 'Jaipur', lat: 26.9124, lon: 75.7873, time_zone: 'Asia/Kolkata' },
+  { name: 'Chandigarh', lat: 30.7333, lon: 76.7794, time_zone: 'Asia/Kolkata' },
+  { name: 'Lucknow', lat: 26.8467, lon: 80.9462, time_zone: 'Asia/Kolkata' },
+  // East
+  { name: 'Kolkata', lat: 22.5726, lon: 88.3639, time_zone: 'Asia/Kolkata' },
+  { name: 'Bhubaneswar', lat: 20.2961, lon: 85.8245, time_zone: 'Asia/Kolkata' },
+  { name: 'Patna', lat: 25.5941, lon: 85.1376, time_zone: 'Asia/Kolkata' },
+  { name: 'Guwahati', lat: 26.1445, lon: 91.7362, time_zone: 'Asia/Kolkata' },
+];
+
+// Alternate spellings and former names
+const ALIASES: Record<string, string> = {
+  bengaluru: 'Bangalore',
+  mysuru: 'Mysore',
+  mangaluru: 'Mangalore',
+  hubballi: 'Hubli',
+  bombay: 'Mumbai',
+  'new delhi': 'Delhi',
+  gurugram: 'Gurgaon',
+  madras: 'Chennai',
+  calcutta: 'Kolkata',
+  cochin: 'Kochi',
+  trivandrum: 'Thiruvananthapuram',
+  vizag: 'Visakhapatnam',
+  secunderabad: 'Hyderabad',
+  panaji: 'Goa',
+  baroda: 'Vadodara',
+  poona: 'Pune',
+};
+
+export function lookupPlace(location: string): Place | null {
+  const key = location.trim().toLowerCase();
+  const name = ALIASES[key] || key;
+  return PLACES.find((p) => p.name.toLowerCase() === name.toLowerCase()) || null;
+}
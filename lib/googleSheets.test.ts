@@ -0,0 +1,120 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readPilotsFromSheet, updatePilotRow } from './googleSheets';
+import type { Pilot } from './types';
+
+// An in-memory stand-in for the Pilot Roster tab, behind the parts of the
+// Sheets API the module calls
+const sheet = vi.hoisted(() => {
+  const state = { rows: [] as string[][], calls: [] as string[] };
+
+  const column = (letters: string) => letters.charCodeAt(0) - 65;
+  const cellsIn = (range: string): string[][] => {
+    const ref = range.split('!')[1];
+    if (!ref) return state.rows;
+    if (ref === '1:1') return [state.rows[0] || []];
+    const whole = ref.match(/^([A-Z]):\1$/);
+    if (whole) return state.rows.map((row) => [row[column(whole[1])] || '']);
+    const [, letters, row] = ref.match(/^([A-Z])(\d+)$/)!;
+    return [[state.rows[Number(row) - 1]?.[column(letters)] || '']];
+  };
+
+  const values = {
+    async get({ range }: { range: string }) {
+      state.calls.push('get');
+      return { data: { values: cellsIn(range) } };
+    },
+    async batchGet({ ranges }: { ranges: string[] }) {
+      state.calls.push('batchGet');
+      return { data: { valueRanges: ranges.map((range) => ({ values: cellsIn(range) })) } };
+    },
+    async batchUpdate({ requestBody }: { requestBody: { data: Array<{ range: string; values: string[][] }> } }) {
+      state.calls.push('batchUpdate');
+      for (const { range, values: [[value]] } of requestBody.data) {
+        const [, letters, row] = range.split('!')[1].match(/^([A-Z])(\d+)$/)!;
+        state.rows[Number(row) - 1][column(letters)] = value;
+      }
+      return { data: {} };
+    },
+    async update({ requestBody }: { requestBody: { values: string[][] } }) {
+      state.calls.push('update');
+      requestBody.values.forEach((row, i) => (state.rows[i] = row));
+      return { data: {} };
+    },
+  };
+
+  return { state, client: { spreadsheets: { values } } };
+});
+
+vi.mock('googleapis', () => ({
+  google: {
+    auth: { JWT: class {} },
+    sheets: () => sheet.client,
+  },
+}));
+
+const HEADER = ['pilot_id', 'name', 'skills', 'certifications', 'location', 'status', 'current_assignment', 'available_from'];
+
+function row(id: string, name: string): string[] {
+  return [id, name, 'Mapping', 'DGCA', 'Pune', 'Available', '–', '2026-02-05'];
+}
+
+function pilot(id: string, name: string, status: Pilot['status']): Pilot {
+  return {
+    pilot_id: id, name, skills: ['Mapping'], certifications: [{ type: 'DGCA' }], location: 'Pune',
+    status, current_assignment: '', available_from: '2026-02-05',
+  };
+}
+
+function statusOf(id: string): string | undefined {
+  return sheet.state.rows.find((r) => r[0] === id)?.[5];
+}
+
+beforeAll(() => {
+  process.env.GOOGLE_SHEETS_CLIENT_EMAIL = 'sync@example.com';
+  process.env.GOOGLE_SHEETS_PRIVATE_KEY = 'key';
+  process.env.GOOGLE_SHEETS_SPREADSHEET_ID = 'sheet';
+});
+
+beforeEach(async () => {
+  sheet.state.rows = [HEADER, row('P1', 'Arjun'), row('P2', 'Neha'), row('P3', 'Rohit')];
+  await readPilotsFromSheet();
+  sheet.state.calls = [];
+});
+
+describe('single-row writes', () => {
+  it('finds the row by ID after the sheet was sorted since the pull', async () => {
+    sheet.state.rows = [HEADER, row('P3', 'Rohit'), row('P2', 'Neha'), row('P1', 'Arjun')];
+
+    await updatePilotRow(pilot('P1', 'Arjun', 'On Leave'), ['status']);
+
+    expect(statusOf('P1')).toBe('On Leave');
+    expect(statusOf('P3')).toBe('Available');
+  });
+
+  it('refuses to write when the ID is gone or appears twice', async () => {
+    sheet.state.rows = [HEADER, row('P2', 'Neha'), row('P3', 'Rohit')];
+    await expect(updatePilotRow(pilot('P1', 'Arjun', 'On Leave'), ['status'])).rejects.toThrow(/no longer exists/);
+
+    sheet.state.rows = [HEADER, row('P1', 'Arjun'), row('P2', 'Neha'), row('P1', 'Arjun')];
+    await expect(updatePilotRow(pilot('P1', 'Arjun', 'On Leave'), ['status'])).rejects.toThrow(/multiple rows/);
+    expect(statusOf('P1')).toBe('Available');
+  });
+});
+
+describe('column layout on single-row writes', () => {
+  it('reads the header and the cached row in one call', async () => {
+    await updatePilotRow(pilot('P2', 'Neha', 'On Leave'), ['status']);
+
+    expect(sheet.state.calls).toEqual(['batchGet', 'batchUpdate']);
+    expect(statusOf('P2')).toBe('On Leave');
+  });
+
+  it('adds a column only for a field the write has a value for', async () => {
+    await updatePilotRow(pilot('P2', 'Neha', 'On Leave'));
+    expect(sheet.state.rows[0]).toEqual(HEADER);
+
+    await updatePilotRow({ ...pilot('P2', 'Neha', 'On Leave'), days_off: ['Sun'] });
+    expect(sheet.state.rows[0]).toEqual([...HEADER, 'days_off']);
+    expect(sheet.state.rows.find((r) => r[0] === 'P2')?.[HEADER.length]).toBe('Sun');
+  });
+});
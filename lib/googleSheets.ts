@@ -3,13 +3,27 @@
 // ============================================
 
 import { google } from 'googleapis';
-import type { Pilot, Drone, Mission } from './types';
-
-const SHEET_NAMES = {
-  pilots: 'Pilot Roster',
-  drones: 'Drone Fleet',
-  missions: 'Missions',
-};
+import type { Pilot, Drone, Mission, Equipment, EntityType, RawRecord } from './types';
+import {
+  ID_FIELDS,
+  parseTable,
+  resolveLayout,
+  extendLayout,
+  recordToRow,
+  recordsToRows,
+  fieldNames,
+} from './rowMapping';
+import type { ColumnLayout } from './rowMapping';
+import { getSheetMapping } from './sheetMapping';
+
+// Tab names come from the sheet mapping config
+function tabFor(entity: EntityType): string {
+  const { tabs } = getSheetMapping();
+  if (entity === 'pilot') return tabs.pilots;
+  if (entity === 'drone') return tabs.drones;
+  if (entity === 'equipment') return tabs.equipment;
+  return tabs.missions;
+}
 
 function getAuth() {
   const clientEmail = process.env.GOOGLE_SHEETS_CLIENT_EMAIL;
@@ -42,128 +56,227 @@ export function isGoogleSheetsConfigured(): boolean {
   return getAuth() !== null;
 }
 
-// ---- READ OPERATIONS ----
+// ---- TABS ----
+// Only the Equipment tab may be missing (spreadsheets from before equipment
+// was tracked); it is created on the first write. Tabs seen once are
+// remembered so writes don't list the tabs every time.
 
-async function readSheet(sheetName: string): Promise<string[][]> {
+const knownTabs = new Set<string>();
+
+async function tabExists(sheetName: string): Promise<boolean> {
+  if (knownTabs.has(sheetName)) return true;
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+
+  const response = await client.sheets.spreadsheets.get({
+    spreadsheetId: client.spreadsheetId,
+    fields: 'sheets.properties.title',
+  });
+  for (const sheet of response.data.sheets || []) {
+    if (sheet.properties?.title) knownTabs.add(sheet.properties.title);
+  }
+  return knownTabs.has(sheetName);
+}
+
+async function ensureTab(sheetName: string): Promise<void> {
+  if (await tabExists(sheetName)) return;
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+
+  await client.sheets.spreadsheets.batchUpdate({
+    spreadsheetId: client.spreadsheetId,
+    requestBody: { requests: [{ addSheet: { properties: { title: sheetName } } }] },
+  });
+  knownTabs.add(sheetName);
+}
+
+// ---- COLUMN LAYOUT ----
+// The header row decides which column holds which field. It is re-read
+// before every single-row write, since columns may have been moved since the
+// last pull; the last one seen per tab is kept so an update can read it
+// together with its cached row (see readHeaderAndRow).
+
+const headerRows = new Map<string, string[]>();
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+async function readHeaderRow(sheetName: string): Promise<string[]> {
   const client = getSheetsClient();
   if (!client) throw new Error('Google Sheets not configured');
 
   const response = await client.sheets.spreadsheets.values.get({
     spreadsheetId: client.spreadsheetId,
-    range: `'${sheetName}'!A:Z`,
+    range: `'${sheetName}'!1:1`,
   });
+  const header = response.data.values?.[0] || [];
+  headerRows.set(sheetName, header);
+  return header;
+}
 
-  return response.data.values || [];
+// Layout able to hold `records` (only `fields` of them, when given); columns
+// for fields they have values for are added to the header row. `header` is
+// the row as just read, when the caller has it.
+async function layoutForWrite(
+  entity: EntityType,
+  records: object[],
+  fields?: string[],
+  header?: string[]
+): Promise<ColumnLayout> {
+  const sheetName = tabFor(entity);
+  const current = resolveLayout(entity, header ?? (await readHeaderRow(sheetName)));
+  const layout = extendLayout(current, records, fields);
+  if (layout.headers.length === current.headers.length) return current;
+
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+  await client.sheets.spreadsheets.values.update({
+    spreadsheetId: client.spreadsheetId,
+    range: `'${sheetName}'!A1`,
+    valueInputOption: 'USER_ENTERED',
+    requestBody: { values: [layout.headers] },
+  });
+  headerRows.set(sheetName, layout.headers);
+  return layout;
 }
 
-function parseCSVField(field: string): string[] {
-  if (!field || field === '–' || field === '-' || field === '') return [];
-  return field.split(',').map((s) => s.trim()).filter(Boolean);
+// ---- ROW POSITIONS ----
+// Rows are addressed by their ID column, never by the in-memory array
+// index, because people sort, insert and delete rows in the sheet between
+// pulls. We cache id -> sheet row number per tab and verify the cached row
+// still holds that ID before every write; on drift the cache is rebuilt from
+// the ID column, and if the ID can no longer be found the write is refused.
+
+const rowPositions = new Map<string, Map<string, number>>();
+
+function rememberRowPositions(sheetName: string, rows: string[][], idColumn: number): void {
+  const positions = new Map<string, number>();
+  rows.slice(1).forEach((row, i) => {
+    const id = (row[idColumn] || '').trim();
+    // First occurrence wins; duplicates are caught when locating the row
+    if (id && !positions.has(id)) positions.set(id, i + 2);
+  });
+  rowPositions.set(sheetName, positions);
 }
 
-function cleanField(field: string | undefined): string {
-  if (!field || field === '–' || field === '-' || field === 'undefined') return '';
-  return field.trim();
+async function readIdColumn(sheetName: string, column: string): Promise<string[]> {
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+
+  const response = await client.sheets.spreadsheets.values.get({
+    spreadsheetId: client.spreadsheetId,
+    range: `'${sheetName}'!${column}:${column}`,
+  });
+  return (response.data.values || []).map((row) => (row[0] || '').trim());
 }
 
-export async function readPilotsFromSheet(): Promise<Pilot[]> {
-  const rows = await readSheet(SHEET_NAMES.pilots);
-  if (rows.length < 2) return [];
+// The header row and, when a position for `id` is cached, the ID cell of
+// that row, in one call. The row number is returned only if the ID column
+// has not moved and the row still holds `id`.
+async function readHeaderAndRow(entity: EntityType, id: string): Promise<{ header: string[]; rowNumber?: number }> {
+  const sheetName = tabFor(entity);
+  const cachedHeader = headerRows.get(sheetName);
+  const cachedRow = rowPositions.get(sheetName)?.get(id);
+  const idColumn = cachedHeader && resolveLayout(entity, cachedHeader).fieldColumns.get(ID_FIELDS[entity]);
+  if (!cachedRow || idColumn === undefined) return { header: await readHeaderRow(sheetName) };
+
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+  const response = await client.sheets.spreadsheets.values.batchGet({
+    spreadsheetId: client.spreadsheetId,
+    ranges: [`'${sheetName}'!1:1`, `'${sheetName}'!${columnLetter(idColumn)}${cachedRow}`],
+  });
+  const [headerRange, idRange] = response.data.valueRanges || [];
+  const header = headerRange?.values?.[0] || [];
+  headerRows.set(sheetName, header);
 
-  return rows.slice(1).map((row) => ({
-    pilot_id: cleanField(row[0]) || '',
-    name: cleanField(row[1]) || '',
-    skills: parseCSVField(row[2] || ''),
-    certifications: parseCSVField(row[3] || ''),
-    location: cleanField(row[4]) || '',
-    status: (cleanField(row[5]) || 'Available') as Pilot['status'],
-    current_assignment: cleanField(row[6]),
-    available_from: cleanField(row[7]) || '',
-  }));
+  const unmoved = resolveLayout(entity, header).fieldColumns.get(ID_FIELDS[entity]) === idColumn;
+  const held = (idRange?.values?.[0]?.[0] || '').trim();
+  return { header, rowNumber: unmoved && held === id ? cachedRow : undefined };
 }
 
-export async function readDronesFromSheet(): Promise<Drone[]> {
-  const rows = await readSheet(SHEET_NAMES.drones);
-  if (rows.length < 2) return [];
+// Drift detected (or nothing cached yet): rebuild the positions from the ID
+// column and resolve the sheet row number currently holding `id`
+async function locateRow(entity: EntityType, layout: ColumnLayout, id: string): Promise<number> {
+  const sheetName = tabFor(entity);
+  const column = columnLetter(layout.fieldColumns.get(ID_FIELDS[entity])!);
+  const ids = await readIdColumn(sheetName, column);
+  rememberRowPositions(sheetName, ids.map((value) => [value]), 0);
+
+  const matches = ids.map((value, i) => (value === id ? i + 1 : -1)).filter((n) => n > 1);
+  if (matches.length === 0) {
+    throw new Error(`Refusing to write: ${id} no longer exists in sheet "${sheetName}"`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Refusing to write: ${id} appears in multiple rows of sheet "${sheetName}" (${matches.join(', ')})`);
+  }
+  return matches[0];
+}
 
-  return rows.slice(1).map((row) => ({
-    drone_id: cleanField(row[0]) || '',
-    model: cleanField(row[1]) || '',
-    capabilities: parseCSVField(row[2] || ''),
-    status: (cleanField(row[3]) || 'Available') as Drone['status'],
-    location: cleanField(row[4]) || '',
-    current_assignment: cleanField(row[5]),
-    maintenance_due: cleanField(row[6]) || '',
-  }));
+// ---- READ OPERATIONS ----
+
+async function readSheet(sheetName: string): Promise<string[][]> {
+  const client = getSheetsClient();
+  if (!client) throw new Error('Google Sheets not configured');
+
+  const response = await client.sheets.spreadsheets.values.get({
+    spreadsheetId: client.spreadsheetId,
+    range: `'${sheetName}'`,
+  });
+
+  return response.data.values || [];
 }
 
-export async function readMissionsFromSheet(): Promise<Mission[]> {
-  const rows = await readSheet(SHEET_NAMES.missions);
-  if (rows.length < 2) return [];
+async function readTable(entity: EntityType): Promise<RawRecord[]> {
+  const sheetName = tabFor(entity);
+  const rows = await readSheet(sheetName);
+  const { layout, records } = parseTable(entity, rows);
+  headerRows.set(sheetName, rows[0] || []);
+  rememberRowPositions(sheetName, rows, layout.fieldColumns.get(ID_FIELDS[entity]) ?? 0);
+  return records;
+}
 
-  return rows.slice(1).map((row) => ({
-    project_id: cleanField(row[0]) || '',
-    client: cleanField(row[1]) || '',
-    location: cleanField(row[2]) || '',
-    required_skills: parseCSVField(row[3] || ''),
-    required_certs: parseCSVField(row[4] || ''),
-    start_date: cleanField(row[5]) || '',
-    end_date: cleanField(row[6]) || '',
-    priority: (cleanField(row[7]) || 'Standard') as Mission['priority'],
-    assigned_pilot: cleanField(row[8]),
-    assigned_drone: cleanField(row[9]),
-    mission_status: (cleanField(row[10]) || 'Planned') as Mission['mission_status'],
-  }));
+export async function readPilotsFromSheet(): Promise<RawRecord[]> {
+  return readTable('pilot');
+}
+
+export async function readDronesFromSheet(): Promise<RawRecord[]> {
+  return readTable('drone');
+}
+
+export async function readMissionsFromSheet(): Promise<RawRecord[]> {
+  return readTable('mission');
+}
+
+// The Equipment tab is optional; a spreadsheet without one has no equipment
+export async function readEquipmentFromSheet(): Promise<RawRecord[]> {
+  if (!(await tabExists(tabFor('equipment')))) return [];
+  return readTable('equipment');
 }
 
 // ---- WRITE OPERATIONS ----
 
-function pilotToRow(pilot: Pilot): string[] {
-  return [
-    pilot.pilot_id,
-    pilot.name,
-    pilot.skills.join(', '),
-    pilot.certifications.join(', '),
-    pilot.location,
-    pilot.status,
-    pilot.current_assignment || '–',
-    pilot.available_from,
-  ];
-}
-
-function droneToRow(drone: Drone): string[] {
-  return [
-    drone.drone_id,
-    drone.model,
-    drone.capabilities.join(', '),
-    drone.status,
-    drone.location,
-    drone.current_assignment || '–',
-    drone.maintenance_due,
-  ];
-}
-
-function missionToRow(mission: Mission): string[] {
-  return [
-    mission.project_id,
-    mission.client,
-    mission.location,
-    mission.required_skills.join(', '),
-    mission.required_certs.join(', '),
-    mission.start_date,
-    mission.end_date,
-    mission.priority,
-    mission.assigned_pilot || '–',
-    mission.assigned_drone || '–',
-    mission.mission_status,
-  ];
-}
-
-async function writeFullSheet(sheetName: string, headers: string[], rows: string[][]): Promise<void> {
+// Rewrite a whole tab, keeping its column order and any extra columns
+async function writeFullSheet(entity: EntityType, records: object[]): Promise<void> {
   const client = getSheetsClient();
   if (!client) throw new Error('Google Sheets not configured');
 
-  const data = [headers, ...rows];
+  const sheetName = tabFor(entity);
+  await ensureTab(sheetName);
+  const layout = extendLayout(resolveLayout(entity, await readHeaderRow(sheetName)), records);
+  const data = [layout.headers, ...recordsToRows(records, layout)];
+
+  // Clear first so rows removed locally don't linger below the new data
+  await client.sheets.spreadsheets.values.clear({
+    spreadsheetId: client.spreadsheetId,
+    range: `'${sheetName}'`,
+  });
 
   await client.sheets.spreadsheets.values.update({
     spreadsheetId: client.spreadsheetId,
@@ -171,69 +284,110 @@ async function writeFullSheet(sheetName: string, headers: string[], rows: string
     valueInputOption: 'USER_ENTERED',
     requestBody: { values: data },
   });
+
+  headerRows.set(sheetName, layout.headers);
+  rememberRowPositions(sheetName, data, layout.fieldColumns.get(ID_FIELDS[entity])!);
 }
 
-export async function syncPilotsToSheet(pilots: Pilot[]): Promise<void> {
-  const headers = [
-    'pilot_id', 'name', 'skills', 'certifications',
-    'location', 'status', 'current_assignment', 'available_from',
-  ];
-  const rows = pilots.map(pilotToRow);
-  await writeFullSheet(SHEET_NAMES.pilots, headers, rows);
+export async function syncPilotsToSheet(pilots: Pilot[], held: RawRecord[] = []): Promise<void> {
+  await writeFullSheet('pilot', [...pilots, ...held]);
 }
 
-export async function syncDronesToSheet(drones: Drone[]): Promise<void> {
-  const headers = [
-    'drone_id', 'model', 'capabilities', 'status',
-    'location', 'current_assignment', 'maintenance_due',
-  ];
-  const rows = drones.map(droneToRow);
-  await writeFullSheet(SHEET_NAMES.drones, headers, rows);
+export async function syncDronesToSheet(drones: Drone[], held: RawRecord[] = []): Promise<void> {
+  await writeFullSheet('drone', [...drones, ...held]);
 }
 
-export async function syncMissionsToSheet(missions: Mission[]): Promise<void> {
-  const headers = [
-    'project_id', 'client', 'location', 'required_skills', 'required_certs',
-    'start_date', 'end_date', 'priority', 'assigned_pilot', 'assigned_drone', 'mission_status',
-  ];
-  const rows = missions.map(missionToRow);
-  await writeFullSheet(SHEET_NAMES.missions, headers, rows);
+export async function syncMissionsToSheet(missions: Mission[], held: RawRecord[] = []): Promise<void> {
+  await writeFullSheet('mission', [...missions, ...held]);
+}
+
+export async function syncEquipmentToSheet(equipment: Equipment[], held: RawRecord[] = []): Promise<void> {
+  await writeFullSheet('equipment', [...equipment, ...held]);
 }
 
 // ---- SINGLE ROW UPDATE (more efficient for individual changes) ----
 
-export async function updatePilotRow(pilot: Pilot, rowIndex: number): Promise<void> {
+// Only `fields` (all fields by default) are written; the rest of the row,
+// extra columns included, keeps whatever the sheet holds. With the row's
+// position cached and unchanged this takes two calls: one read, one write.
+async function updateRowById(entity: EntityType, id: string, record: object, fields?: string[]): Promise<void> {
   const client = getSheetsClient();
   if (!client) return;
 
-  await client.sheets.spreadsheets.values.update({
+  const sheetName = tabFor(entity);
+  const written = fields || fieldNames(entity);
+  const { header, rowNumber: verified } = await readHeaderAndRow(entity, id);
+  const layout = await layoutForWrite(entity, [record], written, header);
+  const rowNumber = verified ?? (await locateRow(entity, layout, id));
+  const row = recordToRow(record, layout);
+  const columns = written.map((field) => layout.fieldColumns.get(field)).filter((c): c is number => c !== undefined);
+  if (columns.length === 0) return;
+  await client.sheets.spreadsheets.values.batchUpdate({
     spreadsheetId: client.spreadsheetId,
-    range: `'${SHEET_NAMES.pilots}'!A${rowIndex + 2}:H${rowIndex + 2}`,
-    valueInputOption: 'USER_ENTERED',
-    requestBody: { values: [pilotToRow(pilot)] },
+    requestBody: {
+      valueInputOption: 'USER_ENTERED',
+      data: columns.map((column) => ({
+        range: `'${sheetName}'!${columnLetter(column)}${rowNumber}`,
+        values: [[row[column]]],
+      })),
+    },
   });
 }
 
-export async function updateDroneRow(drone: Drone, rowIndex: number): Promise<void> {
-  const client = getSheetsClient();
-  if (!client) return;
+export async function updatePilotRow(pilot: Pilot, fields?: string[]): Promise<void> {
+  await updateRowById('pilot', pilot.pilot_id, pilot, fields);
+}
 
-  await client.sheets.spreadsheets.values.update({
-    spreadsheetId: client.spreadsheetId,
-    range: `'${SHEET_NAMES.drones}'!A${rowIndex + 2}:G${rowIndex + 2}`,
-    valueInputOption: 'USER_ENTERED',
-    requestBody: { values: [droneToRow(drone)] },
-  });
+export async function updateDroneRow(drone: Drone, fields?: string[]): Promise<void> {
+  await updateRowById('drone', drone.drone_id, drone, fields);
+}
+
+export async function updateMissionRow(mission: Mission, fields?: string[]): Promise<void> {
+  await updateRowById('mission', mission.project_id, mission, fields);
+}
+
+export async function updateEquipmentRow(item: Equipment, fields?: string[]): Promise<void> {
+  await updateRowById('equipment', item.equipment_id, item, fields);
 }
 
-export async function updateMissionRow(mission: Mission, rowIndex: number): Promise<void> {
+// ---- APPEND ROW (new records) ----
+
+async function appendRow(entity: EntityType, id: string, record: object): Promise<void> {
   const client = getSheetsClient();
   if (!client) return;
 
-  await client.sheets.spreadsheets.values.update({
+  const sheetName = tabFor(entity);
+  await ensureTab(sheetName);
+  const layout = await layoutForWrite(entity, [record]);
+  const response = await client.sheets.spreadsheets.values.append({
     spreadsheetId: client.spreadsheetId,
-    range: `'${SHEET_NAMES.missions}'!A${rowIndex + 2}:K${rowIndex + 2}`,
+    range: `'${sheetName}'!A:A`,
     valueInputOption: 'USER_ENTERED',
-    requestBody: { values: [missionToRow(mission)] },
+    insertDataOption: 'INSERT_ROWS',
+    requestBody: { values: [recordToRow(record, layout)] },
   });
+
+  // e.g. "'Pilot Roster'!A8:I8" -> row 8
+  const match = response.data.updates?.updatedRange?.match(/![A-Z]+(\d+)/);
+  if (match) {
+    const positions = rowPositions.get(sheetName) || new Map<string, number>();
+    positions.set(id, Number(match[1]));
+    rowPositions.set(sheetName, positions);
+  }
+}
+
+export async function appendPilotRow(pilot: Pilot): Promise<void> {
+  await appendRow('pilot', pilot.pilot_id, pilot);
+}
+
+export async function appendDroneRow(drone: Drone): Promise<void> {
+  await appendRow('drone', drone.drone_id, drone);
+}
+
+export async function appendMissionRow(mission: Mission): Promise<void> {
+  await appendRow('mission', mission.project_id, mission);
+}
+
+export async function appendEquipmentRow(item: Equipment): Promise<void> {
+  await appendRow('equipment', item.equipment_id, item);
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { checkIntegrity, plannedRepairs } from './integrity';
+import type { DataSnapshot, Mission, Pilot } from './types';
+
+const pilot: Pilot = {
+  pilot_id: 'P981', name: 'Asha', skills: ['Mapping'], certifications: [], location: 'Pune',
+  status: 'Assigned', current_assignment: 'PRJ981', available_from: '2027-01-01',
+};
+
+function mission(overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: 'PRJ981', client: 'Client T', location: 'Pune',
+    required_skills: ['Mapping'], required_certs: [],
+    start_date: '2027-09-01', end_date: '2027-09-02', priority: 'Standard',
+    crew: [{ pilot_id: 'P981', role: 'PIC' }], assigned_drones: [], mission_status: 'Active',
+    ...overrides,
+  };
+}
+
+function snapshot(m: Mission): DataSnapshot {
+  return { pilots: [pilot], drones: [], missions: [m], equipment: [] };
+}
+
+describe('checkIntegrity', () => {
+  it('reports an Active mission without a drone, without repairing it', () => {
+    const { issues } = checkIntegrity(snapshot(mission()), 'test');
+
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: 'lifecycle_mismatch', entity_id: 'PRJ981', field: 'mission_status' }),
+    ]);
+    expect(issues[0].message).toContain('no drone');
+    expect(issues[0].fix).toBeUndefined();
+    expect(plannedRepairs(issues)).toEqual([]);
+  });
+
+  it('leaves Planned missions without a drone alone', () => {
+    expect(checkIntegrity(snapshot(mission({ mission_status: 'Planned' })), 'test').issues).toEqual([]);
+  });
+});
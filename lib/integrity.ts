@@ -0,0 +1,239 @@
+// ============================================
+// Referential Integrity - Missions vs. Resource Back-References
+// ============================================
+// Who flies what is stored twice: a mission lists its crew, drones and
+// equipment, and each resource carries `current_assignment` plus an
+// Assigned/Deployed status. Sheet edits can leave the two disagreeing, or
+// name IDs that don't exist. The check runs after every pull and its report
+// is kept. Repairs (repairIntegrity in lib/assignments.ts) take the missions
+// as the source of truth:
+//   - IDs on a mission that name no record, or an archived one, are dropped
+//   - current_assignment points at an open mission listing the resource (the
+//     earliest, when it names none of them) or is cleared
+//   - Assigned/Deployed vs. Available follows whether any open mission lists it
+// An Active mission without a PIC or a drone is reported but not repaired:
+// whether to staff it or put it back on hold is for a person to decide.
+// Only open (Active/Planned) missions are checked; closed ones are history.
+
+import type {
+  DataSnapshot,
+  EntityChange,
+  EntityType,
+  IntegrityIssue,
+  IntegrityReport,
+  Mission,
+} from './types';
+import { crewIds, picOf } from './crew';
+import { getStorage } from './storage';
+
+const REPORT_KEY = 'integrity_report';
+
+let lastReport: IntegrityReport | null = null;
+
+function isOpen(m: Mission): boolean {
+  return !m.archived_at && (m.mission_status === 'Active' || m.mission_status === 'Planned');
+}
+
+// Issues found on one record share the change that repairs them all
+function withFix(found: Array<Omit<IntegrityIssue, 'fix'>>, fix: EntityChange): IntegrityIssue[] {
+  return found.map((issue) => ({ ...issue, fix }));
+}
+
+// ---- MISSION REFERENCES ----
+
+// Why an ID on a mission doesn't resolve, or null when it does
+function unresolved(record: { archived_at?: string } | undefined): string | null {
+  if (!record) return 'does not exist';
+  return record.archived_at ? 'is archived' : null;
+}
+
+function checkMission(mission: Mission, snapshot: DataSnapshot): IntegrityIssue[] {
+  const found: Array<Omit<IntegrityIssue, 'fix'>> = [];
+  const updates: Partial<Mission> = {};
+  const dangling = (field: string, kind: string, id: string, reason: string) =>
+    found.push({
+      kind: 'dangling_reference',
+      entity_type: 'mission',
+      entity_id: mission.project_id,
+      field,
+      value: id,
+      message: `${mission.project_id} lists ${kind} ${id}, which ${reason}`,
+    });
+
+  const badPilots = crewIds(mission).filter((id) => {
+    const reason = unresolved(snapshot.pilots.find((p) => p.pilot_id === id));
+    if (reason) dangling('crew', 'pilot', id, reason);
+    return reason;
+  });
+  if (badPilots.length > 0) updates.crew = mission.crew.filter((c) => !badPilots.includes(c.pilot_id));
+
+  const badDrones = mission.assigned_drones.filter((id) => {
+    const reason = unresolved(snapshot.drones.find((d) => d.drone_id === id));
+    if (reason) dangling('assigned_drones', 'drone', id, reason);
+    return reason;
+  });
+  if (badDrones.length > 0) updates.assigned_drones = mission.assigned_drones.filter((id) => !badDrones.includes(id));
+
+  const booked = mission.assigned_equipment || [];
+  const badEquipment = booked.filter((id) => {
+    const reason = unresolved(snapshot.equipment.find((e) => e.equipment_id === id));
+    if (reason) dangling('assigned_equipment', 'equipment', id, reason);
+    return reason;
+  });
+  if (badEquipment.length > 0) updates.assigned_equipment = booked.filter((id) => !badEquipment.includes(id));
+
+  return withFix(found, { entity: 'mission', id: mission.project_id, updates });
+}
+
+// The lifecycle guards apply to transitions; records that already break them
+// (typed into the sheet, or older than the guards) are only reported
+function checkMissionStatus(mission: Mission): IntegrityIssue[] {
+  if (mission.mission_status !== 'Active') return [];
+  const missing: string[] = [];
+  if (!picOf(mission)) missing.push('pilot-in-command');
+  if (mission.assigned_drones.length === 0) missing.push('drone');
+  if (missing.length === 0) return [];
+  return [{
+    kind: 'lifecycle_mismatch',
+    entity_type: 'mission',
+    entity_id: mission.project_id,
+    field: 'mission_status',
+    value: mission.mission_status,
+    message: `${mission.project_id} is Active but has no ${missing.join(' and no ')}; assign one or put it back to Planned`,
+  }];
+}
+
+// ---- RESOURCE BACK-REFERENCES ----
+
+interface Resource {
+  entity: Exclude<EntityType, 'mission'>;
+  id: string;
+  label: string; // "Pilot Neha (P002)"
+  status: string;
+  current_assignment: string;
+  archived_at?: string;
+}
+
+interface ResourceRepair<Busy extends string> {
+  found: Array<Omit<IntegrityIssue, 'fix'>>;
+  updates: { status?: Busy | 'Available'; current_assignment?: string };
+}
+
+// `busy` is the status meaning "on a mission": Assigned for pilots,
+// Deployed for drones and equipment
+function checkResource<Busy extends string>(
+  resource: Resource,
+  busy: Busy,
+  holding: Mission[],
+  snapshot: DataSnapshot
+): ResourceRepair<Busy> {
+  const repair: ResourceRepair<Busy> = { found: [], updates: {} };
+  if (resource.archived_at) return repair;
+
+  const { found, updates } = repair;
+  const issue = (kind: IntegrityIssue['kind'], field: string, value: unknown, message: string) =>
+    found.push({ kind, entity_type: resource.entity, entity_id: resource.id, field, value, message });
+  const current = resource.current_assignment;
+  const onMissions = holding.map((m) => m.project_id).join(', ');
+
+  if (current && !holding.some((m) => m.project_id === current)) {
+    const named = snapshot.missions.find((m) => m.project_id === current);
+    updates.current_assignment = holding[0]?.project_id || '';
+    if (!named) {
+      issue('dangling_reference', 'current_assignment', current, `${resource.label} is assigned to ${current}, which does not exist`);
+    } else {
+      const why = named.archived_at
+        ? `${current} is archived`
+        : !isOpen(named)
+          ? `${current} is ${named.mission_status}`
+          : `${current} does not list ${resource.id}`;
+      issue('back_reference_mismatch', 'current_assignment', current, `${resource.label} is assigned to ${current}, but ${why}${onMissions ? ` (on ${onMissions})` : ''}`);
+    }
+  } else if (!current && holding.length > 0) {
+    updates.current_assignment = holding[0].project_id;
+    issue('back_reference_mismatch', 'current_assignment', '', `${resource.label} has no current assignment but is on ${onMissions}`);
+  }
+
+  if (resource.status === busy && holding.length === 0) {
+    updates.status = 'Available';
+    issue('status_mismatch', 'status', resource.status, `${resource.label} is ${busy} but no open mission lists ${resource.id}`);
+  } else if (resource.status === 'Available' && holding.length > 0) {
+    updates.status = busy;
+    issue('status_mismatch', 'status', resource.status, `${resource.label} is Available but is on ${onMissions}`);
+  }
+  return repair;
+}
+
+// ---- CHECK ----
+
+export function checkIntegrity(snapshot: DataSnapshot, source: string): IntegrityReport {
+  const open = snapshot.missions.filter(isOpen).sort((a, b) => a.start_date.localeCompare(b.start_date));
+  const issues: IntegrityIssue[] = open.flatMap((m) => [...checkMission(m, snapshot), ...checkMissionStatus(m)]);
+
+  for (const pilot of snapshot.pilots) {
+    const holding = open.filter((m) => crewIds(m).includes(pilot.pilot_id));
+    const { found, updates } = checkResource(
+      { entity: 'pilot', id: pilot.pilot_id, label: `Pilot ${pilot.name} (${pilot.pilot_id})`, ...pilot },
+      'Assigned',
+      holding,
+      snapshot
+    );
+    issues.push(...withFix(found, { entity: 'pilot', id: pilot.pilot_id, updates }));
+  }
+  for (const drone of snapshot.drones) {
+    const holding = open.filter((m) => m.assigned_drones.includes(drone.drone_id));
+    const { found, updates } = checkResource(
+      { entity: 'drone', id: drone.drone_id, label: `Drone ${drone.model} (${drone.drone_id})`, ...drone },
+      'Deployed',
+      holding,
+      snapshot
+    );
+    issues.push(...withFix(found, { entity: 'drone', id: drone.drone_id, updates }));
+  }
+  for (const item of snapshot.equipment) {
+    const holding = open.filter((m) => (m.assigned_equipment || []).includes(item.equipment_id));
+    const { found, updates } = checkResource(
+      { entity: 'equipment', id: item.equipment_id, label: `${item.type} ${item.name} (${item.equipment_id})`, ...item },
+      'Deployed',
+      holding,
+      snapshot
+    );
+    issues.push(...withFix(found, { entity: 'equipment', id: item.equipment_id, updates }));
+  }
+
+  return { checked_at: new Date().toISOString(), source, issues };
+}
+
+// One change per record, combining the fixes of its issues; report-only
+// issues are left out
+export function plannedRepairs(issues: IntegrityIssue[]): EntityChange[] {
+  const changes: EntityChange[] = [];
+  for (const { fix } of issues) {
+    if (!fix) continue;
+    const existing = changes.find((c) => c.entity === fix.entity && c.id === fix.id);
+    if (existing) Object.assign(existing.updates, fix.updates);
+    else changes.push(structuredClone(fix));
+  }
+  return changes;
+}
+
+// ---- REPORT ----
+
+export async function saveIntegrityReport(report: IntegrityReport): Promise<void> {
+  lastReport = report;
+  try {
+    await getStorage().write<IntegrityReport>(REPORT_KEY, report);
+  } catch (error) {
+    console.error('Failed to persist integrity report:', error);
+  }
+}
+
+export async function getIntegrityReport(): Promise<IntegrityReport | null> {
+  if (lastReport) return lastReport;
+  try {
+    lastReport = await getStorage().read<IntegrityReport>(REPORT_KEY);
+  } catch (error) {
+    console.error('Failed to read integrity report:', error);
+  }
+  return lastReport;
+}
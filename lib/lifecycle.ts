@@ -0,0 +1,177 @@
+// ============================================
+// Mission Lifecycle - Status Transitions and Resource Release
+// ============================================
+// Missions move through a fixed set of states:
+//
+//   Planned -> Active | Cancelled
+//   Active  -> Completed | Cancelled | Planned (put back on hold)
+//   Completed, Cancelled: final
+//
+// Going Active needs a pilot-in-command and at least one drone; completing
+// needs the mission to have started. Completing or cancelling releases the
+// crew, drones and equipment still pointing at the mission: each moves on to
+// its next open mission, or becomes Available. The mission keeps its crew and
+// drone lists as a record of who flew it. Every transition is logged with a
+// timestamp (kept apart from the audit log, which records the field changes).
+//
+// The rules live here; transitionMission (lib/assignments.ts) applies them to
+// the store, and a pull that finds a mission closed in the sheet releases its
+// resources the same way.
+
+import type {
+  Mission,
+  MissionStatus,
+  MissionTransition,
+  MutationContext,
+  EntityChange,
+  Pilot,
+  Drone,
+  Equipment,
+} from './types';
+import { crewIds, picOf } from './crew';
+import { localToday } from './scheduling';
+import { getStorage } from './storage';
+
+const TRANSITION_KEY = 'mission_transitions';
+
+export const MISSION_TRANSITIONS: Record<MissionStatus, MissionStatus[]> = {
+  Planned: ['Active', 'Cancelled'],
+  Active: ['Completed', 'Cancelled', 'Planned'],
+  Completed: [],
+  Cancelled: [],
+};
+
+let transitions: MissionTransition[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+export function isClosed(mission: Mission): boolean {
+  return mission.mission_status === 'Completed' || mission.mission_status === 'Cancelled';
+}
+
+// ---- GUARDS ----
+
+// Why the mission can't move to `to`; empty when it can
+export function transitionBlockers(mission: Mission, to: MissionStatus, today: string): string[] {
+  const from = mission.mission_status;
+  const allowed = MISSION_TRANSITIONS[from];
+  if (!allowed.includes(to)) {
+    return [allowed.length > 0
+      ? `${mission.project_id} is ${from}; it can only move to ${allowed.join(', ')}`
+      : `${mission.project_id} is ${from}, which is final`];
+  }
+  if (mission.archived_at) return [`${mission.project_id} is archived`];
+
+  const blockers: string[] = [];
+  if (to === 'Active') {
+    if (!picOf(mission)) blockers.push(`${mission.project_id} has no pilot-in-command`);
+    if (mission.assigned_drones.length === 0) blockers.push(`${mission.project_id} has no drone assigned`);
+  }
+  if (to === 'Completed' && mission.start_date > today) {
+    blockers.push(`${mission.project_id} has not started yet (starts ${mission.start_date})`);
+  }
+  return blockers;
+}
+
+// Status for a Planned mission once an assignment is applied: it goes Active
+// when the assignment completes it with a PIC and a drone. A mission that
+// had both `before` (put back on hold) stays Planned whatever role is added.
+export function activationAfter(mission: Mission, before?: Mission): { mission_status?: MissionStatus } {
+  if (mission.mission_status !== 'Planned') return {};
+  const today = localToday();
+  if (before && transitionBlockers(before, 'Active', today).length === 0) return {};
+  return transitionBlockers(mission, 'Active', today).length === 0 ? { mission_status: 'Active' } : {};
+}
+
+// Status for an Active mission once crew or drones are taken off: it goes
+// back to Planned when it is left without a PIC or a drone
+export function deactivationAfter(mission: Mission): { mission_status?: MissionStatus } {
+  if (mission.mission_status !== 'Active') return {};
+  return picOf(mission) && mission.assigned_drones.length > 0 ? {} : { mission_status: 'Planned' };
+}
+
+// ---- RESOURCE RELEASE ----
+
+interface Holdings {
+  pilots: Pilot[];
+  drones: Drone[];
+  equipment: Equipment[];
+  missions: Mission[];
+}
+
+// Resources pointing at the mission move to the earliest other open mission
+// listing them, or are freed. A status other than the busy one (On Leave,
+// Maintenance, ...) is left alone.
+export function releaseChanges(mission: Mission, holdings: Holdings): EntityChange[] {
+  const id = mission.project_id;
+  const next = holdings.missions
+    .filter((m) => m.project_id !== id && !m.archived_at && !isClosed(m))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  const moveOn = (current: { status: string; current_assignment: string }, busy: string, following?: Mission) => {
+    const updates: { status?: 'Available'; current_assignment: string } = { current_assignment: following?.project_id || '' };
+    if (current.status === busy && !following) updates.status = 'Available';
+    return updates;
+  };
+
+  const changes: EntityChange[] = [];
+  for (const pilot of holdings.pilots.filter((p) => crewIds(mission).includes(p.pilot_id) && p.current_assignment === id)) {
+    const following = next.find((m) => crewIds(m).includes(pilot.pilot_id));
+    changes.push({ entity: 'pilot', id: pilot.pilot_id, updates: moveOn(pilot, 'Assigned', following) });
+  }
+  for (const drone of holdings.drones.filter((d) => mission.assigned_drones.includes(d.drone_id) && d.current_assignment === id)) {
+    const following = next.find((m) => m.assigned_drones.includes(drone.drone_id));
+    changes.push({ entity: 'drone', id: drone.drone_id, updates: moveOn(drone, 'Deployed', following) });
+  }
+  const booked = mission.assigned_equipment || [];
+  for (const item of holdings.equipment.filter((e) => booked.includes(e.equipment_id) && e.current_assignment === id)) {
+    const following = next.find((m) => (m.assigned_equipment || []).includes(item.equipment_id));
+    changes.push({ entity: 'equipment', id: item.equipment_id, updates: moveOn(item, 'Deployed', following) });
+  }
+  return changes;
+}
+
+// ---- HISTORY ----
+
+async function loadTransitions(): Promise<MissionTransition[]> {
+  if (transitions) return transitions;
+  try {
+    transitions = (await getStorage().read<MissionTransition[]>(TRANSITION_KEY)) || [];
+  } catch (error) {
+    console.error('Failed to read mission transitions:', error);
+    transitions = [];
+  }
+  return transitions;
+}
+
+export async function recordTransition(
+  projectId: string,
+  from: MissionStatus,
+  to: MissionStatus,
+  context: MutationContext,
+  released: string[] = []
+): Promise<MissionTransition> {
+  const transition: MissionTransition = {
+    project_id: projectId,
+    from,
+    to,
+    timestamp: new Date().toISOString(),
+    source: context.source,
+    actor: context.actor || context.source,
+    reason: context.reason || '',
+    released,
+  };
+
+  const log = await loadTransitions();
+  log.push(transition);
+  writeQueue = writeQueue
+    .then(() => getStorage().write(TRANSITION_KEY, log))
+    .catch((error) => console.error('Failed to persist mission transitions:', error));
+  await writeQueue;
+
+  return transition;
+}
+
+// Oldest first
+export async function getMissionTransitions(projectId?: string): Promise<MissionTransition[]> {
+  const log = await loadTransitions();
+  return projectId ? log.filter((t) => t.project_id === projectId) : [...log];
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { dueAfterService, maintenanceDueDuring } from './maintenance';
+import type { Drone, MaintenanceWindow, Mission } from './types';
+
+function drone(maintenance_windows: MaintenanceWindow[]): Drone {
+  return {
+    drone_id: 'D901', model: 'Test Quad', capabilities: ['RGB'], status: 'Available',
+    location: 'Pune', current_assignment: '', maintenance_due: '2026-03-10', maintenance_windows,
+  };
+}
+
+const mission: Mission = {
+  project_id: 'PRJ901', client: 'Client T', location: 'Pune',
+  required_skills: ['Mapping'], required_certs: ['DGCA'],
+  start_date: '2026-03-20', end_date: '2026-03-22', priority: 'Standard',
+  crew: [], assigned_drones: ['D901'], mission_status: 'Planned',
+};
+
+describe('maintenanceDueDuring', () => {
+  it('flags maintenance overdue before the mission with no service', () => {
+    expect(maintenanceDueDuring(drone([]), mission)).toBe(true);
+  });
+
+  it('accepts a service done shortly before the due date', () => {
+    expect(maintenanceDueDuring(drone([{ kind: 'service', start_date: '2026-03-04', end_date: '2026-03-05' }]), mission)).toBe(false);
+  });
+
+  it('accepts a service scheduled between the due date and the mission', () => {
+    expect(maintenanceDueDuring(drone([{ kind: 'service', start_date: '2026-03-15', end_date: '2026-03-16' }]), mission)).toBe(false);
+  });
+
+  it('ignores a service from an earlier interval and other kinds of window', () => {
+    expect(maintenanceDueDuring(drone([
+      { kind: 'service', start_date: '2025-12-01', end_date: '2025-12-02' },
+      { kind: 'firmware', start_date: '2026-03-12', end_date: '2026-03-12' },
+    ]), mission)).toBe(true);
+  });
+});
+
+describe('dueAfterService', () => {
+  const serviced = drone([{ kind: 'service', start_date: '2026-03-04', end_date: '2026-03-05' }]);
+
+  it('moves the due date one interval past a finished service', () => {
+    expect(dueAfterService(serviced, '2026-03-06')).toBe('2026-06-03');
+  });
+
+  it('waits for the service to end', () => {
+    expect(dueAfterService(serviced, '2026-03-05')).toBe('2026-03-10');
+  });
+
+  it('is stable once moved on', () => {
+    const moved = { ...serviced, maintenance_due: dueAfterService(serviced, '2026-03-06') };
+    expect(dueAfterService(moved, '2026-03-07')).toBe('2026-06-03');
+  });
+});
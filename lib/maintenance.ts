@@ -0,0 +1,122 @@
+// ============================================
+// Drone Maintenance Windows
+// ============================================
+// Each drone carries scheduled maintenance windows (service, firmware
+// updates, inspections, repairs) in the lib/dateBlocks.ts format:
+//
+//   maintenance_windows: Service 2026-03-01..2026-03-03 (rotor swap); Firmware 2026-03-10
+//
+// A drone is in `Maintenance` exactly while a window covers today. An
+// unplanned repair is an open-ended window ("Repair 2026-03-05..") that lasts
+// until it is closed.
+//
+// A service window ending no more than EARLY_SERVICE_DAYS before
+// maintenance_due (or any time after it) covers that due date; once the
+// service is over, maintenance_due moves on by MAINTENANCE_INTERVAL_DAYS
+// (90 by default).
+
+import type { Drone, DroneStatus, MaintenanceWindow, Mission } from './types';
+import { addDays } from './scheduling';
+import { blocksOverlapping, isOpenEnded } from './dateBlocks';
+import type { DateBlock } from './dateBlocks';
+
+const MAX_SEARCH_DAYS = 366;
+const EARLY_SERVICE_DAYS = 14;
+
+// ---- CONFIG ----
+
+function serviceIntervalDays(): number {
+  const value = Number(process.env.MAINTENANCE_INTERVAL_DAYS);
+  return Number.isFinite(value) && value > 0 ? value : 90;
+}
+
+// ---- EVALUATION ----
+
+// Windows overlapping the date range (inclusive)
+export function windowsBetween(drone: Drone, startDate: string, endDate: string): MaintenanceWindow[] {
+  return blocksOverlapping(drone.maintenance_windows || [], startDate, endDate);
+}
+
+export function inMaintenance(drone: Drone, date: string): boolean {
+  return windowsBetween(drone, date, date).length > 0;
+}
+
+// Finished or scheduled services that count toward the current due date
+function servicingFor(drone: Drone): MaintenanceWindow[] {
+  const earliest = addDays(drone.maintenance_due, -EARLY_SERVICE_DAYS);
+  return (drone.maintenance_windows || []).filter((w) => w.kind === 'service' && w.end_date && w.end_date >= earliest);
+}
+
+// True when maintenance falls due during the mission, or is already overdue
+// by the time it starts with no service scheduled before it
+export function maintenanceDueDuring(drone: Drone, mission: Mission): boolean {
+  if (drone.maintenance_due > mission.end_date) return false;
+  return !servicingFor(drone).some((w) => w.end_date < mission.start_date);
+}
+
+// maintenance_due one interval after the service that covered it ended;
+// unchanged until that service is over
+export function dueAfterService(drone: Drone, today: string): string {
+  const done = servicingFor(drone).filter((w) => w.end_date < today);
+  if (done.length === 0) return drone.maintenance_due;
+  const last = done.reduce((latest, w) => (w.end_date > latest ? w.end_date : latest), done[0].end_date);
+  const next = addDays(last, serviceIntervalDays());
+  return next > drone.maintenance_due ? next : drone.maintenance_due;
+}
+
+// ---- DERIVED STATUS ----
+
+// `Maintenance` while a window covers today; back to Deployed/Available once
+// it ends
+export function maintenanceStatus(drone: Drone, today: string): DroneStatus {
+  if (drone.archived_at) return drone.status;
+  if (inMaintenance(drone, today)) return 'Maintenance';
+  if (drone.status === 'Maintenance') return drone.current_assignment ? 'Deployed' : 'Available';
+  return drone.status;
+}
+
+// Window standing in for a manually set `Maintenance` status
+export function openRepairWindow(today: string, note?: string): MaintenanceWindow {
+  const window: MaintenanceWindow = { kind: 'repair', start_date: today, end_date: '' };
+  if (note) window.note = note;
+  return window;
+}
+
+// Close open-ended windows as of yesterday (dropping any opened today), for
+// when a drone is manually returned to service
+export function closeOpenWindows(drone: Drone, today: string): MaintenanceWindow[] {
+  return (drone.maintenance_windows || [])
+    .filter((w) => !isOpenEnded(w) || w.start_date < today)
+    .map((w) => (isOpenEnded(w) ? { ...w, end_date: addDays(today, -1) } : w));
+}
+
+// ---- PLANNING ----
+
+// Earliest run of `days` consecutive days from `earliest` on which the drone
+// has no mission and no other maintenance scheduled
+export function findMaintenanceSlot(
+  drone: Drone,
+  missions: Mission[],
+  days: number,
+  earliest: string
+): { start_date: string; end_date: string } | null {
+  const busy: DateBlock<string>[] = [
+    ...missions
+      .filter(
+        (m) =>
+          m.assigned_drones.includes(drone.drone_id) &&
+          (m.mission_status === 'Active' || m.mission_status === 'Planned')
+      )
+      .map((m) => ({ kind: m.project_id, start_date: m.start_date, end_date: m.end_date })),
+    ...(drone.maintenance_windows || []),
+  ];
+
+  let start = earliest;
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, start = addDays(start, 1)) {
+    const end = addDays(start, days - 1);
+    if (blocksOverlapping(busy, start, end).length === 0) {
+      return { start_date: start, end_date: end };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { enqueueWrite, flushOutbox, getPendingWrite, getOutboxStatus } from './outbox';
+
+describe('enqueueWrite', () => {
+  it('folds a newer change into the queued entry without counting a retry', async () => {
+    await enqueueWrite('pilot', 'P101', 'update', new Error('quota exceeded'));
+    const entry = await enqueueWrite('pilot', 'P101', 'update', new Error('quota exceeded'));
+
+    expect(entry).toMatchObject({ attempts: 1, superseded: 1, status: 'pending' });
+  });
+
+  it('keeps a queued append an append', async () => {
+    await enqueueWrite('drone', 'D101', 'append', new Error('offline'));
+    await enqueueWrite('drone', 'D101', 'update', new Error('offline'));
+
+    expect((await getPendingWrite('drone', 'D101'))?.operation).toBe('append');
+  });
+
+  it('gives up on a write the source refuses for good', async () => {
+    const entry = await enqueueWrite('mission', 'PRJ101', 'update', new Error('Refusing to write: PRJ101 no longer exists'));
+    expect(entry.status).toBe('failed');
+  });
+});
+
+describe('flushOutbox', () => {
+  it('marks an entry failed once it runs out of attempts', async () => {
+    await enqueueWrite('equipment', 'E101', 'update', new Error('offline'));
+    for (let i = 0; i < 7; i++) {
+      await flushOutbox(async () => { throw new Error('offline'); }, { force: true });
+    }
+
+    const { failed } = await getOutboxStatus();
+    expect(failed.find((e) => e.entity_id === 'E101')).toMatchObject({ status: 'failed', attempts: 8 });
+  });
+
+  it('drops entries that are written successfully', async () => {
+    await flushOutbox(async () => undefined, { force: true });
+    expect(await getOutboxStatus()).toEqual({ pending: [], failed: [] });
+  });
+});
@@ -0,0 +1,181 @@
+// ============================================
+// Outbox - Durable Queue of Pending Data Source Writes
+// ============================================
+// A write-back that fails (quota errors, network blips) is queued here and
+// retried with exponential backoff instead of being dropped. There is at most
+// one entry per record: the record's current state is written when the entry
+// is retried, so a newer change simply supersedes the queued one.
+
+import type { EntityType, OutboxEntry, OutboxOperation } from './types';
+import { getStorage } from './storage';
+
+const OUTBOX_KEY = 'outbox';
+
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+let entries: OutboxEntry[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let flushing: Promise<{ succeeded: number; failed: number }> | null = null;
+
+async function loadEntries(): Promise<OutboxEntry[]> {
+  if (entries) return entries;
+  try {
+    entries = (await getStorage().read<OutboxEntry[]>(OUTBOX_KEY)) || [];
+  } catch (error) {
+    console.error('Failed to read outbox:', error);
+    entries = [];
+  }
+  return entries;
+}
+
+async function persist(): Promise<void> {
+  const snapshot = await loadEntries();
+  writeQueue = writeQueue
+    .then(() => getStorage().write(OUTBOX_KEY, snapshot))
+    .catch((error) => console.error('Failed to persist outbox:', error));
+  await writeQueue;
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+}
+
+// Errors that retrying cannot fix, e.g. the row was deleted from the sheet
+function isPermanentError(error: unknown): boolean {
+  return String(error).includes('Refusing to write');
+}
+
+// Entries are given up on after a permanent error or MAX_ATTEMPTS tries
+function statusAfter(error: unknown, attempts: number): OutboxEntry['status'] {
+  return isPermanentError(error) || attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+}
+
+// ---- QUEUEING ----
+
+export async function enqueueWrite(
+  entityType: EntityType,
+  entityId: string,
+  operation: OutboxOperation,
+  error: unknown
+): Promise<OutboxEntry> {
+  const log = await loadEntries();
+  const now = new Date();
+  const existing = log.find((e) => e.entity_type === entityType && e.entity_id === entityId);
+
+  if (existing) {
+    // A newer change folds into the entry without counting as a retry, so it
+    // keeps its place in the backoff schedule. A queued append still has to
+    // append, whatever the newer change was.
+    if (existing.operation !== 'append') existing.operation = operation;
+    existing.superseded += 1;
+    existing.last_error = String(error);
+    existing.updated_at = now.toISOString();
+    existing.status = statusAfter(error, existing.attempts);
+    await persist();
+    return existing;
+  }
+
+  const entry: OutboxEntry = {
+    entity_type: entityType,
+    entity_id: entityId,
+    operation,
+    status: statusAfter(error, 1),
+    attempts: 1,
+    superseded: 0,
+    last_error: String(error),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    next_attempt_at: new Date(now.getTime() + backoffDelay(1)).toISOString(),
+  };
+  log.push(entry);
+  await persist();
+  return entry;
+}
+
+export async function getPendingWrite(entityType: EntityType, entityId: string): Promise<OutboxEntry | null> {
+  const log = await loadEntries();
+  return log.find((e) => e.entity_type === entityType && e.entity_id === entityId) || null;
+}
+
+// The record reached the data source by some other path; drop its entry
+export async function clearWrite(entityType: EntityType, entityId: string): Promise<void> {
+  const log = await loadEntries();
+  const index = log.findIndex((e) => e.entity_type === entityType && e.entity_id === entityId);
+  if (index === -1) return;
+  log.splice(index, 1);
+  await persist();
+}
+
+// A full write replaced everything in the data source
+export async function clearAllWrites(): Promise<number> {
+  const log = await loadEntries();
+  const count = log.length;
+  log.splice(0, log.length);
+  if (count > 0) await persist();
+  return count;
+}
+
+// ---- RETRY ----
+
+// Retry every pending entry whose backoff has elapsed (or every pending and
+// failed entry when `force` is set). Concurrent calls share one flush.
+export async function flushOutbox(
+  execute: (entry: OutboxEntry) => Promise<void>,
+  options: { force?: boolean } = {}
+): Promise<{ succeeded: number; failed: number }> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const log = await loadEntries();
+    const now = Date.now();
+    const due = log.filter((e) =>
+      options.force ? true : e.status === 'pending' && new Date(e.next_attempt_at).getTime() <= now
+    );
+
+    let succeeded = 0;
+    let failed = 0;
+    for (const entry of due) {
+      try {
+        await execute(entry);
+        const index = log.indexOf(entry);
+        if (index !== -1) log.splice(index, 1);
+        succeeded++;
+      } catch (error) {
+        entry.attempts += 1;
+        entry.last_error = String(error);
+        entry.updated_at = new Date().toISOString();
+        entry.next_attempt_at = new Date(Date.now() + backoffDelay(entry.attempts)).toISOString();
+        entry.status = statusAfter(error, entry.attempts);
+        failed++;
+      }
+    }
+
+    if (due.length > 0) await persist();
+    return { succeeded, failed };
+  })();
+
+  try {
+    return await flushing;
+  } finally {
+    flushing = null;
+  }
+}
+
+export async function hasDueWrites(): Promise<boolean> {
+  const now = Date.now();
+  return (await loadEntries()).some(
+    (e) => e.status === 'pending' && new Date(e.next_attempt_at).getTime() <= now
+  );
+}
+
+// ---- STATUS ----
+
+export async function getOutboxStatus(): Promise<{ pending: OutboxEntry[]; failed: OutboxEntry[] }> {
+  const log = await loadEntries();
+  return {
+    pending: log.filter((e) => e.status === 'pending'),
+    failed: log.filter((e) => e.status === 'failed'),
+  };
+}
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { planAssignments, applyPlan, getLatestPlan } from './planner';
+import { findBestPilotForMission } from './conflicts';
+import { createMission, getMissionById } from './dataStore';
+import type { Mission, MutationContext } from './types';
+
+const context: MutationContext = { source: 'api', actor: 'test' };
+
+function mission(id: string, overrides: Partial<Mission> = {}): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Bangalore',
+    required_skills: ['Mapping'], required_certs: ['DGCA'],
+    start_date: '2028-01-10', end_date: '2028-01-11', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  process.env.DATA_SOURCE = 'none';
+  // Overlapping: only P001 holds Night Ops, and P001 is also the best match
+  // for the Urgent mission
+  await createMission(mission('PRJ941', { required_skills: ['Survey', 'Mapping'], required_certs: ['DGCA', 'Night Ops'] }), context);
+  await createMission(mission('PRJ942', { priority: 'Urgent' }), context);
+});
+
+function pilotFor(plan: Awaited<ReturnType<typeof planAssignments>>, projectId: string): string | undefined {
+  return plan.assignments.find((a) => a.project_id === projectId && a.kind === 'pilot')?.resource_id;
+}
+
+describe('planAssignments', () => {
+  it('staffs both missions where taking the best match for the Urgent one first would not', async () => {
+    const greedy = (await findBestPilotForMission('PRJ942')).matches.find((m) => m.eligible)?.pilot.pilot_id;
+    expect(greedy).toBe('P001');
+
+    const plan = await planAssignments();
+
+    expect(pilotFor(plan, 'PRJ941')).toBe('P001');
+    expect(pilotFor(plan, 'PRJ942')).toBeDefined();
+    expect(pilotFor(plan, 'PRJ942')).not.toBe('P001');
+    expect(plan.search.exhaustive).toBe(true);
+  });
+
+  it('never plans one drone on two overlapping missions', async () => {
+    const plan = await planAssignments();
+    const drones = plan.assignments.filter((a) => a.kind === 'drone' && ['PRJ941', 'PRJ942'].includes(a.project_id));
+    expect(new Set(drones.map((a) => a.resource_id)).size).toBe(drones.length);
+  });
+});
+
+describe('applyPlan', () => {
+  it('leaves a plan open when nothing in it was applied', async () => {
+    const plan = await planAssignments();
+
+    const result = await applyPlan(plan.plan_id, context, { skip_missions: plan.missions });
+
+    expect(result.results).toEqual([]);
+    expect((await getLatestPlan())?.applied_at).toBeUndefined();
+  });
+
+  it('applies a plan once, even when asked twice at the same time', async () => {
+    const plan = await planAssignments();
+
+    const [first, second] = await Promise.all([applyPlan(plan.plan_id, context), applyPlan(plan.plan_id, context)]);
+
+    expect(first.success).toBe(true);
+    expect(second.error).toMatch(/already applied/);
+    expect((await getMissionById('PRJ941'))?.crew.map((c) => c.pilot_id)).toEqual(['P001']);
+  });
+});
@@ -0,0 +1,382 @@
+// ============================================
+// Assignment Planner - Staff All Open Missions Jointly
+// ============================================
+// Ranking candidates one mission at a time hands the best pilot to whichever
+// mission is asked about first. The planner takes every Planned mission with
+// open crew roles or missing drones, lists the candidates each open slot can
+// take without a blocking conflict, and searches for the combination with the
+// highest total value. A slot's value is its mission's priority weight plus
+// the candidate's match score, so staffing an Urgent mission outweighs better
+// matches elsewhere.
+//
+// Each pick is checked by the conflict rules against the picks made so far,
+// so overlaps, transit time and joint constraints between a mission's pilots,
+// drones and booked equipment (e.g. equipment fit) hold for the plan as a
+// whole. A plan is only a proposal until it is applied; applying runs the
+// normal assignment operations, so anything that changed since is re-checked.
+
+import { randomUUID } from 'crypto';
+import type {
+  Mission,
+  Priority,
+  MutationContext,
+  Conflict,
+  PlanSlot,
+  PlannedAssignment,
+  UnfilledSlot,
+  AssignmentPlan,
+} from './types';
+import { getMissions } from './dataStore';
+import { getStorage } from './storage';
+import {
+  findBestPilotForMission,
+  findBestDroneForMission,
+  validatePilotAssignment,
+  validateDroneAssignment,
+  loadRuleContext,
+  validateProposal,
+} from './conflicts';
+import type { RuleContext } from './conflictRules';
+import { assignPilotToMission, assignDroneToMission } from './assignments';
+import { openRoles, dronesMissing, roleOf, crewIds } from './crew';
+import { getScoringPolicy } from './scoringPolicy';
+
+const PLAN_KEY = 'assignment_plan';
+
+const PRIORITY_WEIGHT: Record<Priority, number> = { Urgent: 1000, High: 300, Standard: 100 };
+
+// Stop searching after this many nodes and keep the best plan found so far
+const MAX_SEARCH_NODES = 50000;
+
+interface Candidate {
+  id: string;
+  name: string;
+  score: number;
+  issues: string[];
+}
+
+interface SlotOptions {
+  slot: PlanSlot;
+  mission: Mission;
+  candidates: Candidate[]; // eligible, best first
+  blocked: string[]; // why the best-ranked ineligible candidates were ruled out
+}
+
+// ---- CANDIDATES ----
+
+function firstError(conflicts: Conflict[]): string {
+  return conflicts.find((c) => c.severity === 'error')?.message || 'blocked';
+}
+
+function describeSlot(slot: PlanSlot): string {
+  return slot.kind === 'pilot' ? `${slot.role} for ${slot.project_id}` : `drone for ${slot.project_id}`;
+}
+
+// Candidates are ranked by the single-mission matchers and kept only if the
+// scoring policy allows them and the assignment would pass validation on its
+// own
+async function pilotCandidates(mission: Mission, slot: PlanSlot): Promise<Pick<SlotOptions, 'candidates' | 'blocked'>> {
+  const candidates: Candidate[] = [];
+  const blocked: string[] = [];
+  for (const match of (await findBestPilotForMission(mission.project_id, slot.role)).matches) {
+    const id = match.pilot.pilot_id;
+    if (roleOf(mission, id)) continue;
+    if (!match.eligible) {
+      if (blocked.length < 3) blocked.push(`${id}: ${match.issues.join('; ')}`);
+      continue;
+    }
+    const validation = await validatePilotAssignment(id, mission.project_id, slot.role);
+    if (validation.valid) {
+      candidates.push({ id, name: match.pilot.name, score: match.score, issues: match.issues });
+    } else if (blocked.length < 3) {
+      blocked.push(`${id}: ${firstError(validation.conflicts)}`);
+    }
+  }
+  return { candidates, blocked };
+}
+
+async function droneCandidates(mission: Mission): Promise<Pick<SlotOptions, 'candidates' | 'blocked'>> {
+  const candidates: Candidate[] = [];
+  const blocked: string[] = [];
+  for (const match of (await findBestDroneForMission(mission.project_id)).matches) {
+    const id = match.drone.drone_id;
+    if (mission.assigned_drones.includes(id)) continue;
+    if (!match.eligible) {
+      if (blocked.length < 3) blocked.push(`${id}: ${match.issues.join('; ')}`);
+      continue;
+    }
+    const validation = await validateDroneAssignment(id, mission.project_id);
+    if (validation.valid) {
+      candidates.push({ id, name: match.drone.model, score: match.score, issues: match.issues });
+    } else if (blocked.length < 3) {
+      blocked.push(`${id}: ${firstError(validation.conflicts)}`);
+    }
+  }
+  return { candidates, blocked };
+}
+
+async function openSlots(missions: Mission[]): Promise<SlotOptions[]> {
+  const options: SlotOptions[] = [];
+  for (const mission of missions) {
+    const base = { project_id: mission.project_id, priority: mission.priority };
+
+    // Slots for the same role share one candidate list
+    const byRole = new Map<string, Pick<SlotOptions, 'candidates' | 'blocked'>>();
+    for (const role of openRoles(mission)) {
+      const slot: PlanSlot = { ...base, kind: 'pilot', role };
+      if (!byRole.has(role)) byRole.set(role, await pilotCandidates(mission, slot));
+      options.push({ slot, mission, ...byRole.get(role)! });
+    }
+
+    const missing = dronesMissing(mission);
+    const drones = missing > 0 ? await droneCandidates(mission) : null;
+    for (let i = 0; i < missing; i++) {
+      options.push({ slot: { ...base, kind: 'drone' }, mission, ...drones! });
+    }
+  }
+  return options;
+}
+
+// ---- SEARCH ----
+
+function slotValue(slot: PlanSlot, candidate: Candidate): number {
+  return PRIORITY_WEIGHT[slot.priority] + candidate.score;
+}
+
+function withPick(mission: Mission, slot: PlanSlot, id: string): Mission {
+  return slot.kind === 'pilot'
+    ? { ...mission, crew: [...mission.crew, { pilot_id: id, role: slot.role || 'PIC' }] }
+    : { ...mission, assigned_drones: [...mission.assigned_drones, id] };
+}
+
+// Branch and bound over the slots, highest priority and fewest candidates
+// first. A candidate is only picked if the rules accept it on its mission
+// with every pick so far applied, across all missions.
+function solve(
+  options: SlotOptions[],
+  ctx: RuleContext
+): { picks: Array<Candidate | null>; nodes: number; exhaustive: boolean } {
+  const order = [...options.keys()].sort(
+    (a, b) =>
+      PRIORITY_WEIGHT[options[b].slot.priority] - PRIORITY_WEIGHT[options[a].slot.priority] ||
+      options[a].candidates.length - options[b].candidates.length
+  );
+
+  // Most the remaining slots could still add, for pruning
+  const bound = new Array<number>(order.length + 1).fill(0);
+  for (let i = order.length - 1; i >= 0; i--) {
+    const { slot, candidates } = options[order[i]];
+    bound[i] = bound[i + 1] + Math.max(0, ...candidates.map((c) => slotValue(slot, c)));
+  }
+
+  const picks: Array<Candidate | null> = options.map(() => null);
+  // Each mission as it stands with the picks so far
+  const planned = new Map(ctx.missions.map((m) => [m.project_id, m]));
+  let best = { value: -1, picks: [...picks] };
+  let nodes = 0;
+  let exhaustive = true;
+
+  const fits = (slot: PlanSlot, id: string): Mission | null => {
+    const current = planned.get(slot.project_id)!;
+    if ([...crewIds(current), ...current.assigned_drones].includes(id)) return null;
+    const proposed = withPick(current, slot, id);
+    return validateProposal({ ...ctx, missions: [...planned.values()] }, proposed, id).valid ? proposed : null;
+  };
+
+  const search = (depth: number, value: number): void => {
+    if (++nodes > MAX_SEARCH_NODES) {
+      exhaustive = false;
+      return;
+    }
+    if (value + bound[depth] <= best.value) return;
+    if (depth === order.length) {
+      best = { value, picks: [...picks] };
+      return;
+    }
+
+    const index = order[depth];
+    const { slot, candidates } = options[index];
+    const current = planned.get(slot.project_id)!;
+    for (const candidate of candidates) {
+      const proposed = fits(slot, candidate.id);
+      if (!proposed) continue;
+      planned.set(slot.project_id, proposed);
+      picks[index] = candidate;
+      search(depth + 1, value + slotValue(slot, candidate));
+      picks[index] = null;
+      planned.set(slot.project_id, current);
+      if (!exhaustive) return;
+    }
+    search(depth + 1, value);
+  };
+
+  search(0, 0);
+  return { picks: best.picks, nodes, exhaustive };
+}
+
+// ---- EXPLANATIONS ----
+
+function explain(options: SlotOptions[], picks: Array<Candidate | null>, index: number): string[] {
+  const { slot, candidates } = options[index];
+  const chosen = picks[index]!;
+  const lines = [
+    `Score ${chosen.score}${chosen.issues.length > 0 ? `; ${chosen.issues.join('; ')}` : '; no issues'}`,
+  ];
+
+  // Better matches for this slot that the plan needs elsewhere
+  for (const better of candidates.filter((c) => c.score > chosen.score).slice(0, 2)) {
+    const elsewhere = options.findIndex(
+      (o, i) => i !== index && picks[i]?.id === better.id && o.slot.project_id !== slot.project_id
+    );
+    if (elsewhere !== -1) {
+      const other = options[elsewhere].slot;
+      lines.push(`${better.name} (${better.id}) scores higher (${better.score}) but is planned as ${describeSlot(other)} (${other.priority})`);
+    }
+  }
+  if (slot.kind === 'pilot' && slot.role !== 'PIC') lines.push(`Checked against ${slot.role} requirements`);
+  return lines;
+}
+
+function unfilledReason(options: SlotOptions[], picks: Array<Candidate | null>, index: number): string {
+  const { slot, candidates, blocked } = options[index];
+  const what = slot.kind === 'pilot' ? `pilot for ${slot.role}` : 'drone';
+  if (candidates.length === 0) {
+    return blocked.length > 0 ? `No eligible ${what}: ${blocked.join('; ')}` : `No ${what} available`;
+  }
+
+  const taken = candidates.map((c) => {
+    const elsewhere = options.findIndex((o, i) => i !== index && picks[i]?.id === c.id);
+    return elsewhere === -1 ? null : `${c.id} → ${describeSlot(options[elsewhere].slot)}`;
+  });
+  if (taken.every(Boolean)) {
+    return `Every eligible ${what} is planned for a mission that overlaps or ranks higher: ${taken.join(', ')}`;
+  }
+  return `Eligible ${what}s (${candidates.map((c) => c.id).join(', ')}) are already planned for overlapping missions`;
+}
+
+// ---- PLAN / APPLY ----
+
+export async function planAssignments(): Promise<AssignmentPlan> {
+  const missions = (await getMissions({ status: 'Planned' })).filter(
+    (m) => openRoles(m).length > 0 || dronesMissing(m) > 0
+  );
+  const options = await openSlots(missions);
+  const { picks, nodes, exhaustive } = solve(options, await loadRuleContext());
+
+  const assignments: PlannedAssignment[] = [];
+  const unfilled: UnfilledSlot[] = [];
+  let total = 0;
+  options.forEach((option, i) => {
+    const pick = picks[i];
+    if (!pick) {
+      unfilled.push({ ...option.slot, reason: unfilledReason(options, picks, i) });
+      return;
+    }
+    total += slotValue(option.slot, pick);
+    assignments.push({
+      ...option.slot,
+      resource_id: pick.id,
+      resource_name: pick.name,
+      score: pick.score,
+      explanation: explain(options, picks, i),
+    });
+  });
+
+  const byPriority = (a: PlanSlot, b: PlanSlot) => PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority];
+  const plan: AssignmentPlan = {
+    plan_id: randomUUID(),
+    created_at: new Date().toISOString(),
+    missions: missions.map((m) => m.project_id),
+    assignments: assignments.sort(byPriority),
+    unfilled: unfilled.sort(byPriority),
+    total_score: total,
+    policy_version: getScoringPolicy().version,
+    search: { nodes, exhaustive },
+  };
+
+  try {
+    await getStorage().write<AssignmentPlan>(PLAN_KEY, plan);
+  } catch (error) {
+    console.error('Failed to persist assignment plan:', error);
+  }
+  return plan;
+}
+
+export async function getLatestPlan(): Promise<AssignmentPlan | null> {
+  try {
+    return await getStorage().read<AssignmentPlan>(PLAN_KEY);
+  } catch (error) {
+    console.error('Failed to read assignment plan:', error);
+    return null;
+  }
+}
+
+interface ApplyResult {
+  success: boolean;
+  error?: string;
+  results?: Array<{ project_id: string; kind: 'pilot' | 'drone'; resource_id: string; success: boolean; error?: string; conflicts?: Conflict[] }>;
+  skipped?: string[];
+}
+
+// Applies run one at a time, so the same plan can't be carried out twice
+let applyQueue: Promise<unknown> = Promise.resolve();
+
+// Carry out the latest plan, optionally leaving some missions out. Each
+// assignment is validated again; one that no longer holds fails on its own.
+// A plan none of whose assignments went through can be applied again.
+export function applyPlan(
+  planId: string,
+  context: MutationContext,
+  options: { skip_missions?: string[] } = {}
+): Promise<ApplyResult> {
+  const run = applyQueue.then(() => applyLatestPlan(planId, context, options));
+  applyQueue = run.catch(() => {});
+  return run;
+}
+
+async function applyLatestPlan(
+  planId: string,
+  context: MutationContext,
+  options: { skip_missions?: string[] }
+): Promise<ApplyResult> {
+  const plan = await getLatestPlan();
+  if (!plan || plan.plan_id !== planId) {
+    return { success: false, error: `Plan ${planId} not found; only the latest plan can be applied` };
+  }
+  if (plan.applied_at) {
+    return { success: false, error: `Plan ${planId} was already applied at ${plan.applied_at}` };
+  }
+
+  const skip = options.skip_missions || [];
+  const results = [];
+  for (const a of plan.assignments) {
+    if (skip.includes(a.project_id)) continue;
+    const result =
+      a.kind === 'pilot'
+        ? await assignPilotToMission(a.resource_id, a.project_id, context, { role: a.role })
+        : await assignDroneToMission(a.resource_id, a.project_id, context);
+    results.push({
+      project_id: a.project_id,
+      kind: a.kind,
+      resource_id: a.resource_id,
+      success: result.success,
+      error: result.error || result.message,
+      conflicts: result.conflicts,
+    });
+  }
+
+  if (results.some((r) => r.success)) {
+    plan.applied_at = new Date().toISOString();
+    try {
+      await getStorage().write<AssignmentPlan>(PLAN_KEY, plan);
+    } catch (error) {
+      console.error('Failed to persist assignment plan:', error);
+    }
+  }
+
+  return {
+    success: results.every((r) => r.success),
+    results,
+    skipped: plan.missions.filter((id) => skip.includes(id)),
+  };
+}
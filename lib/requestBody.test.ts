@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { readJsonBody } from './requestBody';
+
+function post(body: string): Request {
+  return new Request('http://localhost/api/test', { method: 'POST', body });
+}
+
+describe('readJsonBody', () => {
+  it('parses a JSON object', async () => {
+    expect(await readJsonBody(post('{"dry_run":false}'))).toEqual({ ok: true, body: { dry_run: false } });
+  });
+
+  it('reads an empty body as an empty object', async () => {
+    expect(await readJsonBody(post(''))).toEqual({ ok: true, body: {} });
+  });
+
+  it('rejects malformed JSON', async () => {
+    const read = await readJsonBody(post('{"action": '));
+    expect(read.ok).toBe(false);
+  });
+
+  it('rejects JSON that is not an object', async () => {
+    expect(await readJsonBody(post('null'))).toEqual({ ok: false, error: 'Request body must be a JSON object' });
+    expect((await readJsonBody(post('[1]'))).ok).toBe(false);
+  });
+});
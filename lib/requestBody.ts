@@ -0,0 +1,26 @@
+// ============================================
+// Request Bodies - JSON Parsing for API Routes
+// ============================================
+// A malformed body is the client's mistake, so routes answer 400 rather than
+// letting the parse error fall through to their 500 handler. An empty body
+// reads as {}, so action routes fall back to their default action.
+
+export type JsonBody =
+  | { ok: true; body: Record<string, unknown> }
+  | { ok: false; error: string };
+
+export async function readJsonBody(req: Request): Promise<JsonBody> {
+  const text = await req.text();
+  if (!text.trim()) return { ok: true, body: {} };
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, error: `Request body is not valid JSON: ${(error as Error).message}` };
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' };
+  }
+  return { ok: true, body: body as Record<string, unknown> };
+}
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { revertChange } from './revert';
+import { assignPilotToMission, unassignFromMission } from './assignments';
+import { createMission, getMissionById, getPilotById, updatePilot } from './dataStore';
+import { getChanges } from './auditLog';
+import { getMissionTransitions } from './lifecycle';
+import type { Mission, MutationContext } from './types';
+
+const context: MutationContext = { source: 'api', actor: 'test' };
+
+function mission(id: string): Mission {
+  return {
+    project_id: id, client: 'Client T', location: 'Mumbai',
+    required_skills: ['Inspection'], required_certs: ['DGCA'],
+    start_date: '2027-06-07', end_date: '2027-06-09', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+  };
+}
+
+async function latestChange(entityType: string, entityId: string): Promise<string> {
+  return (await getChanges({ entity_type: entityType, entity_id: entityId, limit: 1 }))[0].change_id;
+}
+
+beforeAll(() => {
+  process.env.DATA_SOURCE = 'none';
+});
+
+describe('revertChange', () => {
+  it('refuses a revert that would put a pilot back on a clashing mission', async () => {
+    await createMission(mission('PRJ911'), context);
+    await createMission(mission('PRJ912'), context);
+    expect((await assignPilotToMission('P003', 'PRJ911', context)).success).toBe(true);
+    await unassignFromMission('PRJ911', { pilots: ['P003'] }, context);
+    const unassigned = await latestChange('mission', 'PRJ911');
+    expect((await assignPilotToMission('P003', 'PRJ912', context)).success).toBe(true);
+
+    const result = await revertChange(unassigned, context);
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts?.some((c) => c.type === 'double_booking_pilot')).toBe(true);
+    expect((await getMissionById('PRJ911'))?.crew).toEqual([]);
+  });
+
+  it('refuses a revert that would change nothing, so it cannot be repeated', async () => {
+    await updatePilot('P006', { location: 'Delhi' }, context);
+    const moved = await latestChange('pilot', 'P006');
+    await updatePilot('P006', { location: 'Bangalore' }, context);
+
+    const result = await revertChange(moved, context, { force: true });
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('nothing to revert') });
+    expect((await getPilotById('P006'))?.location).toBe('Bangalore');
+  });
+
+  it('reverts a plain field change once', async () => {
+    await updatePilot('P005', { location: 'Pune' }, context);
+    const moved = await latestChange('pilot', 'P005');
+
+    expect((await revertChange(moved, context)).success).toBe(true);
+    expect((await getPilotById('P005'))?.location).toBe('Delhi');
+    expect((await revertChange(moved, context)).success).toBe(false);
+  });
+});
+
+describe('reverting a mission creation', () => {
+  it('cancels the mission through the lifecycle and archives it', async () => {
+    await createMission(mission('PRJ939'), context);
+
+    const result = await revertChange(await latestChange('mission', 'PRJ939'), context);
+
+    expect(result.success).toBe(true);
+    expect(await getMissionById('PRJ939')).toMatchObject({ mission_status: 'Cancelled', archived_at: expect.any(String) });
+    expect((await getMissionTransitions('PRJ939')).map((t) => t.to)).toEqual(['Cancelled']);
+  });
+});
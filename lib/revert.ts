@@ -0,0 +1,208 @@
+// ============================================
+// Undo - Revert Logged Changes
+// ============================================
+
+import type { AuditEntry, Conflict, EntityChange, MutationContext, Pilot, Drone, Mission, Equipment } from './types';
+import { getChangeById, getChanges, findRevertOf } from './auditLog';
+import {
+  getPilotById,
+  getDroneById,
+  getMissionById,
+  getEquipmentById,
+  runTransaction,
+  archivePilot,
+  archiveDrone,
+  archiveMission,
+  archiveEquipment,
+} from './dataStore';
+import { crewIds, migrateLegacyAssignments } from './crew';
+import { validateBooking, validateSchedule } from './conflicts';
+import { SCHEDULE_FIELDS } from './scheduling';
+import { migrateLegacyCertifications } from './certifications';
+import { isClosed } from './lifecycle';
+import { transitionMission } from './assignments';
+
+export interface RevertResult {
+  change_id: string;
+  success: boolean;
+  error?: string;
+  conflicts?: Conflict[];
+  reverted_by?: string;
+}
+
+async function getCurrentRecord(entry: AuditEntry): Promise<Pilot | Drone | Mission | Equipment | null> {
+  if (entry.entity_type === 'pilot') return getPilotById(entry.entity_id);
+  if (entry.entity_type === 'drone') return getDroneById(entry.entity_id);
+  if (entry.entity_type === 'equipment') return getEquipmentById(entry.entity_id);
+  return getMissionById(entry.entity_id);
+}
+
+// Logged `null` means the field was empty before the change
+function toUpdates(values: Record<string, unknown>): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    updates[key] = value === null ? '' : value;
+  }
+  return updates;
+}
+
+// Mission changes logged before crews existed name single pilot/drone fields;
+// pilot changes logged before certificate details list certifications as names
+function withCurrentFields(entry: AuditEntry): AuditEntry {
+  const migrate = entry.entity_type === 'mission'
+    ? migrateLegacyAssignments
+    : entry.entity_type === 'pilot' ? migrateLegacyCertifications : null;
+  if (!migrate) return entry;
+  const before = entry.before && { ...entry.before };
+  const after = { ...entry.after };
+  if (before) migrate(before);
+  migrate(after);
+  return { ...entry, before, after };
+}
+
+// ---- SINGLE CHANGE ----
+
+// Undo one logged change. Refuses if any field it touched has been changed
+// again since, unless `force` is set.
+export async function revertChange(
+  changeId: string,
+  context: MutationContext,
+  options: { force?: boolean } = {}
+): Promise<RevertResult> {
+  const logged = await getChangeById(changeId);
+  if (!logged) return { change_id: changeId, success: false, error: `Change ${changeId} not found` };
+  const entry = withCurrentFields(logged);
+
+  const existingRevert = await findRevertOf(changeId);
+  if (existingRevert) {
+    return {
+      change_id: changeId,
+      success: false,
+      error: `Change ${changeId} was already reverted by ${existingRevert.change_id}`,
+    };
+  }
+
+  const current = await getCurrentRecord(entry);
+  if (!current) {
+    return { change_id: changeId, success: false, error: `${entry.entity_type} ${entry.entity_id} no longer exists` };
+  }
+
+  const revertContext: MutationContext = {
+    ...context,
+    reason: context.reason || `Revert of change ${changeId}`,
+    reverts: changeId,
+  };
+
+  // Creations are undone by archiving, since records are never deleted
+  if (entry.action === 'create') {
+    const result =
+      entry.entity_type === 'pilot'
+        ? await archivePilot(entry.entity_id, revertContext)
+        : entry.entity_type === 'drone'
+          ? await archiveDrone(entry.entity_id, revertContext)
+          : entry.entity_type === 'equipment'
+            ? await archiveEquipment(entry.entity_id, revertContext)
+            : await revertMissionCreation(current as Mission, revertContext);
+    return { change_id: changeId, success: result.success, error: result.error };
+  }
+
+  // Checked under the write lock, so nothing can change between the check
+  // and the write
+  const updates = toUpdates(entry.before || {});
+  let refusal = '';
+  let conflicts: Conflict[] = [];
+  const result = await runTransaction([changeFor(entry, updates)], revertContext, {
+    validate: async () => {
+      const now: Record<string, unknown> = { ...(await getCurrentRecord(entry)) };
+      const differs = (key: string, value: unknown) => JSON.stringify(now[key] ?? '') !== JSON.stringify(value ?? '');
+
+      const drifted = Object.keys(entry.after).filter((key) => differs(key, entry.after[key]));
+      if (drifted.length > 0 && !options.force) {
+        refusal = `Field(s) ${drifted.join(', ')} on ${entry.entity_type} ${entry.entity_id} changed again after this change; pass force to revert anyway`;
+        return { valid: false, conflicts: [] };
+      }
+      // Nothing would be written or logged, so the revert could be repeated
+      if (!Object.keys(updates).some((key) => differs(key, updates[key]))) {
+        refusal = `${entry.entity_type} ${entry.entity_id} already has the values from before change ${changeId}; nothing to revert`;
+        return { valid: false, conflicts: [] };
+      }
+
+      if (entry.entity_type !== 'mission') return { valid: true, conflicts: [] };
+      conflicts = await rebookingConflicts(entry.entity_id, updates);
+      return { valid: options.force || !conflicts.some((c) => c.severity === 'error'), conflicts };
+    },
+  });
+
+  if (!result.success) {
+    if (refusal) return { change_id: changeId, success: false, error: refusal };
+    return {
+      change_id: changeId,
+      success: false,
+      error: result.conflicts ? 'Revert blocked due to conflicts; pass force to revert anyway' : result.error,
+      conflicts: result.conflicts,
+    };
+  }
+
+  const revert = await findRevertOf(changeId);
+  return { change_id: changeId, success: true, reverted_by: revert?.change_id };
+}
+
+function changeFor(entry: AuditEntry, updates: Record<string, unknown>): EntityChange {
+  if (entry.entity_type === 'pilot') return { entity: 'pilot', id: entry.entity_id, updates };
+  if (entry.entity_type === 'drone') return { entity: 'drone', id: entry.entity_id, updates };
+  if (entry.entity_type === 'equipment') return { entity: 'equipment', id: entry.entity_id, updates };
+  return { entity: 'mission', id: entry.entity_id, updates };
+}
+
+// Pilots and drones a mission revert puts back are checked like new
+// assignments; moving the schedule re-checks everyone on it
+async function rebookingConflicts(projectId: string, updates: Partial<Mission>): Promise<Conflict[]> {
+  const current = await getMissionById(projectId);
+  if (!current) return [];
+  const proposed: Mission = { ...current, ...updates };
+  if (proposed.mission_status !== 'Active' && proposed.mission_status !== 'Planned') return [];
+  if (SCHEDULE_FIELDS.some((key) => key in updates)) return (await validateSchedule(proposed)).conflicts;
+
+  const held = [...crewIds(current), ...current.assigned_drones];
+  const conflicts: Conflict[] = [];
+  for (const id of [...crewIds(proposed), ...proposed.assigned_drones]) {
+    if (!held.includes(id)) conflicts.push(...(await validateBooking(proposed, id)).conflicts);
+  }
+  return conflicts;
+}
+
+async function revertMissionCreation(
+  mission: Mission,
+  context: MutationContext
+): Promise<{ success: boolean; error?: string }> {
+  if (mission.crew.length || mission.assigned_drones.length || mission.assigned_equipment?.length) {
+    return {
+      success: false,
+      error: `Mission ${mission.project_id} has assigned resources; unassign them before reverting its creation`,
+    };
+  }
+  if (!isClosed(mission)) {
+    const cancelled = await transitionMission(mission.project_id, 'Cancelled', context);
+    if (!cancelled.success) return { success: false, error: [cancelled.error, ...(cancelled.blockers || [])].join(': ') };
+  }
+  return archiveMission(mission.project_id, context);
+}
+
+// ---- WHOLE CHAT TURN ----
+
+// Undo every change made during one chat turn, newest first
+export async function revertTurn(
+  turnId: string,
+  context: MutationContext,
+  options: { force?: boolean } = {}
+): Promise<{ turn_id: string; results: RevertResult[] }> {
+  const turnChanges = (await getChanges({ turn_id: turnId })).filter((e) => !e.reverts);
+  const results: RevertResult[] = [];
+
+  for (const entry of turnChanges) {
+    if (await findRevertOf(entry.change_id)) continue;
+    results.push(await revertChange(entry.change_id, context, options));
+  }
+
+  return { turn_id: turnId, results };
+}
@@ -0,0 +1,275 @@
+// ============================================
+// Row Mapping - Tabular Rows <-> Typed Records
+// ============================================
+// Shared by every tabular data source (Google Sheets, CSV files). Columns are
+// located through the header row, so they can be reordered or renamed (via
+// aliases in lib/sheetMapping.ts). Columns that map to no field are carried
+// on the record as `extra_columns` and written back untouched.
+
+import type { EntityType, RawRecord } from './types';
+import { getSheetMapping, normalizeHeader } from './sheetMapping';
+import { parseDaysOff, formatDaysOff } from './availability';
+import { parseDateBlocks, formatDateBlocks } from './dateBlocks';
+import { parseCrew, formatCrew } from './crew';
+import { parseCertifications, formatCertifications } from './certifications';
+
+// Cell text <-> structured value, for fields that aren't plain strings or lists
+interface FieldCodec {
+  parse(raw: string): unknown;
+  format(value: never): string;
+}
+
+interface FieldSpec {
+  field: string;
+  list?: boolean; // comma-separated values
+  fallback?: string; // used when the cell is empty
+  placeholder?: boolean; // written as '–' when empty
+  optional?: boolean; // omitted from the record when empty
+  codec?: FieldCodec; // structured cell; omitted from the record when empty
+}
+
+const PILOT_FIELDS: FieldSpec[] = [
+  { field: 'pilot_id' },
+  { field: 'name' },
+  { field: 'skills', list: true },
+  { field: 'certifications', codec: { parse: parseCertifications, format: formatCertifications } },
+  { field: 'location' },
+  { field: 'status', fallback: 'Available' },
+  { field: 'current_assignment', placeholder: true },
+  { field: 'available_from' },
+  { field: 'availability', codec: { parse: parseDateBlocks, format: formatDateBlocks } },
+  { field: 'days_off', codec: { parse: parseDaysOff, format: formatDaysOff } },
+  { field: 'archived_at', optional: true },
+];
+
+const DRONE_FIELDS: FieldSpec[] = [
+  { field: 'drone_id' },
+  { field: 'model' },
+  { field: 'capabilities', list: true },
+  { field: 'status', fallback: 'Available' },
+  { field: 'location' },
+  { field: 'current_assignment', placeholder: true },
+  { field: 'maintenance_due' },
+  { field: 'maintenance_windows', codec: { parse: parseDateBlocks, format: formatDateBlocks } },
+  { field: 'service_interval_hours', codec: { parse: parseNumberField, format: String } },
+  { field: 'category', optional: true },
+  { field: 'archived_at', optional: true },
+];
+
+const MISSION_FIELDS: FieldSpec[] = [
+  { field: 'project_id' },
+  { field: 'client' },
+  { field: 'location' },
+  { field: 'required_skills', list: true },
+  { field: 'required_certs', list: true },
+  { field: 'required_capabilities', list: true },
+  { field: 'start_date' },
+  { field: 'end_date' },
+  { field: 'start_time', optional: true },
+  { field: 'end_time', optional: true },
+  { field: 'time_zone', optional: true },
+  { field: 'priority', fallback: 'Standard' },
+  { field: 'crew', placeholder: true, codec: { parse: parseCrew, format: formatCrew } },
+  { field: 'required_roles', list: true },
+  { field: 'assigned_drones', list: true, placeholder: true },
+  { field: 'drones_required', codec: { parse: parseNumberField, format: String } },
+  { field: 'assigned_equipment', list: true },
+  { field: 'mission_status', fallback: 'Planned' },
+  { field: 'archived_at', optional: true },
+];
+
+const EQUIPMENT_FIELDS: FieldSpec[] = [
+  { field: 'equipment_id' },
+  { field: 'name' },
+  { field: 'type' },
+  { field: 'compatible_models', list: true },
+  { field: 'status', fallback: 'Available' },
+  { field: 'location' },
+  { field: 'current_assignment', placeholder: true },
+  { field: 'archived_at', optional: true },
+];
+
+const FIELDS: Record<EntityType, FieldSpec[]> = {
+  pilot: PILOT_FIELDS,
+  drone: DRONE_FIELDS,
+  mission: MISSION_FIELDS,
+  equipment: EQUIPMENT_FIELDS,
+};
+
+export const ID_FIELDS: Record<EntityType, string> = {
+  pilot: 'pilot_id',
+  drone: 'drone_id',
+  mission: 'project_id',
+  equipment: 'equipment_id',
+};
+
+// ---- FIELD PARSING ----
+
+export function parseListField(field: string): string[] {
+  if (!field || field === '–' || field === '-' || field === '') return [];
+  return field.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+// "50", "50 h", "1,200 hours": the leading number, ignoring a unit after it.
+// A cell with no number reads as empty rather than NaN, which would
+// quarantine the whole row.
+export function parseNumberField(field: string): number | undefined {
+  const match = field.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/^\s*(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function cleanField(field: string | undefined): string {
+  if (!field || field === '–' || field === '-' || field === 'undefined') return '';
+  return field.trim();
+}
+
+// ---- COLUMN LAYOUT ----
+
+export interface ColumnLayout {
+  entity: EntityType;
+  headers: string[];
+  fieldColumns: Map<string, number>; // field -> column index
+}
+
+// Map a header row onto fields. The first column matching a field (by name
+// or alias) wins; every other column is an extra column.
+export function resolveLayout(entity: EntityType, headers: string[]): ColumnLayout {
+  const aliases = getSheetMapping().aliases[entity];
+  const lookup = new Map<string, string>();
+  for (const spec of FIELDS[entity]) {
+    lookup.set(normalizeHeader(spec.field), spec.field);
+  }
+  for (const [field, names] of Object.entries(aliases)) {
+    for (const name of names) {
+      const key = normalizeHeader(name);
+      if (!lookup.has(key)) lookup.set(key, field);
+    }
+  }
+
+  const fieldColumns = new Map<string, number>();
+  headers.forEach((header, index) => {
+    const field = lookup.get(normalizeHeader(header || ''));
+    if (field && !fieldColumns.has(field)) fieldColumns.set(field, index);
+  });
+
+  return { entity, headers: headers.map((h) => h || ''), fieldColumns };
+}
+
+// Add columns the given records need: for a field missing from the sheet
+// that some record has a value for, and for extra columns the records carry
+// that the sheet does not have yet. With `fields` (a single-row patch) only
+// those fields are considered. An empty sheet gets every field. Empty fields
+// don't add columns, so writes don't grow a sheet laid out without them.
+export function extendLayout(
+  layout: ColumnLayout,
+  records: Array<{ extra_columns?: Record<string, string> }>,
+  fields?: string[]
+): ColumnLayout {
+  const headers = [...layout.headers];
+  const fieldColumns = new Map(layout.fieldColumns);
+  const fresh = headers.length === 0;
+
+  for (const spec of FIELDS[layout.entity]) {
+    if (fieldColumns.has(spec.field) || (fields && !fields.includes(spec.field))) continue;
+    if (fresh || records.some((record) => formatCell(spec, (record as Record<string, unknown>)[spec.field]))) {
+      fieldColumns.set(spec.field, headers.length);
+      headers.push(spec.field);
+    }
+  }
+  for (const record of fields ? [] : records) {
+    for (const header of Object.keys(record.extra_columns || {})) {
+      if (!headers.includes(header)) headers.push(header);
+    }
+  }
+
+  return { entity: layout.entity, headers, fieldColumns };
+}
+
+function isExtraColumn(layout: ColumnLayout, index: number): boolean {
+  if (!layout.headers[index]) return false;
+  for (const column of layout.fieldColumns.values()) {
+    if (column === index) return false;
+  }
+  return true;
+}
+
+// ---- ROW <-> RECORD ----
+
+function rowToRecord(row: string[], layout: ColumnLayout): RawRecord {
+  const record: RawRecord = {};
+
+  for (const spec of FIELDS[layout.entity]) {
+    const column = layout.fieldColumns.get(spec.field);
+    const raw = column === undefined ? '' : row[column] || '';
+    if (spec.codec) record[spec.field] = cleanField(raw) ? spec.codec.parse(cleanField(raw)) : undefined;
+    else if (spec.list) record[spec.field] = parseListField(raw);
+    else if (spec.optional) record[spec.field] = cleanField(raw) || undefined;
+    else record[spec.field] = cleanField(raw) || spec.fallback || '';
+  }
+
+  const extras: Record<string, string> = {};
+  layout.headers.forEach((header, index) => {
+    const value = (row[index] || '').trim();
+    if (value && isExtraColumn(layout, index)) extras[header] = value;
+  });
+  if (Object.keys(extras).length > 0) record.extra_columns = extras;
+
+  return record;
+}
+
+// Cell text for a field value; empty when the record has none
+function formatCell(spec: FieldSpec, value: unknown): string {
+  if (spec.codec) return value === undefined ? '' : spec.codec.format(value as never);
+  if (spec.list) return ((value as string[]) || []).join(', ');
+  return (value as string) || '';
+}
+
+export function recordToRow(record: object, layout: ColumnLayout): string[] {
+  const values = record as Record<string, unknown>;
+  const row = layout.headers.map(() => '');
+
+  for (const spec of FIELDS[layout.entity]) {
+    const column = layout.fieldColumns.get(spec.field);
+    if (column === undefined) continue;
+    row[column] = formatCell(spec, values[spec.field]) || (spec.placeholder ? '–' : '');
+  }
+
+  const extras = (values.extra_columns || {}) as Record<string, string>;
+  for (const [header, value] of Object.entries(extras)) {
+    const column = layout.headers.indexOf(header);
+    if (column !== -1 && isExtraColumn(layout, column)) row[column] = value;
+  }
+
+  return row;
+}
+
+// Every field the entity's rows hold
+export function fieldNames(entity: EntityType): string[] {
+  return FIELDS[entity].map((spec) => spec.field);
+}
+
+// Write only `fields` of `record` over an existing row, so cells edited in
+// the source since the last sync keep their values. Extra columns are never
+// patched: a single-row write leaves them as the source has them.
+export function patchRow(row: string[], record: object, layout: ColumnLayout, fields: string[]): string[] {
+  const full = recordToRow(record, layout);
+  const patched = layout.headers.map((_, i) => row[i] ?? '');
+  for (const field of fields) {
+    const column = layout.fieldColumns.get(field);
+    if (column !== undefined) patched[column] = full[column];
+  }
+  return patched;
+}
+
+// ---- TABLE HELPERS ----
+
+// Parse a full table (header row first). The records are untyped until the
+// data quality check validates them.
+export function parseTable(entity: EntityType, rows: string[][]): { layout: ColumnLayout; records: RawRecord[] } {
+  const layout = resolveLayout(entity, rows[0] || []);
+  return { layout, records: rows.slice(1).map((row) => rowToRecord(row, layout)) };
+}
+
+export function recordsToRows(records: object[], layout: ColumnLayout): string[][] {
+  return records.map((record) => recordToRow(record, layout));
+}
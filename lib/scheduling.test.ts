@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { missionsOverlap, missionWindows, zonedTime, sunTimes, nightOperationDays, requiredCertsFor } from './scheduling';
+import type { Mission } from './types';
+
+function mission(overrides: Partial<Mission>): Mission {
+  return {
+    project_id: 'PRJ1', client: 'Client T', location: 'Bangalore',
+    required_skills: [], required_certs: ['DGCA'],
+    start_date: '2026-03-02', end_date: '2026-03-03', priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+    ...overrides,
+  };
+}
+
+const minutes = (ms: number) => ms / 60000;
+
+describe('zonedTime', () => {
+  it('converts local wall-clock time to an instant', () => {
+    expect(new Date(zonedTime('2026-03-02', '09:30', 'Asia/Kolkata')).toISOString()).toBe('2026-03-02T04:00:00.000Z');
+  });
+
+  it('follows daylight saving time', () => {
+    expect(new Date(zonedTime('2026-07-01', '12:00', 'Europe/London')).toISOString()).toBe('2026-07-01T11:00:00.000Z');
+    expect(new Date(zonedTime('2026-01-01', '12:00', 'Europe/London')).toISOString()).toBe('2026-01-01T12:00:00.000Z');
+  });
+});
+
+describe('missionWindows', () => {
+  it('runs an overnight shift into the next day', () => {
+    const [first] = missionWindows(mission({ start_time: '22:00', end_time: '02:00', time_zone: 'Asia/Kolkata' }));
+    expect(minutes(first.end - first.start)).toBe(240);
+  });
+});
+
+describe('missionsOverlap', () => {
+  it('treats whole-day missions on shared days as overlapping', () => {
+    expect(missionsOverlap(mission({}), mission({ start_date: '2026-03-03', end_date: '2026-03-05' }))).toBe(true);
+  });
+
+  it('lets shifts on the same days pass when their hours differ', () => {
+    const morning = mission({ start_time: '06:00', end_time: '10:00' });
+    const evening = mission({ start_time: '16:00', end_time: '20:00' });
+    expect(missionsOverlap(morning, evening)).toBe(false);
+  });
+
+  it('catches an overnight shift running into the next morning', () => {
+    const night = mission({ start_date: '2026-03-03', end_date: '2026-03-03', start_time: '22:00', end_time: '07:00' });
+    const morning = mission({ start_date: '2026-03-04', end_date: '2026-03-04', start_time: '06:00', end_time: '10:00' });
+    expect(missionsOverlap(night, morning)).toBe(true);
+  });
+
+  it('compares across time zones', () => {
+    const india = mission({ start_time: '09:00', end_time: '12:00', time_zone: 'Asia/Kolkata' });
+    const london = mission({ start_time: '05:00', end_time: '06:00', time_zone: 'Europe/London' });
+    expect(missionsOverlap(india, london)).toBe(true);
+  });
+
+  it('rules out missions days apart', () => {
+    expect(missionsOverlap(mission({}), mission({ start_date: '2026-04-01', end_date: '2026-04-02' }))).toBe(false);
+  });
+});
+
+describe('sunTimes', () => {
+  it('puts midsummer sunrise and sunset in Bangalore within minutes of the almanac', () => {
+    const sun = sunTimes('2026-06-21', 12.97, 77.59)!;
+    // Almanac: 05:53 and 18:49 IST
+    expect(Math.abs(minutes(sun.sunrise - zonedTime('2026-06-21', '05:53', 'Asia/Kolkata')))).toBeLessThan(5);
+    expect(Math.abs(minutes(sun.sunset - zonedTime('2026-06-21', '18:49', 'Asia/Kolkata')))).toBeLessThan(5);
+  });
+
+  it('has no sunrise during polar night', () => {
+    expect(sunTimes('2026-12-21', 78.22, 15.65)).toBeNull();
+  });
+});
+
+describe('night operations', () => {
+  it('flags shifts that start before sunrise and adds Night Ops', () => {
+    const dawn = mission({ start_time: '05:00', end_time: '09:00' });
+    expect(nightOperationDays(dawn)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(requiredCertsFor(dawn)).toEqual(['DGCA', 'Night Ops']);
+  });
+
+  it('leaves daylight shifts and whole-day missions alone', () => {
+    expect(nightOperationDays(mission({ start_time: '09:00', end_time: '17:00' }))).toEqual([]);
+    expect(requiredCertsFor(mission({}))).toEqual(['DGCA']);
+  });
+});
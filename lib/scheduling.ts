@@ -0,0 +1,197 @@
+// ============================================
+// Mission Scheduling - Time Windows, Overlap and Night Operations
+// ============================================
+// A mission without times occupies whole days (start_date through end_date).
+// With start_time/end_time it is a daily shift on each of those days, in the
+// mission's time zone; an end time at or before the start time means the
+// shift runs past midnight.
+
+import type { Mission } from './types';
+import { lookupPlace } from './gazetteer';
+
+export const NIGHT_OPS_CERT = 'Night Ops';
+
+// Mission fields that decide when it flies
+export const SCHEDULE_FIELDS = ['start_date', 'end_date', 'start_time', 'end_time', 'time_zone'] as const;
+
+const MAX_SCHEDULE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEG = Math.PI / 180;
+
+export interface TimeWindow {
+  date: string; // local day the window starts on
+  start: number; // epoch ms
+  end: number; // epoch ms, exclusive
+}
+
+// ---- TIME ZONES ----
+
+function defaultTimeZone(): string {
+  return process.env.SCHEDULE_TIME_ZONE || 'Asia/Kolkata';
+}
+
+export function missionTimeZone(mission: Mission): string {
+  return mission.time_zone || lookupPlace(mission.location)?.time_zone || defaultTimeZone();
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Building a formatter is slow next to using one, and overlap checks convert
+// thousands of times
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zoneFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = zoneFormat(timeZone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Local wall-clock date + time in `timeZone` -> epoch ms
+export function zonedTime(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  let instant = wallClock - zoneOffset(wallClock, timeZone);
+  // Second pass settles DST transitions between the guess and the result
+  const offset = zoneOffset(instant, timeZone);
+  if (wallClock - offset !== instant) instant = wallClock - offset;
+  return instant;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Today's date (YYYY-MM-DD) in the scheduling time zone
+export function localToday(timeZone: string = defaultTimeZone()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+}
+
+// ---- WINDOWS & OVERLAP ----
+
+export function hasTimes(mission: Mission): boolean {
+  return Boolean(mission.start_time && mission.end_time);
+}
+
+export function missionWindows(mission: Mission): TimeWindow[] {
+  const timeZone = missionTimeZone(mission);
+
+  if (!hasTimes(mission)) {
+    return [{
+      date: mission.start_date,
+      start: zonedTime(mission.start_date, '00:00', timeZone),
+      end: zonedTime(addDays(mission.end_date, 1), '00:00', timeZone),
+    }];
+  }
+
+  const windows: TimeWindow[] = [];
+  let date = mission.start_date;
+  for (let i = 0; date <= mission.end_date && i < MAX_SCHEDULE_DAYS; i++, date = addDays(date, 1)) {
+    const start = zonedTime(date, mission.start_time!, timeZone);
+    let end = zonedTime(date, mission.end_time!, timeZone);
+    if (end <= start) end = zonedTime(addDays(date, 1), mission.end_time!, timeZone);
+    windows.push({ date, start, end });
+  }
+  return windows;
+}
+
+// True when the two missions' schedules share at least one minute. Missions
+// whose dates are more than two days apart can't overlap whatever their
+// zones and overnight shifts, so their windows are never built.
+export function missionsOverlap(a: Mission, b: Mission): boolean {
+  if (addDays(a.end_date, 2) < b.start_date || addDays(b.end_date, 2) < a.start_date) return false;
+  const windowsA = missionWindows(a);
+  const windowsB = missionWindows(b);
+  return windowsA.some((wa) => windowsB.some((wb) => wa.start < wb.end && wb.start < wa.end));
+}
+
+export function formatSchedule(mission: Mission): string {
+  const days = `${mission.start_date} to ${mission.end_date}`;
+  if (!hasTimes(mission)) return days;
+  return `${days}, ${mission.start_time}–${mission.end_time} ${missionTimeZone(mission)}`;
+}
+
+// ---- NIGHT OPERATIONS ----
+
+// Sunrise/sunset as epoch ms, from the sunrise equation
+// (https://en.wikipedia.org/wiki/Sunrise_equation). Accurate to a few
+// minutes; null during polar day or night.
+export function sunTimes(date: string, lat: number, lon: number): { sunrise: number; sunset: number } | null {
+  const [year, month, day] = date.split('-').map(Number);
+  const julianNoon = Date.UTC(year, month - 1, day, 12) / DAY_MS + 2440587.5;
+  const n = Math.round(julianNoon - 2451545.0 + 0.0008);
+  const meanNoon = n - lon / 360;
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center =
+    1.9148 * Math.sin(anomaly * DEG) + 0.02 * Math.sin(2 * anomaly * DEG) + 0.0003 * Math.sin(3 * anomaly * DEG);
+  const longitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = 2451545.0 + meanNoon + 0.0053 * Math.sin(anomaly * DEG) - 0.0069 * Math.sin(2 * longitude * DEG);
+  const sinDeclination = Math.sin(longitude * DEG) * Math.sin(23.4397 * DEG);
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const cosHourAngle =
+    (Math.sin(-0.833 * DEG) - Math.sin(lat * DEG) * sinDeclination) / (Math.cos(lat * DEG) * cosDeclination);
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const hourAngle = Math.acos(cosHourAngle) / DEG;
+  const toEpoch = (julian: number) => Math.round((julian - 2440587.5) * DAY_MS);
+  return { sunrise: toEpoch(transit - hourAngle / 360), sunset: toEpoch(transit + hourAngle / 360) };
+}
+
+// Days on which the mission's shift starts before sunrise or ends after
+// sunset. Day-only missions are assumed to fly in daylight. Locations missing
+// from the gazetteer fall back to 06:00–18:00 local daylight.
+export function nightOperationDays(mission: Mission): string[] {
+  if (!hasTimes(mission)) return [];
+
+  const place = lookupPlace(mission.location);
+  const timeZone = missionTimeZone(mission);
+  return missionWindows(mission)
+    .filter((window) => {
+      const sun = place ? sunTimes(window.date, place.lat, place.lon) : null;
+      const sunrise = sun?.sunrise ?? zonedTime(window.date, '06:00', timeZone);
+      const sunset = sun?.sunset ?? zonedTime(window.date, '18:00', timeZone);
+      return window.start < sunrise || window.end > sunset;
+    })
+    .map((window) => window.date);
+}
+
+export function isNightOperation(mission: Mission): boolean {
+  return nightOperationDays(mission).length > 0;
+}
+
+// The mission's certifications plus Night Ops when it flies in the dark
+export function requiredCertsFor(mission: Mission): string[] {
+  const certs = [...mission.required_certs];
+  const listed = certs.some((c) => c.toLowerCase() === NIGHT_OPS_CERT.toLowerCase());
+  if (!listed && isNightOperation(mission)) certs.push(NIGHT_OPS_CERT);
+  return certs;
+}
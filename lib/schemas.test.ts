@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MissionRequestSchema } from './schemas';
+
+const request = {
+  project_id: 'PRJ971', client: 'Client T', location: 'Pune',
+  required_skills: ['Mapping'], required_certs: ['DGCA'],
+  start_date: '2027-08-02', end_date: '2027-08-03', priority: 'Standard',
+};
+
+describe('MissionRequestSchema', () => {
+  it('accepts a new mission without bookings', () => {
+    expect(MissionRequestSchema.safeParse(request).success).toBe(true);
+  });
+
+  it('rejects crew, drones and equipment, which are booked through the assignment routes', () => {
+    for (const booking of [
+      { crew: [{ pilot_id: 'P002', role: 'PIC' }] },
+      { assigned_drones: ['D001'] },
+      { assigned_equipment: ['E001'] },
+    ]) {
+      expect(MissionRequestSchema.safeParse({ ...request, ...booking }).success).toBe(false);
+    }
+  });
+
+  it('only creates Planned missions', () => {
+    expect(MissionRequestSchema.parse(request).mission_status).toBe('Planned');
+    for (const mission_status of ['Active', 'Completed', 'Cancelled']) {
+      expect(MissionRequestSchema.safeParse({ ...request, mission_status }).success).toBe(false);
+    }
+  });
+
+  it('still checks the date order', () => {
+    expect(MissionRequestSchema.safeParse({ ...request, end_date: '2027-08-01' }).success).toBe(false);
+  });
+});
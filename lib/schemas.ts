@@ -0,0 +1,253 @@
+// ============================================
+// Zod Schemas - Runtime Validation for lib/types.ts
+// ============================================
+
+import { z } from 'zod';
+import { isValidTimeZone } from './scheduling';
+import type {
+  Pilot,
+  Drone,
+  Mission,
+  Equipment,
+  CrewRole,
+  CrewAssignment,
+  Certification,
+  PilotStatus,
+  DroneStatus,
+  EquipmentType,
+  EquipmentStatus,
+  MissionStatus,
+  Priority,
+  AvailabilityBlock,
+  AvailabilityKind,
+  MaintenanceWindow,
+  MaintenanceKind,
+  Weekday,
+} from './types';
+
+// Each schema is checked against its TypeScript type with `satisfies`, so a
+// change to lib/types.ts that isn't mirrored here fails the type-check.
+
+export const PilotStatusSchema = z.enum(['Available', 'Assigned', 'On Leave', 'Unavailable']) satisfies z.ZodType<PilotStatus>;
+export const DroneStatusSchema = z.enum(['Available', 'Maintenance', 'Deployed']) satisfies z.ZodType<DroneStatus>;
+export const EquipmentTypeSchema = z.enum(['Battery', 'Payload', 'Ground Kit']) satisfies z.ZodType<EquipmentType>;
+export const EquipmentStatusSchema = z.enum(['Available', 'Deployed', 'Maintenance']) satisfies z.ZodType<EquipmentStatus>;
+export const MissionStatusSchema = z.enum(['Planned', 'Active', 'Completed', 'Cancelled']) satisfies z.ZodType<MissionStatus>;
+export const CrewRoleSchema = z.enum(['PIC', 'Observer', 'Payload Operator']) satisfies z.ZodType<CrewRole>;
+export const PrioritySchema = z.enum(['Urgent', 'High', 'Standard']) satisfies z.ZodType<Priority>;
+export const AvailabilityKindSchema = z.enum(['leave', 'training', 'unavailable']) satisfies z.ZodType<AvailabilityKind>;
+export const MaintenanceKindSchema = z.enum(['service', 'firmware', 'inspection', 'repair']) satisfies z.ZodType<MaintenanceKind>;
+export const WeekdaySchema = z.enum(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']) satisfies z.ZodType<Weekday>;
+
+export const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format')
+  .refine((value) => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+  }, 'Invalid calendar date');
+
+export const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time in HH:MM (24-hour) format');
+
+export const TimeZoneSchema = z.string().refine(isValidTimeZone, 'Unknown time zone');
+
+const IdSchema = z.string().trim().min(1);
+const ListSchema = z.array(z.string().trim().min(1));
+
+export const AvailabilityBlockSchema = z
+  .object({
+    kind: AvailabilityKindSchema,
+    start_date: IsoDateSchema,
+    end_date: IsoDateSchema,
+    note: z.string().optional(),
+  })
+  .refine((b) => b.end_date >= b.start_date, {
+    message: 'end_date must be on or after start_date',
+    path: ['end_date'],
+  }) satisfies z.ZodType<AvailabilityBlock, z.ZodTypeDef, unknown>;
+
+export const MaintenanceWindowSchema = z
+  .object({
+    kind: MaintenanceKindSchema,
+    start_date: IsoDateSchema,
+    end_date: IsoDateSchema.or(z.literal('')), // '' = open-ended
+    note: z.string().optional(),
+  })
+  .refine((w) => !w.end_date || w.end_date >= w.start_date, {
+    message: 'end_date must be on or after start_date',
+    path: ['end_date'],
+  }) satisfies z.ZodType<MaintenanceWindow, z.ZodTypeDef, unknown>;
+
+// A plain string is a certificate with no details, as older records and API
+// clients send them
+export const CertificationSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? { type: value } : value),
+  z
+    .object({
+      type: z.string().trim().min(1).regex(/^[^()]+$/, 'Unreadable certificate details'),
+      number: z.string().trim().min(1).optional(),
+      issuer: z.string().trim().min(1).optional(),
+      issued_date: IsoDateSchema.optional(),
+      expiry_date: IsoDateSchema.optional(),
+      category: z.string().trim().min(1).optional(),
+      note: z.string().trim().min(1).optional(),
+    })
+    .strict()
+    .refine((c) => !c.issued_date || !c.expiry_date || c.expiry_date >= c.issued_date, {
+      message: 'expiry_date must be on or after issued_date',
+      path: ['expiry_date'],
+    })
+) satisfies z.ZodType<Certification, z.ZodTypeDef, unknown>;
+
+// ---- ENTITY SCHEMAS ----
+
+export const PilotSchema = z.object({
+  pilot_id: IdSchema,
+  name: z.string().trim().min(1),
+  skills: ListSchema.default([]),
+  certifications: z.array(CertificationSchema).default([]),
+  location: z.string().trim().min(1),
+  status: PilotStatusSchema.default('Available'),
+  current_assignment: z.string().default(''),
+  available_from: IsoDateSchema,
+  availability: z.array(AvailabilityBlockSchema).optional(),
+  days_off: z.array(WeekdaySchema).optional(),
+  archived_at: z.string().optional(),
+  extra_columns: z.record(z.string()).optional(),
+}) satisfies z.ZodType<Pilot, z.ZodTypeDef, unknown>;
+
+export const DroneSchema = z.object({
+  drone_id: IdSchema,
+  model: z.string().trim().min(1),
+  capabilities: ListSchema.default([]),
+  status: DroneStatusSchema.default('Available'),
+  location: z.string().trim().min(1),
+  current_assignment: z.string().default(''),
+  maintenance_due: IsoDateSchema,
+  maintenance_windows: z.array(MaintenanceWindowSchema).optional(),
+  service_interval_hours: z.number().positive().optional(),
+  category: z.string().trim().min(1).optional(),
+  archived_at: z.string().optional(),
+  extra_columns: z.record(z.string()).optional(),
+}) satisfies z.ZodType<Drone, z.ZodTypeDef, unknown>;
+
+export const EquipmentSchema = z.object({
+  equipment_id: IdSchema,
+  name: z.string().trim().min(1),
+  type: EquipmentTypeSchema,
+  compatible_models: ListSchema.default([]),
+  status: EquipmentStatusSchema.default('Available'),
+  location: z.string().trim().min(1),
+  current_assignment: z.string().default(''),
+  archived_at: z.string().optional(),
+  extra_columns: z.record(z.string()).optional(),
+}) satisfies z.ZodType<Equipment, z.ZodTypeDef, unknown>;
+
+export const CrewAssignmentSchema = z.object({
+  pilot_id: IdSchema,
+  role: CrewRoleSchema.default('PIC'),
+}) satisfies z.ZodType<CrewAssignment, z.ZodTypeDef, unknown>;
+
+export const MissionSchema = z.object({
+  project_id: IdSchema,
+  client: z.string().trim().min(1),
+  location: z.string().trim().min(1),
+  required_skills: ListSchema.default([]),
+  required_certs: ListSchema.default([]),
+  required_capabilities: ListSchema.default([]),
+  start_date: IsoDateSchema,
+  end_date: IsoDateSchema,
+  start_time: TimeSchema.optional(),
+  end_time: TimeSchema.optional(),
+  time_zone: TimeZoneSchema.optional(),
+  priority: PrioritySchema.default('Standard'),
+  crew: z.array(CrewAssignmentSchema).default([]),
+  required_roles: z.array(CrewRoleSchema).optional(),
+  assigned_drones: ListSchema.default([]),
+  drones_required: z.number().int().positive().optional(),
+  assigned_equipment: ListSchema.default([]),
+  mission_status: MissionStatusSchema.default('Planned'),
+  archived_at: z.string().optional(),
+  extra_columns: z.record(z.string()).optional(),
+}) satisfies z.ZodType<Mission, z.ZodTypeDef, unknown>;
+
+// Missions must not end before they start, and times come in pairs
+function checkMissionTiming(
+  m: { start_date: string; end_date: string; start_time?: string; end_time?: string },
+  ctx: z.RefinementCtx
+): void {
+  if (m.end_date < m.start_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'end_date must be on or after start_date', path: ['end_date'] });
+  }
+  if (Boolean(m.start_time) !== Boolean(m.end_time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'start_time and end_time must be given together', path: ['end_time'] });
+  }
+}
+
+// A whole mission record, as stored or read from the source; nobody holds two
+// crew positions
+export const MissionCreateSchema = MissionSchema.superRefine((m, ctx) => {
+  checkMissionTiming(m, ctx);
+  if (new Set(m.crew.map((c) => c.pilot_id)).size !== m.crew.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'a pilot can hold only one crew position', path: ['crew'] });
+  }
+});
+
+// A new mission as a client sends it. Crew, drones and equipment are booked
+// afterwards (or with createMissionWithAssignments), which checks and
+// back-references them. It starts Planned; later statuses are reached only
+// through transitionMission.
+export const MissionRequestSchema = MissionSchema.omit({
+  crew: true,
+  assigned_drones: true,
+  assigned_equipment: true,
+  archived_at: true,
+})
+  .extend({
+    mission_status: z
+      .literal('Planned', { errorMap: () => ({ message: 'new missions start Planned; change status through /api/missions/{id}/transition' }) })
+      .default('Planned'),
+  })
+  .strict()
+  .superRefine(checkMissionTiming);
+
+// ---- PATCH SCHEMAS (IDs are immutable; archiving has its own operation) ----
+
+export const PilotPatchSchema = PilotSchema.omit({ pilot_id: true, archived_at: true }).partial().strict();
+export const DronePatchSchema = DroneSchema.omit({ drone_id: true, archived_at: true }).partial().strict();
+export const EquipmentPatchSchema = EquipmentSchema.omit({ equipment_id: true, archived_at: true }).partial().strict();
+// null clears the shift times (back to a whole-day mission) or the time zone.
+// Crew, drones and equipment change through the assignment routes, which
+// check and book them.
+export const MissionPatchSchema = MissionSchema.omit({
+  project_id: true,
+  archived_at: true,
+  crew: true,
+  assigned_drones: true,
+  assigned_equipment: true,
+})
+  .extend({ start_time: TimeSchema.nullable(), end_time: TimeSchema.nullable(), time_zone: TimeZoneSchema.nullable() })
+  .partial()
+  .strict();
+
+// ---- FLIGHT LOGS ----
+
+// Flight figures recorded against a completed mission's log
+export const FlightDetailsSchema = z.object({
+  pilot_id: IdSchema.optional(),
+  drone_ids: z.array(IdSchema).optional(),
+  flight_date: IsoDateSchema.optional(),
+  sorties: z.number().int().min(0).optional(),
+  flight_minutes: z.number().min(0).optional(),
+  battery_cycles: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+}).strict();
+
+// ---- HELPERS ----
+
+export function formatZodIssues(error: z.ZodError): Array<{ path: string; message: string }> {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
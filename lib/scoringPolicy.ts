@@ -0,0 +1,213 @@
+// ============================================
+// Scoring Policy - Weights for Match Recommendations
+// ============================================
+// Pilot and drone matches are scored factor by factor. Each factor check has
+// an outcome (skills: match / missing, location: match / mismatch, ...) and
+// the policy says how many points each outcome is worth. Outcomes listed as
+// hard constraints make a candidate ineligible instead of just costing points.
+//
+// Defaults can be overridden with a JSON file (SCORING_POLICY_FILE, or
+// scoring-policy.json in the working directory), e.g.
+//   {
+//     "version": "west-2026-03",
+//     "pilot": { "weights": { "location": { "air": -40 } }, "hard": ["certs.missing"] },
+//     "regions": { "Mumbai": { "pilot": { "weights": { "skills": { "missing": -5 } } } } }
+//   }
+// Location outcomes are distance bands (match / nearby / road / air, or
+// mismatch when the gazetteer doesn't know a location; see lib/travel.ts).
+// Region overrides apply to missions at that location. Bump `version` when the
+// policy changes; it is reported with every match so rankings can be traced.
+
+import { z } from 'zod';
+import { loadConfigFile } from './configFile';
+
+export type MatchKind = 'pilot' | 'drone';
+
+// Ordering among candidates with equal scores:
+//   local      - based at the mission location first
+//   least_busy - fewest open missions first
+//   id         - by ID, so rankings are stable
+export type TieBreaker = 'local' | 'least_busy' | 'id';
+
+// factor -> outcome -> points
+export type FactorWeights = Record<string, Record<string, number>>;
+
+export interface MatchRules {
+  weights: FactorWeights;
+  hard: string[]; // "factor.outcome" entries that rule a candidate out
+  tie_breakers: TieBreaker[];
+}
+
+export interface ScoringPolicy {
+  version: string;
+  pilot: MatchRules;
+  drone: MatchRules;
+  regions: Record<string, Partial<Record<MatchKind, Partial<MatchRules>>>>;
+}
+
+// One factor's contribution to a candidate's score
+export interface ScoreComponent {
+  factor: string;
+  outcome: string;
+  points: number;
+  hard?: boolean; // this outcome is a hard constraint
+  detail?: string;
+}
+
+const DEFAULT_POLICY: ScoringPolicy = {
+  version: 'default-v4',
+  pilot: {
+    weights: {
+      crew: { member: -100 },
+      status: { available: 30, assigned: 20, overlapping: -50, on_leave: -100, unavailable: -100 },
+      days_off: { working: -10 },
+      skills: { match: 25, missing: -20 },
+      certs: { match: 25, expired: -30, missing: -30 },
+      location: { match: 20, nearby: 5, road: -5, air: -15, mismatch: -10 },
+      transit: { short: -40 },
+    },
+    hard: ['crew.member', 'status.unavailable', 'status.on_leave'],
+    tie_breakers: ['local', 'least_busy', 'id'],
+  },
+  drone: {
+    weights: {
+      mission: { assigned: -100 },
+      status: { available: 30, deployed: 15, overlapping: -50, maintenance: -100 },
+      location: { match: 30, nearby: 10, road: -5, air: -25, mismatch: -15 },
+      transit: { short: -40 },
+      capability: { preferred: 20, acceptable: 10, missing: -15 },
+      maintenance_due: { due: -10 },
+    },
+    hard: ['mission.assigned', 'status.maintenance'],
+    tie_breakers: ['local', 'least_busy', 'id'],
+  },
+  regions: {},
+};
+
+let cachedPolicy: ScoringPolicy | null = null;
+
+const MatchRulesOverrideSchema = z
+  .object({
+    weights: z.record(z.record(z.number().finite())).optional(),
+    hard: z.array(z.string()).optional(),
+    tie_breakers: z.array(z.enum(['local', 'least_busy', 'id'])).optional(),
+  })
+  .strict();
+
+const ScoringPolicyOverrideSchema = z
+  .object({
+    version: z.string().min(1).optional(),
+    pilot: MatchRulesOverrideSchema.optional(),
+    drone: MatchRulesOverrideSchema.optional(),
+    regions: z
+      .record(z.object({ pilot: MatchRulesOverrideSchema.optional(), drone: MatchRulesOverrideSchema.optional() }).strict())
+      .optional(),
+  })
+  .strict();
+
+// Weights and hard constraints naming an outcome the scorer never produces
+// are most likely typos; they are kept but reported
+function reportUnknownOutcomes(byKind: Partial<Record<MatchKind, Partial<MatchRules>>>, where: string): void {
+  for (const kind of ['pilot', 'drone'] as const) {
+    const rules = byKind[kind];
+    const named = [
+      ...Object.entries(rules?.weights || {}).flatMap(([factor, outcomes]) => Object.keys(outcomes).map((o) => `${factor}.${o}`)),
+      ...(rules?.hard || []),
+    ];
+    for (const entry of named) {
+      const [factor, outcome] = entry.split('.');
+      if (DEFAULT_POLICY[kind].weights[factor]?.[outcome] === undefined) {
+        console.error(`Scoring policy ${where}${kind} names unknown outcome ${entry}`);
+      }
+    }
+  }
+}
+
+// Overrides replace individual outcome weights
+function mergeWeights(base: FactorWeights, extra: FactorWeights | undefined): FactorWeights {
+  const merged: FactorWeights = {};
+  for (const [factor, outcomes] of Object.entries(base)) merged[factor] = { ...outcomes };
+  for (const [factor, outcomes] of Object.entries(extra || {})) {
+    for (const [outcome, points] of Object.entries(outcomes)) {
+      merged[factor] = { ...merged[factor], [outcome]: points };
+    }
+  }
+  return merged;
+}
+
+function mergeRules(base: MatchRules, extra: Partial<MatchRules> | undefined): MatchRules {
+  return {
+    weights: mergeWeights(base.weights, extra?.weights),
+    hard: extra?.hard || base.hard,
+    tie_breakers: extra?.tie_breakers || base.tie_breakers,
+  };
+}
+
+export function getScoringPolicy(): ScoringPolicy {
+  if (cachedPolicy) return cachedPolicy;
+
+  const overrides = loadConfigFile('Scoring policy', 'SCORING_POLICY_FILE', 'scoring-policy.json', ScoringPolicyOverrideSchema) || {};
+  reportUnknownOutcomes(overrides, '');
+  for (const [region, byKind] of Object.entries(overrides.regions || {})) reportUnknownOutcomes(byKind, `regions.${region}.`);
+  cachedPolicy = {
+    version: overrides.version || DEFAULT_POLICY.version,
+    pilot: mergeRules(DEFAULT_POLICY.pilot, overrides.pilot),
+    drone: mergeRules(DEFAULT_POLICY.drone, overrides.drone),
+    regions: overrides.regions || {},
+  };
+  return cachedPolicy;
+}
+
+// The rules for matching at a location, with its region override applied
+export function rulesFor(kind: MatchKind, location: string): { rules: MatchRules; region?: string } {
+  const policy = getScoringPolicy();
+  const region = Object.keys(policy.regions).find((r) => r.toLowerCase() === location.trim().toLowerCase());
+  if (!region) return { rules: policy[kind] };
+  return { rules: mergeRules(policy[kind], policy.regions[region][kind]), region };
+}
+
+// ---- SCORING ----
+
+// Record one factor outcome. `detail` describes a shortfall; those details
+// are also reported as the candidate's issues.
+export function scoreFactor(rules: MatchRules, factor: string, outcome: string, detail?: string): ScoreComponent {
+  const component: ScoreComponent = { factor, outcome, points: rules.weights[factor]?.[outcome] ?? 0 };
+  if (rules.hard.includes(`${factor}.${outcome}`)) component.hard = true;
+  if (detail) component.detail = detail;
+  return component;
+}
+
+export function summarizeScore(breakdown: ScoreComponent[]): {
+  score: number;
+  eligible: boolean;
+  issues: string[];
+} {
+  return {
+    score: breakdown.reduce((sum, c) => sum + c.points, 0),
+    eligible: !breakdown.some((c) => c.hard),
+    issues: breakdown.flatMap((c) => (c.detail ? [c.detail] : [])),
+  };
+}
+
+// "status available +30, location mismatch -10 (hard)"
+export function formatBreakdown(breakdown: ScoreComponent[]): string {
+  return breakdown
+    .map((c) => `${c.factor} ${c.outcome} ${c.points >= 0 ? '+' : ''}${c.points}${c.hard ? ' (hard)' : ''}`)
+    .join(', ');
+}
+
+// Sort eligible candidates first, then by score, then by the tie-breakers
+export function compareMatches(
+  rules: MatchRules,
+  a: { id: string; score: number; eligible: boolean; local: boolean; open_missions: number },
+  b: { id: string; score: number; eligible: boolean; local: boolean; open_missions: number }
+): number {
+  if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+  if (a.score !== b.score) return b.score - a.score;
+  for (const tieBreaker of rules.tie_breakers) {
+    if (tieBreaker === 'local' && a.local !== b.local) return a.local ? -1 : 1;
+    if (tieBreaker === 'least_busy' && a.open_missions !== b.open_missions) return a.open_missions - b.open_missions;
+    if (tieBreaker === 'id' && a.id !== b.id) return a.id.localeCompare(b.id);
+  }
+  return 0;
+}
@@ -0,0 +1,116 @@
+// ============================================
+// Sheet Mapping Config - Tab Names and Column Aliases
+// ============================================
+// Defaults can be overridden with a JSON file (SHEET_MAPPING_FILE, or
+// sheet-mapping.json in the working directory), e.g.
+//   {
+//     "tabs": { "pilots": "Crew" },
+//     "aliases": { "pilot": { "available_from": ["Free From"] } }
+//   }
+// and tab names individually with SHEET_TAB_PILOTS / _DRONES / _MISSIONS /
+// _EQUIPMENT.
+
+import { z } from 'zod';
+import type { EntityType } from './types';
+import { loadConfigFile } from './configFile';
+
+export interface SheetMappingConfig {
+  tabs: { pilots: string; drones: string; missions: string; equipment: string };
+  // Extra header names accepted for each field, per entity
+  aliases: Record<EntityType, Record<string, string[]>>;
+}
+
+const DEFAULT_MAPPING: SheetMappingConfig = {
+  tabs: {
+    pilots: 'Pilot Roster',
+    drones: 'Drone Fleet',
+    missions: 'Missions',
+    equipment: 'Equipment',
+  },
+  aliases: {
+    pilot: {
+      pilot_id: ['id', 'pilot'],
+      name: ['pilot_name'],
+      certifications: ['certs'],
+      current_assignment: ['assignment'],
+      available_from: ['available', 'available_date'],
+      availability: ['time_off', 'leave', 'calendar'],
+      days_off: ['weekly_off', 'off_days'],
+    },
+    drone: {
+      drone_id: ['id', 'drone'],
+      capabilities: ['payloads'],
+      current_assignment: ['assignment'],
+      maintenance_due: ['next_maintenance', 'maintenance_date'],
+      maintenance_windows: ['maintenance_schedule', 'service_schedule', 'maintenance_plan'],
+      category: ['class', 'drone_class', 'drone_category'],
+    },
+    mission: {
+      project_id: ['id', 'mission_id', 'project'],
+      required_skills: ['skills'],
+      required_certs: ['certs', 'required_certifications'],
+      required_capabilities: ['capabilities', 'drone_capabilities', 'payloads'],
+      crew: ['assigned_pilot', 'pilot', 'pilots'],
+      assigned_drones: ['assigned_drone', 'drone', 'drones'],
+      assigned_equipment: ['equipment', 'kit'],
+      mission_status: ['status'],
+    },
+    equipment: {
+      equipment_id: ['id', 'kit_id', 'item_id'],
+      name: ['description', 'item'],
+      type: ['category', 'kind'],
+      compatible_models: ['compatible_with', 'fits', 'drone_models'],
+      current_assignment: ['assignment'],
+    },
+  },
+};
+
+let cachedMapping: SheetMappingConfig | null = null;
+
+const AliasesSchema = z.record(z.array(z.string()));
+
+const SheetMappingOverrideSchema = z
+  .object({
+    tabs: z
+      .object({ pilots: z.string(), drones: z.string(), missions: z.string(), equipment: z.string() })
+      .partial()
+      .strict()
+      .optional(),
+    aliases: z
+      .object({ pilot: AliasesSchema, drone: AliasesSchema, mission: AliasesSchema, equipment: AliasesSchema })
+      .partial()
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export function getSheetMapping(): SheetMappingConfig {
+  if (cachedMapping) return cachedMapping;
+
+  const overrides = loadConfigFile('Sheet mapping', 'SHEET_MAPPING_FILE', 'sheet-mapping.json', SheetMappingOverrideSchema) || {};
+  const aliases = { ...DEFAULT_MAPPING.aliases };
+  for (const entity of Object.keys(aliases) as EntityType[]) {
+    const extra = overrides.aliases?.[entity] || {};
+    const merged = { ...aliases[entity] };
+    for (const [field, names] of Object.entries(extra)) {
+      merged[field] = [...(merged[field] || []), ...names];
+    }
+    aliases[entity] = merged;
+  }
+
+  cachedMapping = {
+    tabs: {
+      pilots: process.env.SHEET_TAB_PILOTS || overrides.tabs?.pilots || DEFAULT_MAPPING.tabs.pilots,
+      drones: process.env.SHEET_TAB_DRONES || overrides.tabs?.drones || DEFAULT_MAPPING.tabs.drones,
+      missions: process.env.SHEET_TAB_MISSIONS || overrides.tabs?.missions || DEFAULT_MAPPING.tabs.missions,
+      equipment: process.env.SHEET_TAB_EQUIPMENT || overrides.tabs?.equipment || DEFAULT_MAPPING.tabs.equipment,
+    },
+    aliases,
+  };
+  return cachedMapping;
+}
+
+// "Pilot ID", "pilot-id" and "pilot_id" all name the same column
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s\-_.]+/g, '_');
+}
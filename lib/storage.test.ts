@@ -0,0 +1,38 @@
+import { mkdtempSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createJsonFileStorage, createMemoryStorage } from './storage';
+
+describe('createJsonFileStorage', () => {
+  it('keeps documents across adapters, as after a restart', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    await createJsonFileStorage(dir).write('snapshot', { pilots: [{ pilot_id: 'P1', status: 'On Leave' }] });
+
+    expect(await createJsonFileStorage(dir).read('snapshot')).toEqual({ pilots: [{ pilot_id: 'P1', status: 'On Leave' }] });
+    expect(await createJsonFileStorage(dir).read('missing')).toBeNull();
+  });
+
+  it('applies concurrent writes to one key in order and leaves no temp files', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    const storage = createJsonFileStorage(dir);
+
+    await Promise.all([1, 2, 3, 4, 5].map((n) => storage.write('counter', { n })));
+
+    expect(await storage.read('counter')).toEqual({ n: 5 });
+    expect(readdirSync(dir)).toEqual(['counter.json']);
+  });
+});
+
+describe('createMemoryStorage', () => {
+  it('hands out copies, never the stored document', async () => {
+    const storage = createMemoryStorage();
+    const value = { crew: ['P1'] };
+    await storage.write('doc', value);
+    value.crew.push('P2');
+
+    const read = await storage.read<typeof value>('doc');
+    read?.crew.push('P3');
+    expect(await storage.read('doc')).toEqual({ crew: ['P1'] });
+  });
+});
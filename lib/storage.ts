@@ -0,0 +1,105 @@
+// ============================================
+// Storage Adapters - Local Persistence Backends
+// ============================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type StorageBackend = 'memory' | 'json_file';
+
+// A storage adapter persists named JSON documents (e.g. the data snapshot).
+// Values are always copied on the way in and out so callers never share
+// references with what is stored.
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  read<T>(key: string): Promise<T | null>;
+  write<T>(key: string, value: T): Promise<void>;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// ---- IN-MEMORY BACKEND ----
+// State lives for the lifetime of the server process only.
+
+export function createMemoryStorage(): StorageAdapter {
+  const documents = new Map<string, unknown>();
+
+  return {
+    backend: 'memory',
+    async read<T>(key: string): Promise<T | null> {
+      return documents.has(key) ? clone(documents.get(key) as T) : null;
+    },
+    async write<T>(key: string, value: T): Promise<void> {
+      documents.set(key, clone(value));
+    },
+  };
+}
+
+// ---- JSON FILE BACKEND ----
+// One `<key>.json` file per document. Writes go to a temp file first and are
+// renamed into place, and writes to the same key are serialized.
+
+export function createJsonFileStorage(directory: string): StorageAdapter {
+  const pendingWrites = new Map<string, Promise<void>>();
+
+  function fileFor(key: string): string {
+    return path.join(directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  return {
+    backend: 'json_file',
+    async read<T>(key: string): Promise<T | null> {
+      await pendingWrites.get(key);
+      try {
+        const raw = await fs.readFile(fileFor(key), 'utf8');
+        return JSON.parse(raw) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async write<T>(key: string, value: T): Promise<void> {
+      const file = fileFor(key);
+      const data = JSON.stringify(value, null, 2);
+      const previous = pendingWrites.get(key) || Promise.resolve();
+      const next = previous
+        .catch(() => {})
+        .then(async () => {
+          await fs.mkdir(directory, { recursive: true });
+          const tmp = `${file}.${process.pid}.tmp`;
+          await fs.writeFile(tmp, data, 'utf8');
+          await fs.rename(tmp, file);
+        });
+      pendingWrites.set(key, next);
+      try {
+        await next;
+      } finally {
+        if (pendingWrites.get(key) === next) pendingWrites.delete(key);
+      }
+    },
+  };
+}
+
+// ---- CONFIGURATION ----
+
+let storage: StorageAdapter | null = null;
+
+export function getStorageBackend(): StorageBackend {
+  const value = (process.env.DATA_STORE_BACKEND || 'memory').toLowerCase();
+  if (value === 'json_file' || value === 'json' || value === 'file') return 'json_file';
+  return 'memory';
+}
+
+export function getStorage(): StorageAdapter {
+  if (storage) return storage;
+
+  if (getStorageBackend() === 'json_file') {
+    const directory = path.resolve(process.env.DATA_STORE_DIR || '.data');
+    storage = createJsonFileStorage(directory);
+  } else {
+    storage = createMemoryStorage();
+  }
+  return storage;
+}
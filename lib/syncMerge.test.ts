@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTable } from './syncMerge';
+
+interface Row {
+  id: string;
+  name: string;
+  city: string;
+}
+
+const row = (id: string, name: string, city: string): Row => ({ id, name, city });
+
+function merge(base: Row[], local: Row[], remote: Row[], policy: 'local' | 'remote' = 'remote', held?: Set<string>) {
+  return mergeTable('pilot', base, local, remote, (r) => r.id, policy, '2026-10-19T00:00:00Z', held);
+}
+
+describe('mergeTable', () => {
+  it('takes each field from the side that changed it', () => {
+    const { records, conflicts } = merge(
+      [row('P1', 'Arjun', 'Pune')],
+      [row('P1', 'Arjun K', 'Pune')],
+      [row('P1', 'Arjun', 'Delhi')]
+    );
+    expect(records[0].merged).toEqual(row('P1', 'Arjun K', 'Delhi'));
+    expect(conflicts).toEqual([]);
+  });
+
+  it('reports a field changed on both sides and resolves it by policy', () => {
+    const args: [Row[], Row[], Row[]] = [[row('P1', 'Arjun', 'Pune')], [row('P1', 'Arjun', 'Goa')], [row('P1', 'Arjun', 'Delhi')]];
+
+    const remote = merge(...args, 'remote');
+    expect(remote.records[0].merged?.city).toBe('Delhi');
+    expect(remote.conflicts).toMatchObject([{ entity_id: 'P1', field: 'city', base: 'Pune', local: 'Goa', remote: 'Delhi' }]);
+
+    expect(merge(...args, 'local').records[0].merged?.city).toBe('Goa');
+  });
+
+  it('drops a record deleted in the source unless it has unsynced local edits', () => {
+    const base = [row('P1', 'Arjun', 'Pune'), row('P2', 'Neha', 'Mumbai')];
+    const { records, conflicts } = merge(base, [base[0], row('P2', 'Neha', 'Thane')], []);
+
+    expect(records.find((r) => r.id === 'P1')?.merged).toBeNull();
+    expect(records.find((r) => r.id === 'P2')?.merged).toBeNull();
+    expect(conflicts).toMatchObject([{ entity_id: 'P2', field: '*' }]);
+  });
+
+  it('keeps records created locally and in the source', () => {
+    const { records } = merge([], [row('P1', 'Arjun', 'Pune')], [row('P2', 'Neha', 'Mumbai')]);
+    expect(records.map((r) => [r.id, r.merged?.name])).toEqual([['P2', 'Neha'], ['P1', 'Arjun']]);
+  });
+
+  it('holds a record whose source row was quarantined instead of deleting it', () => {
+    const base = [row('P1', 'Arjun', 'Pune')];
+    const { records, conflicts } = merge(base, base, [], 'local', new Set(['P1']));
+
+    expect(records).toEqual([{ id: 'P1', local: base[0], merged: base[0], held: true }]);
+    expect(conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+// ============================================
+// Three-Way Merge - Local Edits vs Data Source Edits
+// ============================================
+// Compares the last synced version of a table (base), the in-memory version
+// (local) and what the data source holds now (remote), field by field:
+//   changed on one side only              -> take that side
+//   changed on both sides to the same value -> take it
+//   changed on both sides differently      -> conflict, resolved by policy
+
+import type { EntityType, SyncConflict, SyncConflictPolicy } from './types';
+
+export interface MergedRecord<T> {
+  id: string;
+  local?: T;
+  remote?: T;
+  merged: T | null; // null when the record should be dropped locally
+  held?: boolean; // the source row failed validation; kept as it is locally, not pushed
+}
+
+// Missing, null and empty lists all read back from the sheet as an empty cell
+function emptyAsBlank(value: unknown): unknown {
+  return value === undefined || value === null || (Array.isArray(value) && value.length === 0) ? '' : value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(emptyAsBlank(a)) === JSON.stringify(emptyAsBlank(b));
+}
+
+// Fields whose values differ between two versions of a record
+export function diffFields<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(
+    (key) => !sameValue((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key])
+  );
+}
+
+export function recordsEqual<T extends object>(a: T, b: T): boolean {
+  return diffFields(a, b).length === 0;
+}
+
+function mergeFields<T extends object>(
+  entity: EntityType,
+  id: string,
+  base: T | undefined,
+  local: T,
+  remote: T,
+  policy: SyncConflictPolicy,
+  detectedAt: string,
+  conflicts: SyncConflict[]
+): T {
+  const merged: Record<string, unknown> = {};
+  const b = base as Record<string, unknown> | undefined;
+  const l = local as Record<string, unknown>;
+  const r = remote as Record<string, unknown>;
+  const keys = new Set([...Object.keys(l), ...Object.keys(r)]);
+
+  for (const key of keys) {
+    let value: unknown;
+    if (sameValue(l[key], r[key])) {
+      value = l[key];
+    } else if (b && sameValue(l[key], b[key])) {
+      value = r[key];
+    } else if (b && sameValue(r[key], b[key])) {
+      value = l[key];
+    } else {
+      conflicts.push({
+        entity_type: entity,
+        entity_id: id,
+        field: key,
+        base: b ? b[key] ?? null : null,
+        local: l[key] ?? null,
+        remote: r[key] ?? null,
+        resolution: policy,
+        detected_at: detectedAt,
+      });
+      value = policy === 'local' ? l[key] : r[key];
+    }
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return merged as T;
+}
+
+// Merge one table. Records keep the source's row order, followed by records
+// that exist only locally. `held` are IDs whose source row was quarantined:
+// the row is still there, so the record is neither deleted nor appended again.
+export function mergeTable<T extends object>(
+  entity: EntityType,
+  base: T[],
+  local: T[],
+  remote: T[],
+  idOf: (record: T) => string,
+  policy: SyncConflictPolicy,
+  detectedAt: string,
+  held: Set<string> = new Set()
+): { records: MergedRecord<T>[]; conflicts: SyncConflict[] } {
+  const baseById = new Map(base.map((r) => [idOf(r), r]));
+  const localById = new Map(local.map((r) => [idOf(r), r]));
+  const remoteById = new Map(remote.map((r) => [idOf(r), r]));
+  const ids = [...new Set([...remote.map(idOf), ...local.map(idOf)])];
+
+  const conflicts: SyncConflict[] = [];
+  const records = ids.map((id): MergedRecord<T> => {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    // New in the source
+    if (!l) return { id, remote: r, merged: r! };
+
+    // Quarantined in the source: keep the local record until the row is fixed
+    if (!r && held.has(id)) return { id, local: l, merged: l, held: true };
+
+    // Created locally and never synced
+    if (!r && !b) return { id, local: l, merged: l };
+
+    // Deleted in the source: accept unless it has unsynced local edits
+    if (!r) {
+      if (recordsEqual(b!, l)) return { id, local: l, merged: null };
+      conflicts.push({
+        entity_type: entity,
+        entity_id: id,
+        field: '*',
+        base: b,
+        local: l,
+        remote: null,
+        resolution: policy,
+        detected_at: detectedAt,
+      });
+      return { id, local: l, merged: policy === 'local' ? l : null };
+    }
+
+    return { id, local: l, remote: r, merged: mergeFields(entity, id, b, l, r, policy, detectedAt, conflicts) };
+  });
+
+  return { records, conflicts };
+}
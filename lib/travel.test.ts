@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTravel, sameLocation, transitShortfalls } from './travel';
+import type { Mission } from './types';
+
+function mission(id: string, location: string, start_time: string, end_time: string): Mission {
+  return {
+    project_id: id, client: 'Client T', location,
+    required_skills: [], required_certs: [],
+    start_date: '2027-05-03', end_date: '2027-05-03', start_time, end_time, priority: 'Standard',
+    crew: [], assigned_drones: [], mission_status: 'Planned',
+  };
+}
+
+describe('estimateTravel', () => {
+  it('drives to a nearby city and flies to a distant one', () => {
+    expect(estimateTravel('Bengaluru', 'Mysore')).toMatchObject({ from: 'Bangalore', to: 'Mysore', mode: 'road' });
+    expect(estimateTravel('Bangalore', 'Delhi')).toMatchObject({ mode: 'air' });
+    expect(estimateTravel('Bangalore', 'Atlantis')).toBeNull();
+  });
+
+  it('treats a metro area as one site', () => {
+    expect(sameLocation('Gurugram', 'New Delhi')).toBe(true);
+    expect(sameLocation('Bangalore', 'Mysore')).toBe(false);
+  });
+});
+
+describe('transitShortfalls', () => {
+  it('flags back-to-back missions too far apart to reach in time', () => {
+    const bangalore = mission('PRJ926', 'Bangalore', '09:00', '12:00');
+    const delhi = mission('PRJ927', 'Delhi', '14:00', '17:00');
+
+    const [found, ...rest] = transitShortfalls([delhi, bangalore]);
+
+    expect(rest).toEqual([]);
+    expect(found).toMatchObject({ from: { project_id: 'PRJ926' }, to: { project_id: 'PRJ927' }, gap_hours: 2 });
+  });
+
+  it('accepts a drive that fits the gap', () => {
+    const mysore = mission('PRJ928', 'Mysore', '07:00', '09:00');
+    const bangalore = mission('PRJ929', 'Bangalore', '15:00', '17:00');
+    expect(transitShortfalls([mysore, bangalore])).toEqual([]);
+  });
+});
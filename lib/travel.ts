@@ -0,0 +1,133 @@
+// ============================================
+// Travel - Distances and Transit Time Between Sites
+// ============================================
+// Locations resolve to coordinates through the gazetteer. Distances are
+// great-circle; travel time is a rough door-to-door estimate:
+//   - within METRO_KM the two sites count as the same place (Gurgaon/Delhi)
+//   - up to MAX_ROAD_KM by road, at ROAD_KMH over the winding road distance
+//   - beyond that by air, with a fixed overhead for airports and ground legs
+// Locations missing from the gazetteer only match by name and have no
+// distance, so no transit check can be made for them.
+
+import type { Mission } from './types';
+import { lookupPlace } from './gazetteer';
+import { missionWindows, missionsOverlap } from './scheduling';
+
+const EARTH_RADIUS_KM = 6371;
+const DEG = Math.PI / 180;
+const HOUR_MS = 60 * 60 * 1000;
+
+const METRO_KM = 35;
+const NEARBY_KM = 150; // a short drive
+const ROAD_FACTOR = 1.3; // road distance vs. straight line
+const ROAD_KMH = 45;
+const MAX_ROAD_KM = 450; // straight-line; longer trips fly
+const AIR_KMH = 600;
+const AIR_OVERHEAD_HOURS = 4;
+
+export type TravelMode = 'same' | 'road' | 'air';
+
+export interface TravelEstimate {
+  from: string;
+  to: string;
+  distance_km: number;
+  hours: number;
+  mode: TravelMode;
+}
+
+// ---- DISTANCE ----
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Null when either location is not in the gazetteer
+export function estimateTravel(from: string, to: string): TravelEstimate | null {
+  const a = lookupPlace(from);
+  const b = lookupPlace(to);
+  if (!a || !b) return null;
+
+  const distance = Math.round(haversineKm(a.lat, a.lon, b.lat, b.lon));
+  if (a.name === b.name || distance <= METRO_KM) {
+    return { from: a.name, to: b.name, distance_km: distance, hours: 0, mode: 'same' };
+  }
+  if (distance <= MAX_ROAD_KM) {
+    const hours = (distance * ROAD_FACTOR) / ROAD_KMH;
+    return { from: a.name, to: b.name, distance_km: distance, hours: Math.round(hours * 10) / 10, mode: 'road' };
+  }
+  const hours = AIR_OVERHEAD_HOURS + distance / AIR_KMH;
+  return { from: a.name, to: b.name, distance_km: distance, hours: Math.round(hours * 10) / 10, mode: 'air' };
+}
+
+// Band for distance-weighted scoring
+export type DistanceBand = 'same' | 'nearby' | 'road' | 'air';
+
+export function distanceBand(estimate: TravelEstimate): DistanceBand {
+  if (estimate.mode !== 'road') return estimate.mode;
+  return estimate.distance_km <= NEARBY_KM ? 'nearby' : 'road';
+}
+
+// Same site: the same gazetteer place (or metro area), or the same name when
+// the gazetteer doesn't know the location
+export function sameLocation(a: string, b: string): boolean {
+  const estimate = estimateTravel(a, b);
+  if (estimate) return estimate.mode === 'same';
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// "128 km, ~3.7 h by road"
+export function describeTravel(estimate: TravelEstimate): string {
+  if (estimate.mode === 'same') return `${estimate.distance_km} km, same area`;
+  return `${estimate.distance_km} km, ~${estimate.hours} h by ${estimate.mode}`;
+}
+
+// "Bangalore (128 km, ~3.7 h by road from Mysore)", or just the location when
+// the distance is unknown
+export function describeLocation(location: string, from: string): string {
+  const estimate = estimateTravel(from, location);
+  return estimate ? `${location} (${describeTravel(estimate)} from ${from})` : location;
+}
+
+// ---- TRANSIT BETWEEN MISSIONS ----
+
+export interface TransitShortfall {
+  from: Mission;
+  to: Mission;
+  estimate: TravelEstimate;
+  gap_hours: number; // time between the end of `from` and the start of `to`
+}
+
+// Non-overlapping missions in the order they are flown
+function inOrder(missions: Mission[]): Mission[] {
+  const starts = new Map(missions.map((m) => [m.project_id, missionWindows(m)[0]?.start ?? 0]));
+  return [...missions].sort((a, b) => starts.get(a.project_id)! - starts.get(b.project_id)!);
+}
+
+function shortfall(from: Mission, to: Mission): TransitShortfall | null {
+  if (missionsOverlap(from, to)) return null; // a double-booking, reported separately
+  const estimate = estimateTravel(from.location, to.location);
+  if (!estimate || estimate.mode === 'same') return null;
+
+  const end = missionWindows(from).at(-1)!.end;
+  const start = missionWindows(to)[0].start;
+  const gapHours = (start - end) / HOUR_MS;
+  if (gapHours >= estimate.hours) return null;
+  return { from, to, estimate, gap_hours: Math.round(gapHours * 10) / 10 };
+}
+
+// Consecutive missions (for one pilot or drone) without enough time to travel
+// between them. With `only`, just the legs into and out of that mission.
+export function transitShortfalls(missions: Mission[], only?: string): TransitShortfall[] {
+  const ordered = inOrder(missions);
+  const shortfalls: TransitShortfall[] = [];
+  for (let i = 0; i + 1 < ordered.length; i++) {
+    const [from, to] = [ordered[i], ordered[i + 1]];
+    if (only && from.project_id !== only && to.project_id !== only) continue;
+    const found = shortfall(from, to);
+    if (found) shortfalls.push(found);
+  }
+  return shortfalls;
+}
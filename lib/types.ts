@@ -4,27 +4,75 @@
 
 export type PilotStatus = 'Available' | 'Assigned' | 'On Leave' | 'Unavailable';
 export type DroneStatus = 'Available' | 'Maintenance' | 'Deployed';
+export type EquipmentType = 'Battery' | 'Payload' | 'Ground Kit';
+export type EquipmentStatus = 'Available' | 'Deployed' | 'Maintenance';
 export type MissionStatus = 'Planned' | 'Active' | 'Completed' | 'Cancelled';
 export type Priority = 'Urgent' | 'High' | 'Standard';
 export type ConflictType =
   | 'double_booking_pilot'
   | 'double_booking_drone'
+  | 'double_booking_equipment'
+  | 'equipment_incompatible'
+  | 'capability_mismatch'
   | 'certification_mismatch'
+  | 'certification_expired'
   | 'skill_mismatch'
   | 'maintenance_issue'
   | 'location_mismatch'
-  | 'unavailable_pilot';
+  | 'insufficient_transit'
+  | 'unavailable_pilot'
+  | 'maintenance_window'
+  | 'maintenance_due'
+  | 'archived_record'
+  | 'record_not_found';
 export type ConflictSeverity = 'error' | 'warning';
+export type EntityType = 'pilot' | 'drone' | 'mission' | 'equipment';
+export type AvailabilityKind = 'leave' | 'training' | 'unavailable';
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+export type MaintenanceKind = 'service' | 'firmware' | 'inspection' | 'repair';
+
+// A period (inclusive dates) when a drone is out of service
+export interface MaintenanceWindow {
+  kind: MaintenanceKind;
+  start_date: string;
+  end_date: string; // '' while open-ended (unplanned repair)
+  note?: string;
+}
+
+// A period (inclusive dates) when a pilot cannot fly
+export interface AvailabilityBlock {
+  kind: AvailabilityKind;
+  start_date: string;
+  end_date: string;
+  note?: string;
+}
+
+// A pilot's certificate. Rosters listing bare names ("DGCA, Night Ops") give
+// records with just a type.
+export interface Certification {
+  type: string; // "DGCA", "Night Ops"
+  number?: string;
+  issuer?: string;
+  issued_date?: string;
+  expiry_date?: string; // last valid day; none = does not expire
+  category?: string; // drone category/class covered, e.g. "Small"
+  note?: string; // details in the cell that aren't one of the above, kept as written
+}
 
 export interface Pilot {
   pilot_id: string;
   name: string;
   skills: string[];
-  certifications: string[];
+  certifications: Certification[];
   location: string;
   status: PilotStatus;
   current_assignment: string;
   available_from: string;
+  availability?: AvailabilityBlock[]; // leave, training and other blocks
+  days_off?: Weekday[]; // recurring weekly days off
+  archived_at?: string;
+  extra_columns?: Record<string, string>; // unmapped sheet columns, kept on write
 }
 
 export interface Drone {
@@ -35,6 +83,32 @@ export interface Drone {
   location: string;
   current_assignment: string;
   maintenance_due: string;
+  maintenance_windows?: MaintenanceWindow[]; // scheduled service blocks
+  service_interval_hours?: number; // flight hours between services; defaults fleet-wide
+  category?: string; // regulatory category/class, e.g. "Small"; pilots' certificates must cover it
+  archived_at?: string;
+  extra_columns?: Record<string, string>; // unmapped sheet columns, kept on write
+}
+
+// Batteries, payloads and ground kits that travel with a drone
+export interface Equipment {
+  equipment_id: string;
+  name: string;
+  type: EquipmentType;
+  compatible_models: string[]; // drone models it fits; empty = any model
+  status: EquipmentStatus;
+  location: string;
+  current_assignment: string;
+  archived_at?: string;
+  extra_columns?: Record<string, string>; // unmapped sheet columns, kept on write
+}
+
+// Pilot-in-command, safety observer, or camera/sensor operator
+export type CrewRole = 'PIC' | 'Observer' | 'Payload Operator';
+
+export interface CrewAssignment {
+  pilot_id: string;
+  role: CrewRole;
 }
 
 export interface Mission {
@@ -43,12 +117,39 @@ export interface Mission {
   location: string;
   required_skills: string[];
   required_certs: string[];
+  required_capabilities?: string[]; // drone capabilities, on top of those the skills imply
   start_date: string;
   end_date: string;
+  start_time?: string; // HH:MM daily shift start; absent = whole days
+  end_time?: string; // HH:MM; at or before start_time = past midnight
+  time_zone?: string; // IANA zone; defaults to the location's zone
   priority: Priority;
-  assigned_pilot: string;
-  assigned_drone: string;
+  crew: CrewAssignment[]; // pilots on the mission, each with a role
+  required_roles?: CrewRole[]; // positions to fill; absent = a PIC only
+  assigned_drones: string[];
+  drones_required?: number; // absent = 1
+  assigned_equipment?: string[]; // equipment IDs booked for the mission
   mission_status: MissionStatus;
+  archived_at?: string;
+  extra_columns?: Record<string, string>; // unmapped sheet columns, kept on write
+}
+
+// Everything the data store holds, as persisted by a storage adapter
+export interface DataSnapshot {
+  pilots: Pilot[];
+  drones: Drone[];
+  missions: Mission[];
+  equipment: Equipment[];
+}
+
+// Rows as read from a data source; validation turns them into records
+export type RawRecord = Record<string, unknown>;
+
+export interface RawSnapshot {
+  pilots: RawRecord[];
+  drones: RawRecord[];
+  missions: RawRecord[];
+  equipment: RawRecord[];
 }
 
 export interface Conflict {
@@ -57,6 +158,182 @@ export interface Conflict {
   message: string;
   entities: string[];
   mission_id?: string;
+  rule?: string; // id of the conflict rule that raised it
+}
+
+// One record's field updates within a data store transaction
+export type EntityChange =
+  | { entity: 'pilot'; id: string; updates: Partial<Omit<Pilot, 'pilot_id'>> }
+  | { entity: 'drone'; id: string; updates: Partial<Omit<Drone, 'drone_id'>> }
+  | { entity: 'mission'; id: string; updates: Partial<Omit<Mission, 'project_id'>> }
+  | { entity: 'equipment'; id: string; updates: Partial<Omit<Equipment, 'equipment_id'>> };
+
+// ---- MISSION LIFECYCLE ----
+
+// A mission status change, with the resources it released
+export interface MissionTransition {
+  project_id: string;
+  from: MissionStatus;
+  to: MissionStatus;
+  timestamp: string;
+  source: ChangeSource;
+  actor: string;
+  reason: string;
+  released: string[]; // pilot, drone and equipment IDs freed or moved on
+}
+
+// ---- AUDIT TRAIL ----
+
+export type ChangeSource = 'chat' | 'api' | 'sync' | 'system';
+export type ChangeAction = 'create' | 'update' | 'archive' | 'restore';
+
+// Who/why a mutation is being made; threaded through every data store write
+export interface MutationContext {
+  source: ChangeSource;
+  actor?: string;
+  reason?: string;
+  turn_id?: string;
+  reverts?: string; // change_id being undone, when this mutation is a revert
+}
+
+export interface AuditEntry {
+  change_id: string;
+  timestamp: string;
+  source: ChangeSource;
+  actor: string;
+  reason: string;
+  turn_id?: string;
+  entity_type: EntityType;
+  entity_id: string;
+  action: ChangeAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown>;
+  reverts?: string;
+}
+
+// ---- SYNC ----
+
+// Which side wins when the same field was changed locally and in the source
+export type SyncConflictPolicy = 'remote' | 'local';
+
+// A field edited on both sides since the last sync, with differing values
+export interface SyncConflict {
+  entity_type: EntityType;
+  entity_id: string;
+  field: string; // '*' when the whole record is involved (e.g. deleted in the source)
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+  resolution: SyncConflictPolicy;
+  detected_at: string;
+}
+
+export interface MergeSummary {
+  pulled: number; // records updated or created from the source
+  pushed: number; // records written back because local edits won
+  conflicts: SyncConflict[];
+}
+
+// ---- DATA QUALITY ----
+
+// coerce: fix recognizable mistakes (case, whitespace, near-miss enum values,
+// loose date formats) and quarantine only what cannot be fixed.
+// quarantine: any invalid row is held back as-is.
+export type DataQualityMode = 'coerce' | 'quarantine';
+
+export interface DataQualityIssue {
+  entity_type: EntityType;
+  entity_id: string;
+  row: number; // sheet/file row number, header = row 1
+  field: string;
+  value: unknown;
+  message: string;
+  action: 'coerced' | 'quarantined';
+  coerced_to?: unknown;
+}
+
+export interface DataQualityReport {
+  checked_at: string;
+  source: string;
+  mode: DataQualityMode;
+  records_checked: number;
+  coerced: number; // records with at least one coerced field
+  quarantined: Array<{ entity_type: EntityType; entity_id: string; row: number; record: Record<string, unknown> }>;
+  issues: DataQualityIssue[];
+}
+
+// ---- REFERENTIAL INTEGRITY ----
+
+// dangling_reference      - an ID that names no (or an archived) record
+// back_reference_mismatch - a resource's current_assignment disagrees with
+//                           the missions that list it
+// status_mismatch         - Assigned/Deployed with no open mission, or
+//                           Available while booked on one
+// lifecycle_mismatch: a stored mission breaks the lifecycle rules (an Active
+// mission without a PIC or drone); reported only, never repaired automatically
+export type IntegrityIssueKind = 'dangling_reference' | 'back_reference_mismatch' | 'status_mismatch' | 'lifecycle_mismatch';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  entity_type: EntityType;
+  entity_id: string;
+  field: string;
+  value: unknown;
+  message: string;
+  fix?: EntityChange; // repair for the whole record, shared by its issues; none when a person must decide
+}
+
+export interface IntegrityReport {
+  checked_at: string;
+  source: string;
+  issues: IntegrityIssue[];
+}
+
+// ---- OUTBOX ----
+
+export type OutboxOperation = 'update' | 'append';
+
+// A data source write that failed and is waiting to be retried
+export interface OutboxEntry {
+  entity_type: EntityType;
+  entity_id: string;
+  operation: OutboxOperation;
+  status: 'pending' | 'failed'; // failed = gave up; needs a manual retry
+  attempts: number;
+  superseded: number; // newer changes folded into this entry
+  last_error: string;
+  created_at: string;
+  updated_at: string;
+  next_attempt_at: string;
+}
+
+// ---- FLIGHT LOGS ----
+
+// What actually flew on a completed mission. Opened automatically when the
+// mission moves to Completed; the flight figures are filled in afterwards.
+export interface FlightLog {
+  log_id: string;
+  project_id: string;
+  pilot_id: string;
+  drone_ids: string[]; // every airframe flown; each is credited with the flight time
+  flight_date: string;
+  sorties: number;
+  flight_minutes: number;
+  battery_cycles: number;
+  notes: string;
+  complete: boolean; // false until the flight figures are recorded
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FlightTotals {
+  flights: number;
+  sorties: number;
+  flight_minutes: number;
+  flight_hours: number;
+  battery_cycles: number;
+  last_flight: string | null;
+  incomplete_logs: number;
 }
 
 export interface ReassignmentPlan {
@@ -73,3 +350,38 @@ export interface ReassignmentChange {
   new_drone?: string;
   reason: string;
 }
+
+// ---- ASSIGNMENT PLANNING ----
+
+// One crew position or drone a mission still needs
+export interface PlanSlot {
+  project_id: string;
+  priority: Priority;
+  kind: 'pilot' | 'drone';
+  role?: CrewRole; // pilot slots only
+}
+
+export interface PlannedAssignment extends PlanSlot {
+  resource_id: string;
+  resource_name: string;
+  score: number;
+  explanation: string[];
+}
+
+export interface UnfilledSlot extends PlanSlot {
+  reason: string;
+}
+
+// A proposed staffing of every open Planned mission, solved jointly. Nothing
+// changes until the plan is applied.
+export interface AssignmentPlan {
+  plan_id: string;
+  created_at: string;
+  missions: string[]; // missions considered
+  assignments: PlannedAssignment[];
+  unfilled: UnfilledSlot[];
+  total_score: number;
+  policy_version: string; // scoring policy the match scores came from
+  search: { nodes: number; exhaustive: boolean };
+  applied_at?: string;
+}